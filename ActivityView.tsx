@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 
 // Types
-import type { User, Order } from '../types';
+import type { User, Order, DisputeCategory } from '../types';
 import { OrderStatus } from '../types';
 import { MENOFIA_DATA } from '../config/constants';
 
@@ -12,17 +12,26 @@ import { collection, query, where, onSnapshot } from "https://www.gstatic.com/fi
 
 // Utils
 import { stripFirestore } from '../utils';
+import { canReorder } from '../reorder';
+import { canOpenDispute, openDispute, DisputeError, DISPUTE_STATUS_LABELS } from '../disputes';
+
+// Components
+import OrderTimeline from '../components/OrderTimeline';
+import DisputeModal from '../components/DisputeModal';
 
 // Icons
 import { 
   Clock, Loader2, ChevronRight, CheckCircle2, 
-  XCircle, Bike, Car, MapPin, Building2, Filter 
+  XCircle, Bike, Car, MapPin, Building2, Filter, History, RotateCcw, LifeBuoy, Gift 
 } from 'lucide-react';
 
-const ActivityView: React.FC<{ user: User, onBack: () => void }> = ({ user, onBack }) => {
+const ActivityView: React.FC<{ user: User, onBack: () => void, onReorder?: (order: Order) => void }> = ({ user, onBack, onReorder }) => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDistrict, setSelectedDistrict] = useState<string>('الكل');
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [disputeOrder, setDisputeOrder] = useState<Order | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     const field = user.role === 'DRIVER' ? 'driverId' : 'customerId';
@@ -50,6 +59,16 @@ const ActivityView: React.FC<{ user: User, onBack: () => void }> = ({ user, onBa
     }
   };
 
+  const handleOpenDispute = async (input: { category: DisputeCategory, description: string, photos: string[] }) => {
+    if (!disputeOrder) return;
+    setIsSubmitting(true);
+    try {
+      await openDispute(disputeOrder, user, input);
+      setDisputeOrder(null);
+      alert('تم إرسال شكواك، ستتم مراجعتها والرد عليك قريباً');
+    } catch (e) { alert(e instanceof DisputeError ? e.message : 'فشل إرسال الشكوى'); } finally { setIsSubmitting(false); }
+  };
+
   const filteredOrders = orders.filter(o => {
     if (selectedDistrict === 'الكل') return true;
     const pickupDist = getDistrictName(o.pickup?.villageName);
@@ -59,6 +78,9 @@ const ActivityView: React.FC<{ user: User, onBack: () => void }> = ({ user, onBa
 
   return (
     <div className="max-w-2xl mx-auto space-y-8 pb-32 p-6 animate-in slide-in-from-right duration-500 h-full overflow-y-auto no-scrollbar">
+      {disputeOrder && (
+        <DisputeModal order={disputeOrder} isSubmitting={isSubmitting} onConfirm={handleOpenDispute} onClose={() => setDisputeOrder(null)} />
+      )}
       <div className="flex justify-between items-center px-2">
         <div className="text-right">
            <h2 className="text-3xl font-black text-slate-900 tracking-tighter">تاريخ مشاويري</h2>
@@ -107,7 +129,14 @@ const ActivityView: React.FC<{ user: User, onBack: () => void }> = ({ user, onBa
                     <span className={`inline-block mt-1 px-3 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest ${getStatusStyle(order.status)}`}>{order.status}</span>
                   </div>
                </div>
-               <p className="text-2xl font-black text-slate-900">{order.price} <span className="text-xs font-bold opacity-30">ج.م</span></p>
+               <div className="text-left space-y-1">
+                  <p className="text-2xl font-black text-slate-900">{order.price} <span className="text-xs font-bold opacity-30">ج.م</span></p>
+                  {order.tip && (
+                     <span className="inline-flex items-center gap-1 bg-amber-50 text-amber-600 px-3 py-1 rounded-lg text-[9px] font-black">
+                        <Gift className="h-3 w-3" /> إكرامية {order.tip.amount} ج.م {order.tip.method === 'CASH' ? '(نقداً)' : '(محفظة)'}
+                     </span>
+                  )}
+               </div>
             </div>
 
             <div className="space-y-4 px-2">
@@ -123,6 +152,30 @@ const ActivityView: React.FC<{ user: User, onBack: () => void }> = ({ user, onBa
                </div>
             </div>
 
+            {user.role === 'CUSTOMER' && (
+               <div className="space-y-4">
+                  <button onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)} className="w-full bg-slate-50 py-3 rounded-2xl text-[10px] font-black text-slate-500 flex items-center justify-center gap-2 hover:text-emerald-600 transition-all">
+                     <History className="h-4 w-4" /> {expandedOrderId === order.id ? 'إخفاء سجل الطلب' : 'عرض سجل الطلب'}
+                  </button>
+                  {expandedOrderId === order.id && <OrderTimeline orderId={order.id} compact />}
+                  {order.disputeStatus ? (
+                     <div className="bg-amber-50 py-3 px-4 rounded-2xl text-[10px] font-black text-amber-700 flex items-center justify-between">
+                        <span>{order.refundedAmount ? `تم رد ${order.refundedAmount} ج.م لمحفظتك` : ''}</span>
+                        <span className="flex items-center gap-2"><LifeBuoy className="h-4 w-4" /> الشكوى: {DISPUTE_STATUS_LABELS[order.disputeStatus]}</span>
+                     </div>
+                  ) : canOpenDispute(order) && (
+                     <button onClick={() => setDisputeOrder(order)} className="w-full bg-slate-50 py-3 rounded-2xl text-[10px] font-black text-slate-500 flex items-center justify-center gap-2 hover:text-amber-600 transition-all">
+                        <LifeBuoy className="h-4 w-4" /> الإبلاغ عن مشكلة في الطلب
+                     </button>
+                  )}
+                  {onReorder && canReorder(order) && (
+                     <button onClick={() => onReorder(order)} className="w-full bg-emerald-50 py-3 rounded-2xl text-[10px] font-black text-emerald-600 flex items-center justify-center gap-2 active:scale-95 transition-all">
+                        <RotateCcw className="h-4 w-4" /> إعادة الطلب
+                     </button>
+                  )}
+               </div>
+            )}
+
             <div className="pt-4 border-t border-slate-50 flex justify-between items-center text-[10px] font-bold text-slate-300 uppercase tracking-widest">
                <span>ID: #{order.id.slice(-6)}</span>
                <div className="flex items-center gap-2">
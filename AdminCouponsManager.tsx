@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Types
+import type { User, Coupon, CouponRedemption, OrderCategory, Restaurant } from '../types';
+import { MENOFIA_DATA } from '../config/constants';
+
+// Utils
+import { stripFirestore } from '../utils';
+import { saveCoupon, validateCouponInput, describeCoupon, CouponError, CouponInput } from '../coupons';
+
+// Services
+import { db } from '../services/firebase';
+import { collection, query, onSnapshot, orderBy, limit } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+// Icons
+import { ArrowRight, Ticket, Loader2, Plus, Edit2, X } from 'lucide-react';
+
+const CATEGORY_LABELS: Partial<Record<OrderCategory, string>> = { TAXI: 'مشاوير', FOOD: 'مطاعم', PHARMACY: 'صيدلية' };
+
+const EMPTY_COUPON: CouponInput = { code: '', discountType: 'PERCENTAGE', value: 10, isActive: true };
+
+const toDateInput = (ts?: number) => {
+  if (!ts) return '';
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string, endOfDay = false) => value ? new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`).getTime() : undefined;
+const toNumber = (value: string) => value === '' ? undefined : parseFloat(value);
+
+const AdminCouponsManager: React.FC<{ user: User }> = ({ user }) => {
+  const navigate = useNavigate();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [editing, setEditing] = useState<Coupon | null>(null);
+  const [form, setForm] = useState<CouponInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubCoupons = onSnapshot(query(collection(db, "coupons"), orderBy("createdAt", "desc")), (snap) => {
+      setCoupons(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Coupon[]);
+    });
+    const unsubRedemptions = onSnapshot(query(collection(db, "coupon_redemptions"), orderBy("createdAt", "desc"), limit(30)), (snap) => {
+      setRedemptions(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as CouponRedemption[]);
+    });
+    const unsubRestaurants = onSnapshot(query(collection(db, "restaurants"), orderBy("name", "asc")), (snap) => {
+      setRestaurants(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Restaurant[]);
+    });
+    return () => { unsubCoupons(); unsubRedemptions(); unsubRestaurants(); };
+  }, []);
+
+  const openForm = (coupon: Coupon | null) => {
+    setEditing(coupon);
+    if (!coupon) { setForm({ ...EMPTY_COUPON }); return; }
+    const { id, usedCount, totalDiscount, createdAt, ...rest } = coupon;
+    setForm(rest);
+  };
+
+  const toggleIn = <T,>(list: T[] | undefined, value: T) => {
+    const current = list || [];
+    return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  };
+
+  const handleSave = async (input: CouponInput, existing: Coupon | null) => {
+    setIsSaving(true);
+    try {
+      await saveCoupon(input, existing);
+      setForm(null);
+    } catch (e) {
+      alert(e instanceof CouponError ? e.message : 'فشل حفظ الكوبون');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = (coupon: Coupon) => {
+    const { id, usedCount, totalDiscount, createdAt, ...rest } = coupon;
+    handleSave({ ...rest, isActive: !coupon.isActive }, coupon);
+  };
+
+  const stats = {
+    redemptions: coupons.reduce((acc, c) => acc + (c.usedCount || 0), 0),
+    totalDiscount: coupons.reduce((acc, c) => acc + (c.totalDiscount || 0), 0),
+    active: coupons.filter(c => c.isActive).length
+  };
+
+  const formError = form ? validateCouponInput(form) : null;
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar bg-[#f8fafc]">
+      <div className="max-w-6xl mx-auto p-6 md:p-10 space-y-10 text-right pb-40" dir="rtl">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-5">
+             <div className="bg-violet-600 p-4 rounded-3xl text-white shadow-xl"><Ticket className="h-8 w-8" /></div>
+             <div><h2 className="text-3xl font-black text-slate-900 tracking-tighter">كوبونات الخصم</h2><p className="text-[10px] font-bold text-slate-400 uppercase mt-1">إنشاء الأكواد ومتابعة استخدامها</p></div>
+          </div>
+          <button onClick={() => navigate('/')} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm text-slate-400 hover:text-emerald-600 flex items-center gap-2 transition-all"><span className="font-black text-xs">رجوع</span><ArrowRight className="h-5 w-5" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm text-center"><p className="text-[10px] font-black text-slate-400">كوبونات مفعلة</p><h3 className="text-3xl font-black text-slate-900 mt-2">{stats.active}</h3></div>
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm text-center"><p className="text-[10px] font-black text-slate-400">مرات الاستخدام</p><h3 className="text-3xl font-black text-slate-900 mt-2">{stats.redemptions}</h3></div>
+          <div className="bg-violet-600 p-6 rounded-[2.5rem] shadow-xl text-center text-white"><p className="text-[10px] font-black opacity-60">إجمالي الخصومات</p><h3 className="text-3xl font-black mt-2">{stats.totalDiscount} <span className="text-xs opacity-60">ج.م</span></h3></div>
+        </div>
+
+        {form ? (
+          <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-5 animate-in zoom-in">
+            <div className="flex justify-between items-center">
+              <h4 className="font-black text-xl text-slate-950">{editing ? `تعديل ${editing.code}` : 'كوبون جديد'}</h4>
+              <button onClick={() => setForm(null)} className="text-slate-400"><X className="h-5 w-5" /></button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input value={form.code} onChange={e => setForm({ ...form, code: e.target.value.toUpperCase() })} placeholder="الكود (مثال: RAMADAN25)" className="bg-slate-50 p-4 rounded-2xl font-black text-sm outline-none" />
+              <div className="flex bg-slate-50 rounded-2xl p-1">
+                {(['PERCENTAGE', 'FIXED'] as const).map(t => (
+                  <button key={t} type="button" onClick={() => setForm({ ...form, discountType: t })} className={`flex-1 rounded-xl font-black text-[10px] transition-all ${form.discountType === t ? 'bg-slate-900 text-white' : 'text-slate-400'}`}>{t === 'PERCENTAGE' ? 'نسبة %' : 'مبلغ ثابت'}</button>
+                ))}
+              </div>
+              <input type="number" value={form.value} onChange={e => setForm({ ...form, value: parseFloat(e.target.value) })} placeholder="قيمة الخصم" className="bg-slate-50 p-4 rounded-2xl font-black text-sm outline-none" />
+            </div>
+
+            <input value={form.description || ''} onChange={e => setForm({ ...form, description: e.target.value || undefined })} placeholder="وصف داخلي (اختياري)" className="w-full bg-slate-50 p-4 rounded-2xl font-bold text-xs outline-none" />
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {form.discountType === 'PERCENTAGE' && (
+                <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">سقف الخصم (ج.م)</span><input type="number" value={form.maxDiscount ?? ''} onChange={e => setForm({ ...form, maxDiscount: toNumber(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              )}
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">أقل قيمة للطلب</span><input type="number" value={form.minOrderValue ?? ''} onChange={e => setForm({ ...form, minOrderValue: toNumber(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">حد الاستخدام الكلي</span><input type="number" value={form.usageLimit ?? ''} onChange={e => setForm({ ...form, usageLimit: toNumber(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">حد الاستخدام للعميل</span><input type="number" value={form.perUserLimit ?? ''} onChange={e => setForm({ ...form, perUserLimit: toNumber(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">يبدأ من</span><input type="date" value={toDateInput(form.startsAt)} onChange={e => setForm({ ...form, startsAt: fromDateInput(e.target.value) })} className="w-full bg-transparent font-black text-xs outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">ينتهي في</span><input type="date" value={toDateInput(form.expiresAt)} onChange={e => setForm({ ...form, expiresAt: fromDateInput(e.target.value, true) })} className="w-full bg-transparent font-black text-xs outline-none" /></label>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400">يقتصر على الخدمات (اتركه فارغاً للكل)</p>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(CATEGORY_LABELS) as OrderCategory[]).map(c => (
+                  <button key={c} type="button" onClick={() => setForm({ ...form, categories: toggleIn(form.categories, c) })} className={`px-4 py-2 rounded-xl text-[10px] font-black transition-all ${form.categories?.includes(c) ? 'bg-violet-600 text-white' : 'bg-slate-50 text-slate-400'}`}>{CATEGORY_LABELS[c]}</button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400">يقتصر على المراكز</p>
+              <div className="flex flex-wrap gap-2">
+                {MENOFIA_DATA.map(d => (
+                  <button key={d.id} type="button" onClick={() => setForm({ ...form, districtIds: toggleIn(form.districtIds, d.id) })} className={`px-4 py-2 rounded-xl text-[10px] font-black transition-all ${form.districtIds?.includes(d.id) ? 'bg-violet-600 text-white' : 'bg-slate-50 text-slate-400'}`}>{d.name}</button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400">يقتصر على المطاعم</p>
+              <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto no-scrollbar">
+                {restaurants.map(r => (
+                  <button key={r.id} type="button" onClick={() => setForm({ ...form, restaurantIds: toggleIn(form.restaurantIds, r.id) })} className={`px-4 py-2 rounded-xl text-[10px] font-black transition-all ${form.restaurantIds?.includes(r.id) ? 'bg-violet-600 text-white' : 'bg-slate-50 text-slate-400'}`}>{r.name}</button>
+                ))}
+              </div>
+            </div>
+
+            {formError && <p className="text-[10px] font-black text-rose-500">{formError}</p>}
+            <button onClick={() => handleSave(form, editing)} disabled={!!formError || isSaving} className="w-full bg-violet-600 text-white py-5 rounded-[2rem] font-black text-sm active:scale-95 transition-all disabled:opacity-30">
+              {isSaving ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'حفظ الكوبون'}
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => openForm(null)} className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-sm flex items-center justify-center gap-2 active:scale-95 transition-all"><Plus className="h-5 w-5" /> كوبون جديد</button>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            {coupons.length === 0 && <div className="py-20 text-center text-slate-300 font-black border-4 border-dashed border-slate-100 rounded-[3rem] bg-white/50">لا توجد كوبونات</div>}
+            {coupons.map(coupon => (
+              <div key={coupon.id} className={`bg-white p-6 rounded-[2.5rem] border shadow-sm space-y-3 ${coupon.isActive ? 'border-slate-100' : 'border-slate-100 opacity-60'}`}>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-black text-lg text-slate-950 tracking-wider">{coupon.code}</p>
+                    <p className="text-[10px] font-bold text-violet-600 mt-1">{describeCoupon(coupon)}{coupon.minOrderValue ? ` • طلب من ${coupon.minOrderValue} ج.م` : ''}</p>
+                    {coupon.description && <p className="text-[10px] font-bold text-slate-400 mt-1">{coupon.description}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => toggleActive(coupon)} className={`px-4 py-2 rounded-xl text-[10px] font-black ${coupon.isActive ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-400'}`}>{coupon.isActive ? 'مفعل' : 'متوقف'}</button>
+                    <button onClick={() => openForm(coupon)} className="p-2 bg-slate-50 rounded-xl text-slate-400"><Edit2 className="h-4 w-4" /></button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="bg-slate-50 p-3 rounded-2xl"><p className="text-[9px] font-black text-slate-400">الاستخدام</p><p className="font-black text-sm text-slate-800">{coupon.usedCount || 0}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}</p></div>
+                  <div className="bg-slate-50 p-3 rounded-2xl"><p className="text-[9px] font-black text-slate-400">الخصومات</p><p className="font-black text-sm text-slate-800">{coupon.totalDiscount || 0} ج.م</p></div>
+                  <div className="bg-slate-50 p-3 rounded-2xl"><p className="text-[9px] font-black text-slate-400">ينتهي</p><p className="font-black text-[11px] text-slate-800">{coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString('ar-EG') : 'مفتوح'}</p></div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-4 h-fit">
+            <h4 className="font-black text-lg text-slate-950">آخر الاستخدامات</h4>
+            {redemptions.length === 0 && <p className="py-12 text-center text-slate-300 font-black text-xs">لم يستخدم أي كوبون بعد</p>}
+            {redemptions.map(r => (
+              <div key={r.id} className="bg-slate-50 p-4 rounded-2xl flex justify-between items-center">
+                <div>
+                  <p className="text-xs font-black text-slate-800">{r.userName} • <span className="text-violet-600">{r.code}</span></p>
+                  <p className="text-[9px] font-bold text-slate-400 mt-0.5">طلب #{r.orderId.slice(-6)} • {new Date(r.createdAt).toLocaleString('ar-EG')}</p>
+                </div>
+                <p className="font-black text-sm text-emerald-600">- {r.discount} ج.م</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminCouponsManager;
@@ -19,19 +19,13 @@ import {
   updateDoc, getDocs, orderBy, limit 
 } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
 import { stripFirestore } from '../utils';
+import AdminPricingManager from './AdminPricingManager';
 
-const AdminDashboard: React.FC = () => {
+const AdminDashboard: React.FC<{ user: User }> = ({ user }) => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [activeTab, setActiveTab] = useState<'STATS' | 'DRIVERS' | 'PRICING' | 'LOGS'>('STATS');
   const [searchTerm, setSearchTerm] = useState('');
-  const [isSaving, setIsSaving] = useState(false);
-  
-  const [priceConfig, setPriceConfig] = useState({
-    basePrice: 12,
-    pricePerKm: 6,
-    minPrice: 20
-  });
 
   useEffect(() => {
     const unsubOrders = onSnapshot(query(collection(db, "orders"), orderBy("createdAt", "desc"), limit(50)), (snap) => {
@@ -219,6 +213,7 @@ const AdminDashboard: React.FC = () => {
            </div>
         </div>
       )}
+      {activeTab === 'PRICING' && <AdminPricingManager user={user} />}
       {/* باقي الأقسام تظل كما هي */}
     </div>
   );
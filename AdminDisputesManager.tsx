@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Types
+import type { User, Dispute, DisputeStatus } from '../types';
+
+// Utils
+import { stripFirestore } from '../utils';
+import { resolveDispute, getDefaultDriverCharge, DisputeError, DISPUTE_CATEGORY_LABELS, DISPUTE_STATUS_LABELS } from '../disputes';
+
+// Services
+import { db } from '../services/firebase';
+import { collection, query, onSnapshot, orderBy } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+// Icons
+import { ArrowRight, LifeBuoy, Loader2, Phone, Bike, CheckCircle2 } from 'lucide-react';
+
+type Outcome = Exclude<DisputeStatus, 'OPEN'>;
+
+const OUTCOME_STYLES: Record<Outcome, string> = {
+  REJECTED: 'bg-rose-500 text-white',
+  PARTIAL_REFUND: 'bg-amber-500 text-white',
+  FULL_REFUND: 'bg-emerald-600 text-white'
+};
+
+const AdminDisputesManager: React.FC<{ user: User }> = ({ user }) => {
+  const navigate = useNavigate();
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [filter, setFilter] = useState<'OPEN' | 'CLOSED'>('OPEN');
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [driverCharge, setDriverCharge] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [previewPhoto, setPreviewPhoto] = useState<string | null>(null);
+
+  useEffect(() => {
+    return onSnapshot(query(collection(db, "disputes"), orderBy("createdAt", "desc")), (snap) => {
+      setDisputes(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Dispute[]);
+    });
+  }, []);
+
+  const startResolve = (dispute: Dispute) => {
+    setActiveId(dispute.id);
+    setOutcome(null);
+    setRefundAmount('');
+    setDriverCharge('');
+    setNote('');
+  };
+
+  const getRefund = (dispute: Dispute) => outcome === 'FULL_REFUND' ? dispute.orderPrice : outcome === 'PARTIAL_REFUND' ? Number(refundAmount) || 0 : 0;
+
+  const handleResolve = async (dispute: Dispute) => {
+    if (!outcome) return;
+    const refund = getRefund(dispute);
+    // افتراضياً يتحمل الكابتن المبلغ المسترد في حدود أجرة المشوار ما لم تحدد الإدارة غير ذلك
+    const charge = driverCharge === '' ? getDefaultDriverCharge(dispute, refund) : Number(driverCharge) || 0;
+    if (!window.confirm(outcome === 'REJECTED' ? 'رفض الشكوى؟' : `رد ${refund} ج.م للعميل وخصم ${dispute.driverId ? Math.min(charge, refund) : 0} ج.م من الكابتن؟`)) return;
+    setLoading(true);
+    try {
+      await resolveDispute(dispute, outcome, { refundAmount: refund, driverCharge: charge }, note, user);
+      setActiveId(null);
+    } catch (e) { alert(e instanceof DisputeError ? e.message : 'فشل حفظ القرار'); } finally { setLoading(false); }
+  };
+
+  const visible = disputes.filter(d => filter === 'OPEN' ? d.status === 'OPEN' : d.status !== 'OPEN');
+  const openCount = disputes.filter(d => d.status === 'OPEN').length;
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar bg-[#f8fafc]">
+      {previewPhoto && (
+        <div onClick={() => setPreviewPhoto(null)} className="fixed inset-0 z-[6000] bg-black/90 flex items-center justify-center p-4 animate-in fade-in">
+          <img src={previewPhoto} className="max-w-full max-h-full object-contain rounded-2xl" />
+        </div>
+      )}
+
+      <div className="max-w-6xl mx-auto p-6 md:p-10 space-y-10 text-right pb-40" dir="rtl">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-5">
+             <div className="bg-amber-500 p-4 rounded-3xl text-white shadow-xl"><LifeBuoy className="h-8 w-8" /></div>
+             <div><h2 className="text-3xl font-black text-slate-900 tracking-tighter">الشكاوى والاسترداد</h2><p className="text-[10px] font-bold text-slate-400 uppercase mt-1">مراجعة شكاوى الطلبات المكتملة</p></div>
+          </div>
+          <button onClick={() => navigate('/')} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm text-slate-400 hover:text-emerald-600 flex items-center gap-2 transition-all"><span className="font-black text-xs">رجوع</span><ArrowRight className="h-5 w-5" /></button>
+        </div>
+
+        <div className="bg-white p-2 rounded-[2rem] shadow-sm border border-slate-50 flex gap-2">
+          {[{ id: 'OPEN', label: `مفتوحة (${openCount})` }, { id: 'CLOSED', label: 'تم البت فيها' }].map(tab => (
+            <button key={tab.id} onClick={() => setFilter(tab.id as 'OPEN' | 'CLOSED')} className={`flex-1 py-4 rounded-[1.5rem] font-black text-xs transition-all ${filter === tab.id ? 'bg-slate-900 text-white shadow-xl' : 'text-slate-400'}`}>{tab.label}</button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {visible.length === 0 && (
+            <div className="lg:col-span-2 py-24 text-center text-slate-300 font-black border-4 border-dashed border-slate-100 rounded-[4rem] bg-white/50">لا توجد شكاوى هنا</div>
+          )}
+          {visible.map(dispute => (
+            <div key={dispute.id} className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl flex flex-col gap-6">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="font-black text-xl text-slate-950">{DISPUTE_CATEGORY_LABELS[dispute.category]}</h4>
+                  <p className="text-[10px] font-bold text-slate-400 mt-1">طلب #{dispute.orderId.slice(-6)} • {new Date(dispute.createdAt).toLocaleString('ar-EG')}</p>
+                </div>
+                <div className="text-left">
+                  <p className="text-2xl font-black text-slate-900">{dispute.orderPrice} <span className="text-xs opacity-30">ج.م</span></p>
+                  <span className={`inline-block mt-1 px-3 py-1 rounded-lg text-[9px] font-black ${dispute.status === 'OPEN' ? 'bg-amber-100 text-amber-700' : dispute.status === 'REJECTED' ? 'bg-rose-100 text-rose-600' : 'bg-emerald-100 text-emerald-700'}`}>{DISPUTE_STATUS_LABELS[dispute.status]}</span>
+                </div>
+              </div>
+
+              <p className="bg-slate-50 p-5 rounded-[2rem] text-sm font-bold text-slate-700 leading-relaxed">{dispute.description}</p>
+
+              {dispute.photos?.length > 0 && (
+                <div className="flex gap-2">
+                  {dispute.photos.map((photo, idx) => (
+                    <img key={idx} src={photo} onClick={() => setPreviewPhoto(photo)} className="w-20 h-20 rounded-2xl object-cover cursor-pointer" />
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3 text-[10px] font-black">
+                <a href={`tel:${dispute.customerPhone}`} className="bg-slate-50 p-4 rounded-2xl flex items-center gap-2 text-slate-600"><Phone className="h-4 w-4 text-emerald-500" /> {dispute.customerName}</a>
+                <div className="bg-slate-50 p-4 rounded-2xl flex items-center gap-2 text-slate-600"><Bike className="h-4 w-4 text-emerald-500" /> {dispute.driverName || 'بدون كابتن'}</div>
+              </div>
+
+              {dispute.status !== 'OPEN' ? (
+                <div className="bg-emerald-50 p-5 rounded-[2rem] space-y-1 text-[11px] font-black text-emerald-800">
+                  <p className="flex items-center gap-2"><CheckCircle2 className="h-4 w-4" /> مسترد للعميل: {dispute.refundAmount || 0} ج.م • مخصوم من الكابتن: {dispute.driverCharge || 0} ج.م</p>
+                  {dispute.resolutionNote && <p className="text-slate-500">{dispute.resolutionNote}</p>}
+                </div>
+              ) : activeId !== dispute.id ? (
+                <button onClick={() => startResolve(dispute)} className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black text-sm active:scale-95 transition-all">اتخاذ قرار</button>
+              ) : (
+                <div className="bg-slate-50 p-6 rounded-[2.5rem] space-y-4 animate-in zoom-in">
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(OUTCOME_STYLES) as Outcome[]).map(o => (
+                      <button key={o} onClick={() => setOutcome(o)} className={`py-4 rounded-2xl font-black text-[10px] transition-all ${outcome === o ? OUTCOME_STYLES[o] : 'bg-white text-slate-400'}`}>{o === 'REJECTED' ? 'رفض' : DISPUTE_STATUS_LABELS[o]}</button>
+                    ))}
+                  </div>
+                  {outcome === 'PARTIAL_REFUND' && (
+                    <input type="number" value={refundAmount} onChange={e => setRefundAmount(e.target.value)} placeholder={`المبلغ المسترد (أقل من ${dispute.orderPrice})`} className="w-full bg-white p-4 rounded-2xl font-black text-sm outline-none" />
+                  )}
+                  {outcome && outcome !== 'REJECTED' && dispute.driverId && (
+                    <input type="number" value={driverCharge} onChange={e => setDriverCharge(e.target.value)} placeholder={`يخصم من الكابتن (افتراضياً ${getDefaultDriverCharge(dispute, getRefund(dispute))} ج.م)`} className="w-full bg-white p-4 rounded-2xl font-black text-sm outline-none" />
+                  )}
+                  <textarea value={note} onChange={e => setNote(e.target.value)} placeholder="ملاحظة القرار (تظهر للعميل عند الرفض)" className="w-full bg-white p-4 rounded-2xl font-bold text-xs outline-none resize-none min-h-[70px]" />
+                  <div className="flex gap-2">
+                    <button onClick={() => setActiveId(null)} className="flex-1 py-4 rounded-2xl font-black text-xs text-slate-400">إلغاء</button>
+                    <button onClick={() => handleResolve(dispute)} disabled={!outcome || loading} className="flex-[2] bg-slate-900 text-white py-4 rounded-2xl font-black text-xs active:scale-95 transition-all disabled:opacity-30">
+                      {loading ? <Loader2 className="h-4 w-4 animate-spin mx-auto" /> : 'حفظ القرار'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminDisputesManager;
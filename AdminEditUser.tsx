@@ -7,7 +7,10 @@ import type { User, UserStatus, UserRole, VehicleType } from '../types';
 
 // Services
 import { db } from '../services/firebase';
-import { doc, getDoc, updateDoc } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { doc, getDoc, updateDoc, collection, query, where, getDocs } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+// Config
+import { DEFAULT_OPERATOR_RATE, PLATFORM_COMMISSION_RATE } from '../config/constants';
 
 // Utils
 import { stripFirestore } from '../utils';
@@ -26,6 +29,7 @@ const AdminEditUser: React.FC<{ user: User }> = ({ user: currentUser }) => {
   const navigate = useNavigate();
   const [targetUser, setTargetUser] = useState<User | null>(null);
   const [formData, setFormData] = useState<Partial<User>>({});
+  const [operators, setOperators] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   
@@ -59,6 +63,13 @@ const AdminEditUser: React.FC<{ user: User }> = ({ user: currentUser }) => {
     fetchUser();
   }, [userId]);
 
+  // قائمة المشغلين لربط الكابتن بمشغله في توزيع الأجرة
+  useEffect(() => {
+    getDocs(query(collection(db, "users"), where("role", "==", "OPERATOR")))
+      .then(snap => setOperators(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as User[]))
+      .catch(() => {});
+  }, []);
+
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
     setShowScrollBtn(scrollTop + clientHeight < scrollHeight - 150 ? 'DOWN' : 'UP');
@@ -98,6 +109,17 @@ const AdminEditUser: React.FC<{ user: User }> = ({ user: currentUser }) => {
       // تحديث نوع المركبة للكباتن
       if (formData.role === 'DRIVER') {
         updates.vehicleType = formData.vehicleType || 'TOKTOK';
+        updates.operatorId = formData.operatorId || null;
+      }
+
+      // نسبة المشغل من أجرة طلبات كباتنه
+      if (formData.role === 'OPERATOR') {
+        const rate = formData.operatorRate;
+        if (rate !== undefined && (!Number.isFinite(rate) || rate < 0 || rate + PLATFORM_COMMISSION_RATE >= 1)) {
+          alert('نسبة المشغل غير صالحة');
+          return;
+        }
+        updates.operatorRate = rate ?? null;
       }
       
       if (formData.wallet) {
@@ -260,6 +282,40 @@ const AdminEditUser: React.FC<{ user: User }> = ({ user: currentUser }) => {
                        ))}
                     </div>
                  </div>
+                 <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-500 px-4 uppercase tracking-widest">المشغل التابع له</label>
+                    <div className="relative">
+                      <select 
+                         value={formData.operatorId || ''} 
+                         onChange={e => setFormData({...formData, operatorId: e.target.value || undefined})} 
+                         className="w-full bg-white/5 rounded-2xl p-5 font-black text-sm outline-none appearance-none border-2 border-transparent focus:border-emerald-500"
+                      >
+                         <option value="" className="text-slate-900">بدون مشغل</option>
+                         {operators.map(op => <option key={op.id} value={op.id} className="text-slate-900">{op.name}</option>)}
+                      </select>
+                      <ChevronDown className="absolute left-6 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+                    </div>
+                 </div>
+              </div>
+           )}
+
+           {formData.role === 'OPERATOR' && (
+              <div className="bg-white p-8 md:p-10 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-6 animate-reveal">
+                 <h4 className="text-xl font-black text-slate-800 flex items-center gap-3">
+                    <Shield className="text-indigo-500 h-5 w-5" /> نسبة المشغل
+                 </h4>
+                 <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 px-4 block">نسبة المشغل من أجرة كل طلب يوصله كباتنه (%)</label>
+                    <input 
+                      type="number" 
+                      step="0.5"
+                      placeholder={`الافتراضي ${DEFAULT_OPERATOR_RATE * 100}%`}
+                      value={formData.operatorRate !== undefined ? Math.round(formData.operatorRate * 1000) / 10 : ''} 
+                      onChange={e => setFormData({...formData, operatorRate: e.target.value === '' ? undefined : Number(e.target.value) / 100})} 
+                      className="w-full bg-slate-50 rounded-2xl p-5 font-black text-sm outline-none border-2 border-transparent focus:border-emerald-500 transition-all shadow-inner text-center" 
+                    />
+                    <p className="text-[9px] font-bold text-slate-400 px-4">عمولة المنصة {PLATFORM_COMMISSION_RATE * 100}% والباقي بعد نسبة المشغل يذهب للكابتن</p>
+                 </div>
               </div>
            )}
 
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Types
+import type { User, OrderCategory, LoyaltyRules, LoyaltyCampaign, LoyaltyEntry } from '../types';
+import { DEFAULT_LOYALTY_RULES } from '../config/constants';
+
+// Utils
+import {
+  subscribeToLoyaltyRules, subscribeToLoyaltyEntries, saveLoyaltyRules, validateLoyaltyRules, summarizeLoyalty,
+  LoyaltyError, LOYALTY_ENTRY_LABELS
+} from '../loyalty';
+
+// Icons
+import { ArrowRight, Award, Loader2, Plus, Edit2, X, Trash2 } from 'lucide-react';
+
+const CATEGORY_LABELS: Record<OrderCategory, string> = { TAXI: 'مشاوير', FOOD: 'مطاعم', PHARMACY: 'صيدلية', GROCERY: 'بقالة', PARCEL: 'طرود' };
+
+const toDateInput = (ts?: number) => {
+  if (!ts) return '';
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string, endOfDay = false) => value ? new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`).getTime() : 0;
+
+const newCampaign = (): LoyaltyCampaign => ({ id: `c_${Date.now()}`, name: '', multiplier: 2, startsAt: fromDateInput(toDateInput(Date.now())), endsAt: 0, isActive: true });
+
+const AdminLoyaltyManager: React.FC<{ user: User }> = ({ user }) => {
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<LoyaltyRules>(DEFAULT_LOYALTY_RULES);
+  const [entries, setEntries] = useState<LoyaltyEntry[]>([]);
+  const [form, setForm] = useState<LoyaltyRules | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubRules = subscribeToLoyaltyRules(setRules);
+    const unsubEntries = subscribeToLoyaltyEntries(setEntries);
+    return () => { unsubRules(); unsubEntries(); };
+  }, []);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      await saveLoyaltyRules(form, user);
+      setForm(null);
+    } catch (e) {
+      alert(e instanceof LoyaltyError ? e.message : 'فشل حفظ قواعد النقاط');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateCampaign = (id: string, changes: Partial<LoyaltyCampaign>) => {
+    if (!form) return;
+    setForm({ ...form, campaigns: form.campaigns.map(c => c.id === id ? { ...c, ...changes } : c) });
+  };
+
+  const toggleCategory = (campaign: LoyaltyCampaign, category: OrderCategory) => {
+    const current = campaign.categories || [];
+    updateCampaign(campaign.id, { categories: current.includes(category) ? current.filter(c => c !== category) : [...current, category] });
+  };
+
+  const now = Date.now();
+  const summary = summarizeLoyalty(entries, rules, now);
+  const formError = form ? validateLoyaltyRules(form) : null;
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar bg-[#f8fafc]">
+      <div className="max-w-6xl mx-auto p-6 md:p-10 space-y-10 text-right pb-40" dir="rtl">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-5">
+             <div className="bg-amber-500 p-4 rounded-3xl text-white shadow-xl"><Award className="h-8 w-8" /></div>
+             <div><h2 className="text-3xl font-black text-slate-900 tracking-tighter">نقاط الولاء</h2><p className="text-[10px] font-bold text-slate-400 uppercase mt-1">{rules.isEnabled ? 'البرنامج مفعل' : 'البرنامج متوقف'}{rules.updatedByName ? ` • آخر تعديل ${rules.updatedByName}` : ''}</p></div>
+          </div>
+          <button onClick={() => navigate('/')} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm text-slate-400 hover:text-emerald-600 flex items-center gap-2 transition-all"><span className="font-black text-xs">رجوع</span><ArrowRight className="h-5 w-5" /></button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-amber-500 p-6 rounded-[2.5rem] shadow-xl text-center text-white"><p className="text-[10px] font-black opacity-70">الالتزام الحالي</p><h3 className="text-3xl font-black mt-2">{summary.liability} <span className="text-xs opacity-70">ج.م</span></h3><p className="text-[9px] font-bold opacity-70 mt-1">{summary.outstanding} نقطة سارية</p></div>
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm text-center"><p className="text-[10px] font-black text-slate-400">تنتهي خلال 30 يوماً</p><h3 className="text-3xl font-black text-slate-900 mt-2">{summary.expiringSoon}</h3></div>
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm text-center"><p className="text-[10px] font-black text-slate-400">عملاء لديهم نقاط</p><h3 className="text-3xl font-black text-slate-900 mt-2">{summary.holders}</h3></div>
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm text-center space-y-1">
+            <p className="text-[10px] font-black text-slate-400">ممنوحة / مستبدلة / منتهية</p>
+            <h3 className="text-lg font-black text-slate-900 mt-2">{summary.issued} / {summary.redeemed} / {summary.expired}</h3>
+          </div>
+        </div>
+
+        {form ? (
+          <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-6 animate-in zoom-in">
+            <div className="flex justify-between items-center">
+              <h4 className="font-black text-xl text-slate-950">تعديل قواعد النقاط</h4>
+              <button onClick={() => setForm(null)} className="text-slate-400"><X className="h-5 w-5" /></button>
+            </div>
+
+            <button type="button" onClick={() => setForm({ ...form, isEnabled: !form.isEnabled })} className={`w-full py-4 rounded-2xl font-black text-xs transition-all ${form.isEnabled ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-400'}`}>{form.isEnabled ? 'البرنامج مفعل' : 'البرنامج متوقف (لا اكتساب ولا استبدال)'}</button>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400">نقاط لكل جنيه من الأجرة</p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {(Object.keys(CATEGORY_LABELS) as OrderCategory[]).map(c => (
+                  <label key={c} className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">{CATEGORY_LABELS[c]}</span><input type="number" step="0.1" value={form.earnRates[c]} onChange={e => setForm({ ...form, earnRates: { ...form.earnRates, [c]: parseFloat(e.target.value) } })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">قيمة النقطة (ج.م)</span><input type="number" step="0.01" value={form.pointValue} onChange={e => setForm({ ...form, pointValue: parseFloat(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">أقل نقاط للاستبدال</span><input type="number" value={form.minRedeemPoints} onChange={e => setForm({ ...form, minRedeemPoints: parseInt(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">أقصى خصم من الأجرة %</span><input type="number" value={Math.round(form.maxRedeemRatio * 100)} onChange={e => setForm({ ...form, maxRedeemRatio: parseFloat(e.target.value) / 100 })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className="bg-slate-50 p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">صلاحية النقاط (يوم)</span><input type="number" value={form.expiryDays} onChange={e => setForm({ ...form, expiryDays: parseInt(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="text-[10px] font-black text-slate-400">حملات مضاعفة النقاط</p>
+                <button type="button" onClick={() => setForm({ ...form, campaigns: [...form.campaigns, newCampaign()] })} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black flex items-center gap-1"><Plus className="h-3 w-3" /> حملة</button>
+              </div>
+              {form.campaigns.map(campaign => (
+                <div key={campaign.id} className="bg-slate-50 p-4 rounded-[2rem] space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <input value={campaign.name} onChange={e => updateCampaign(campaign.id, { name: e.target.value })} placeholder="اسم الحملة" className="bg-white p-3 rounded-2xl font-black text-xs outline-none" />
+                    <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">المضاعف</span><input type="number" step="0.5" value={campaign.multiplier} onChange={e => updateCampaign(campaign.id, { multiplier: parseFloat(e.target.value) })} className="w-full font-black text-xs outline-none" /></label>
+                    <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">من</span><input type="date" value={toDateInput(campaign.startsAt)} onChange={e => updateCampaign(campaign.id, { startsAt: fromDateInput(e.target.value) })} className="w-full font-black text-xs outline-none" /></label>
+                    <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">إلى</span><input type="date" value={toDateInput(campaign.endsAt)} onChange={e => updateCampaign(campaign.id, { endsAt: fromDateInput(e.target.value, true) })} className="w-full font-black text-xs outline-none" /></label>
+                  </div>
+                  <div className="flex flex-wrap gap-2 items-center">
+                    {(Object.keys(CATEGORY_LABELS) as OrderCategory[]).map(c => (
+                      <button key={c} type="button" onClick={() => toggleCategory(campaign, c)} className={`px-3 py-1.5 rounded-xl text-[10px] font-black transition-all ${campaign.categories?.includes(c) ? 'bg-amber-500 text-white' : 'bg-white text-slate-400'}`}>{CATEGORY_LABELS[c]}</button>
+                    ))}
+                    <div className="flex-1"></div>
+                    <button type="button" onClick={() => updateCampaign(campaign.id, { isActive: !campaign.isActive })} className={`px-3 py-1.5 rounded-xl text-[10px] font-black ${campaign.isActive ? 'bg-emerald-500 text-white' : 'bg-white text-slate-400'}`}>{campaign.isActive ? 'مفعلة' : 'متوقفة'}</button>
+                    <button type="button" onClick={() => setForm({ ...form, campaigns: form.campaigns.filter(c => c.id !== campaign.id) })} className="p-2 bg-rose-50 rounded-xl text-rose-400"><Trash2 className="h-3 w-3" /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {formError && <p className="text-[10px] font-black text-rose-500">{formError}</p>}
+            <button onClick={handleSave} disabled={!!formError || isSaving} className="w-full bg-amber-500 text-white py-5 rounded-[2rem] font-black text-sm active:scale-95 transition-all disabled:opacity-30">
+              {isSaving ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'حفظ القواعد'}
+            </button>
+          </div>
+        ) : (
+          <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-5">
+            <div className="flex justify-between items-center">
+              <h4 className="font-black text-lg text-slate-950">القواعد الحالية</h4>
+              <button onClick={() => setForm({ ...rules, campaigns: rules.campaigns.map(c => ({ ...c })) })} className="px-5 py-2 bg-slate-50 rounded-xl text-[10px] font-black text-slate-500 flex items-center gap-1"><Edit2 className="h-3 w-3" /> تعديل</button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+              {(Object.keys(CATEGORY_LABELS) as OrderCategory[]).map(c => (
+                <div key={c} className="bg-slate-50 p-3 rounded-2xl"><p className="text-[9px] font-black text-slate-400">{CATEGORY_LABELS[c]}</p><p className="font-black text-sm text-slate-800">{rules.earnRates[c]} نقطة/ج.م</p></div>
+              ))}
+            </div>
+            <p className="text-[10px] font-bold text-slate-500">النقطة = {rules.pointValue} ج.م • الاستبدال من {rules.minRedeemPoints} نقطة وبحد {Math.round(rules.maxRedeemRatio * 100)}% من الأجرة • الصلاحية {rules.expiryDays} يوماً</p>
+            {rules.campaigns.map(c => (
+              <div key={c.id} className="flex justify-between items-center bg-slate-50 p-3 rounded-2xl">
+                <p className="text-xs font-black text-slate-700">{c.name} • ×{c.multiplier}{c.categories?.length ? ` • ${c.categories.map(cat => CATEGORY_LABELS[cat]).join('، ')}` : ''}</p>
+                <span className={`text-[9px] font-black px-3 py-1 rounded-lg ${c.isActive && now >= c.startsAt && now <= c.endsAt ? 'bg-amber-50 text-amber-600' : 'bg-slate-100 text-slate-400'}`}>{new Date(c.startsAt).toLocaleDateString('ar-EG')} - {new Date(c.endsAt).toLocaleDateString('ar-EG')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-4">
+          <h4 className="font-black text-lg text-slate-950">آخر الحركات</h4>
+          {entries.length === 0 && <p className="py-12 text-center text-slate-300 font-black text-xs">لا توجد حركات نقاط بعد</p>}
+          {entries.slice(0, 30).map(entry => (
+            <div key={entry.id} className="flex justify-between items-center bg-slate-50 p-4 rounded-2xl">
+              <div>
+                <p className="text-xs font-black text-slate-800">{entry.description}</p>
+                <p className="text-[9px] font-bold text-slate-400 mt-0.5">{LOYALTY_ENTRY_LABELS[entry.type]} • {new Date(entry.createdAt).toLocaleString('ar-EG')}</p>
+              </div>
+              <p className={`font-black text-sm ${entry.type === 'EARN' || entry.type === 'REFUND' ? 'text-emerald-600' : 'text-rose-500'}`} dir="ltr">{entry.type === 'EARN' || entry.type === 'REFUND' ? '+' : '-'}{entry.points}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminLoyaltyManager;
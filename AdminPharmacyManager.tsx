@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Types
+import type { User, Pharmacy, District } from '../types';
+import { MENOFIA_DATA } from '../config/constants';
+
+// Utils
+import { findVillageByName } from '../reorder';
+import {
+  subscribeToPharmacies, savePharmacy, deletePharmacy, validatePharmacy, isPharmacyOpen,
+  formatPharmacyHours, PharmacyError, PharmacyInput
+} from '../pharmacies';
+
+// Icons
+import { ArrowRight, Pill, Loader2, Plus, Edit2, Trash2, X, MapPin, Phone, Clock } from 'lucide-react';
+
+const EMPTY_PHARMACY: PharmacyInput = { name: '', phone: '', villageName: '', lat: NaN, lng: NaN, openTime: '09:00', closeTime: '23:00', is24Hours: false, isActive: true };
+
+const AdminPharmacyManager: React.FC<{ user: User }> = ({ user }) => {
+  const navigate = useNavigate();
+  const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
+  const [editing, setEditing] = useState<Pharmacy | null>(null);
+  const [form, setForm] = useState<PharmacyInput | null>(null);
+  const [district, setDistrict] = useState<District | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => subscribeToPharmacies(setPharmacies), []);
+
+  const openForm = (pharmacy: Pharmacy | null) => {
+    setEditing(pharmacy);
+    if (!pharmacy) {
+      setForm({ ...EMPTY_PHARMACY });
+      setDistrict(null);
+      return;
+    }
+    const { id, createdAt, ...rest } = pharmacy;
+    setForm(rest);
+    setDistrict(findVillageByName(pharmacy.villageName)?.district || null);
+  };
+
+  // اختيار القرية يضع الموقع في مركزها، ويمكن تعديله للعنوان الدقيق
+  const selectVillage = (villageId: string) => {
+    const village = district?.villages.find(v => v.id === villageId);
+    if (!form || !village) return;
+    setForm({ ...form, villageName: village.name, lat: village.center.lat, lng: village.center.lng });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      await savePharmacy(form, editing);
+      setForm(null);
+    } catch (e) {
+      alert(e instanceof PharmacyError ? e.message : 'فشل حفظ الصيدلية');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (pharmacy: Pharmacy) => {
+    if (!confirm(`حذف صيدلية "${pharmacy.name}"؟`)) return;
+    try { await deletePharmacy(pharmacy.id); } catch (e) { alert('فشل الحذف'); }
+  };
+
+  const toggleActive = async (pharmacy: Pharmacy) => {
+    const { id, createdAt, ...rest } = pharmacy;
+    try { await savePharmacy({ ...rest, isActive: !pharmacy.isActive }, pharmacy); } catch (e) { alert('فشل التحديث'); }
+  };
+
+  const formError = form ? validatePharmacy(form) : null;
+  const openNow = pharmacies.filter(p => isPharmacyOpen(p)).length;
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar bg-[#f8fafc]">
+      <div className="max-w-6xl mx-auto p-6 md:p-10 space-y-10 text-right pb-40" dir="rtl">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-5">
+             <div className="bg-rose-500 p-4 rounded-3xl text-white shadow-xl"><Pill className="h-8 w-8" /></div>
+             <div><h2 className="text-3xl font-black text-slate-900 tracking-tighter">الصيدليات الشريكة</h2><p className="text-[10px] font-bold text-slate-400 uppercase mt-1">{pharmacies.length} صيدلية • {openNow} مفتوحة الآن</p></div>
+          </div>
+          <button onClick={() => navigate('/')} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm text-slate-400 hover:text-emerald-600 flex items-center gap-2 transition-all"><span className="font-black text-xs">رجوع</span><ArrowRight className="h-5 w-5" /></button>
+        </div>
+
+        {form ? (
+          <div className="bg-white p-8 rounded-[3.5rem] shadow-2xl space-y-6 animate-in zoom-in border-4 border-rose-50">
+            <div className="flex justify-between items-center">
+              <h3 className="text-2xl font-black text-slate-800">{editing ? 'تعديل صيدلية' : 'صيدلية جديدة'}</h3>
+              <button onClick={() => setForm(null)} className="p-3 bg-slate-100 rounded-2xl text-slate-400 hover:text-rose-500 transition-colors"><X /></button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="اسم الصيدلية" className="w-full bg-slate-50 p-5 rounded-2xl font-black text-sm outline-none" />
+              <input value={form.phone || ''} onChange={e => setForm({ ...form, phone: e.target.value })} placeholder="رقم الهاتف" className="w-full bg-slate-50 p-5 rounded-2xl font-black text-sm outline-none" dir="ltr" />
+              <select value={district?.id || ''} onChange={e => setDistrict(MENOFIA_DATA.find(d => d.id === e.target.value) || null)} className="w-full bg-slate-50 p-5 rounded-2xl font-black text-sm outline-none">
+                <option value="">اختر المركز</option>
+                {MENOFIA_DATA.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+              <select disabled={!district} value={district?.villages.find(v => v.name === form.villageName)?.id || ''} onChange={e => selectVillage(e.target.value)} className="w-full bg-slate-50 p-5 rounded-2xl font-black text-sm outline-none disabled:opacity-50">
+                <option value="">اختر القرية</option>
+                {district?.villages.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="bg-slate-50 p-4 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">خط العرض</span><input type="number" step="0.0001" value={Number.isFinite(form.lat) ? form.lat : ''} onChange={e => setForm({ ...form, lat: parseFloat(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" dir="ltr" /></label>
+              <label className="bg-slate-50 p-4 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">خط الطول</span><input type="number" step="0.0001" value={Number.isFinite(form.lng) ? form.lng : ''} onChange={e => setForm({ ...form, lng: parseFloat(e.target.value) })} className="w-full bg-transparent font-black text-sm outline-none" dir="ltr" /></label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+              <button type="button" onClick={() => setForm({ ...form, is24Hours: !form.is24Hours })} className={`py-4 rounded-2xl font-black text-xs transition-all ${form.is24Hours ? 'bg-rose-500 text-white' : 'bg-slate-50 text-slate-400'}`}>تعمل 24 ساعة</button>
+              <label className={`bg-slate-50 p-4 rounded-2xl space-y-1 ${form.is24Hours ? 'opacity-30' : ''}`}><span className="text-[9px] font-black text-slate-400">تفتح الساعة</span><input type="time" disabled={form.is24Hours} value={form.openTime} onChange={e => setForm({ ...form, openTime: e.target.value })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+              <label className={`bg-slate-50 p-4 rounded-2xl space-y-1 ${form.is24Hours ? 'opacity-30' : ''}`}><span className="text-[9px] font-black text-slate-400">تغلق الساعة</span><input type="time" disabled={form.is24Hours} value={form.closeTime} onChange={e => setForm({ ...form, closeTime: e.target.value })} className="w-full bg-transparent font-black text-sm outline-none" /></label>
+            </div>
+
+            {formError && <p className="text-[10px] font-black text-rose-500">{formError}</p>}
+            <button onClick={handleSave} disabled={!!formError || isSaving} className="w-full bg-rose-500 text-white py-5 rounded-[2rem] font-black text-sm active:scale-95 transition-all disabled:opacity-30">
+              {isSaving ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'حفظ الصيدلية'}
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => openForm(null)} className="bg-slate-900 text-white px-10 py-4 rounded-[1.8rem] font-black text-xs flex items-center gap-3 active:scale-95 transition-all"><Plus className="h-4 w-4" /> إضافة صيدلية</button>
+        )}
+
+        {pharmacies.length === 0 && <p className="py-20 text-center text-slate-300 font-black text-xs">لا توجد صيدليات مسجلة، طلبات الأدوية لن تجد صيدلية تستلم منها</p>}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {pharmacies.map(pharmacy => (
+            <div key={pharmacy.id} className={`bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-xl space-y-4 ${pharmacy.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex justify-between items-start gap-4">
+                <div className="space-y-1">
+                  <h4 className="font-black text-lg text-slate-950">{pharmacy.name}</h4>
+                  <p className="text-[10px] font-bold text-slate-400 flex items-center gap-1"><MapPin className="h-3 w-3" /> {pharmacy.villageName}</p>
+                  {pharmacy.phone && <p className="text-[10px] font-bold text-slate-400 flex items-center gap-1"><Phone className="h-3 w-3" /> <span dir="ltr">{pharmacy.phone}</span></p>}
+                  <p className="text-[10px] font-bold text-slate-500 flex items-center gap-1"><Clock className="h-3 w-3" /> {formatPharmacyHours(pharmacy)}</p>
+                </div>
+                <span className={`text-[9px] font-black px-3 py-1 rounded-lg ${isPharmacyOpen(pharmacy) ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>{isPharmacyOpen(pharmacy) ? 'مفتوحة الآن' : 'مغلقة'}</span>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => toggleActive(pharmacy)} className={`flex-1 py-3 rounded-xl text-[10px] font-black ${pharmacy.isActive ? 'bg-emerald-500 text-white' : 'bg-slate-50 text-slate-400'}`}>{pharmacy.isActive ? 'مفعلة' : 'متوقفة'}</button>
+                <button onClick={() => openForm(pharmacy)} className="p-3 bg-slate-50 rounded-xl text-slate-400"><Edit2 className="h-4 w-4" /></button>
+                <button onClick={() => handleDelete(pharmacy)} className="p-3 bg-rose-50 rounded-xl text-rose-400"><Trash2 className="h-4 w-4" /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPharmacyManager;
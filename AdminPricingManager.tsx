@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Types
+import type { User, ZonePricing, PricingChange, VehicleType } from '../types';
+import { MENOFIA_DATA, DEFAULT_PRICING } from '../config/constants';
+
+// Utils
+import { stripFirestore } from '../utils';
+import {
+  subscribeToPricingZones, saveZonePricing, validateZonePricing, getDefaultZonePricing,
+  PricingConfigError, DEFAULT_ZONE_ID, VEHICLE_MULTIPLIER_LABELS, PricingZones
+} from '../pricingZones';
+
+// Services
+import { db } from '../services/firebase';
+import { collection, query, where, onSnapshot } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+// Components
+import SurgeRulesPanel from '../components/SurgeRulesPanel';
+
+// Icons
+import { ArrowRight, DollarSign, Loader2, Save, History, AlertCircle } from 'lucide-react';
+
+type PriceField = 'basePrice' | 'pricePerKm' | 'minPrice' | 'maxPrice' | 'sameVillagePrice';
+
+const PRICE_FIELDS: { key: PriceField, label: string }[] = [
+  { key: 'basePrice', label: 'السعر الأساسي' },
+  { key: 'pricePerKm', label: 'سعر الكيلومتر' },
+  { key: 'minPrice', label: 'الحد الأدنى' },
+  { key: 'maxPrice', label: 'الحد الأقصى' },
+  { key: 'sameVillagePrice', label: 'داخل نفس القرية' }
+];
+
+type TripField = 'waitingPricePerMinute' | 'roundTripReturnRate';
+
+const TRIP_FIELDS: { key: TripField, label: string, step: string }[] = [
+  { key: 'waitingPricePerMinute', label: 'دقيقة الانتظار (ج.م)', step: '0.5' },
+  { key: 'roundTripReturnRate', label: 'نسبة رحلة العودة ×', step: '0.05' }
+];
+
+type BandField = 'minRatio' | 'outlierRatio' | 'maxRatio';
+
+const BAND_FIELDS: { key: BandField, label: string }[] = [
+  { key: 'minRatio', label: 'أقل عرض' },
+  { key: 'outlierRatio', label: 'عرض مرتفع فوق' },
+  { key: 'maxRatio', label: 'أعلى عرض' }
+];
+
+const ZONES = [{ id: DEFAULT_ZONE_ID, name: 'التسعير العام' }, ...MENOFIA_DATA.map(d => ({ id: d.id, name: d.name }))];
+
+const AdminPricingManager: React.FC<{ user: User }> = ({ user }) => {
+  const navigate = useNavigate();
+  const [zones, setZones] = useState<PricingZones>({});
+  const [selectedZoneId, setSelectedZoneId] = useState(DEFAULT_ZONE_ID);
+  const [form, setForm] = useState<ZonePricing>(getDefaultZonePricing());
+  const [history, setHistory] = useState<PricingChange[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [zonesLoaded, setZonesLoaded] = useState(false);
+
+  useEffect(() => subscribeToPricingZones(z => { setZones(z); setZonesLoaded(true); }), []);
+
+  const selectedZone = ZONES.find(z => z.id === selectedZoneId)!;
+  const savedPricing = zones[selectedZoneId]?.pricing || null;
+
+  // المنطقة بدون تسعير خاص تبدأ من التسعير العام، والنموذج لا يعاد تحميله إلا عند تغيير المنطقة
+  // حتى لا يمسح حفظ مشرف آخر ما يكتبه المشرف الحالي
+  useEffect(() => {
+    if (!zonesLoaded) return;
+    setForm({ ...getDefaultZonePricing(), ...(savedPricing || zones[DEFAULT_ZONE_ID]?.pricing) });
+  }, [selectedZoneId, zonesLoaded]);
+
+  useEffect(() => {
+    return onSnapshot(query(collection(db, "pricing_history"), where("zoneId", "==", selectedZoneId)), (snap) => {
+      const changes = snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as PricingChange[];
+      setHistory(changes.sort((a, b) => b.createdAt - a.createdAt).slice(0, 20));
+    });
+  }, [selectedZoneId]);
+
+  const validationError = validateZonePricing(form);
+  const bands = form.offerBands || DEFAULT_PRICING.offerBands;
+
+  const handleSave = async () => {
+    if (validationError) return;
+    setIsSaving(true);
+    try {
+      await saveZonePricing(selectedZone, form, savedPricing, user);
+      alert('تم حفظ الأسعار وتطبيقها على الطلبات الجديدة');
+    } catch (e) {
+      alert(e instanceof PricingConfigError ? e.message : 'فشل حفظ الأسعار');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describeChange = (change: PricingChange) => {
+    const lines = PRICE_FIELDS
+      .filter(f => change.before?.[f.key] !== change.after[f.key])
+      .map(f => `${f.label}: ${change.before?.[f.key] ?? '-'} ← ${change.after[f.key]}`);
+    TRIP_FIELDS
+      .filter(f => change.after[f.key] !== undefined && change.before?.[f.key] !== change.after[f.key])
+      .forEach(f => lines.push(`${f.label}: ${change.before?.[f.key] ?? '-'} ← ${change.after[f.key]}`));
+    (Object.keys(change.after.multipliers) as VehicleType[])
+      .filter(v => change.before?.multipliers?.[v] !== change.after.multipliers[v])
+      .forEach(v => lines.push(`معامل ${VEHICLE_MULTIPLIER_LABELS[v]}: ${change.before?.multipliers?.[v] ?? '-'} ← ${change.after.multipliers[v]}`));
+    BAND_FIELDS
+      .filter(f => change.after.offerBands && change.before?.offerBands?.[f.key] !== change.after.offerBands[f.key])
+      .forEach(f => lines.push(`${f.label}: ${change.before?.offerBands?.[f.key] ?? '-'} ← ${change.after.offerBands![f.key]}`));
+    return lines.length > 0 ? lines : ['بدون تغيير في القيم'];
+  };
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar bg-[#f8fafc]">
+      <div className="max-w-6xl mx-auto p-6 md:p-10 space-y-10 text-right pb-40" dir="rtl">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-5">
+             <div className="bg-emerald-600 p-4 rounded-3xl text-white shadow-xl"><DollarSign className="h-8 w-8" /></div>
+             <div><h2 className="text-3xl font-black text-slate-900 tracking-tighter">إدارة الأسعار</h2><p className="text-[10px] font-bold text-slate-400 uppercase mt-1">تسعير المشاوير لكل مركز</p></div>
+          </div>
+          <button onClick={() => navigate('/')} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm text-slate-400 hover:text-emerald-600 flex items-center gap-2 transition-all"><span className="font-black text-xs">رجوع</span><ArrowRight className="h-5 w-5" /></button>
+        </div>
+
+        <div className="bg-white p-2 rounded-[2rem] shadow-sm border border-slate-50 flex gap-2 overflow-x-auto no-scrollbar">
+          {ZONES.map(zone => (
+            <button key={zone.id} onClick={() => setSelectedZoneId(zone.id)} className={`px-6 py-4 rounded-[1.5rem] font-black text-xs whitespace-nowrap transition-all ${selectedZoneId === zone.id ? 'bg-slate-900 text-white shadow-xl' : 'text-slate-400'}`}>
+              {zone.name}
+              {zone.id !== DEFAULT_ZONE_ID && zones[zone.id] && <span className="mr-2 inline-block w-1.5 h-1.5 bg-emerald-500 rounded-full"></span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-6">
+            <div>
+              <h4 className="font-black text-xl text-slate-950">{selectedZone.name}</h4>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">
+                {zones[selectedZoneId] ? `آخر تعديل: ${zones[selectedZoneId].updatedByName} • ${new Date(zones[selectedZoneId].updatedAt).toLocaleString('ar-EG')}` : selectedZoneId === DEFAULT_ZONE_ID ? 'يتم تطبيق الأسعار الافتراضية للتطبيق' : 'يتبع التسعير العام حالياً'}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {PRICE_FIELDS.map(field => (
+                <label key={field.key} className="bg-slate-50 p-4 rounded-2xl space-y-1">
+                  <span className="text-[9px] font-black text-slate-400">{field.label} (ج.م)</span>
+                  <input type="number" value={form[field.key]} onChange={e => setForm({ ...form, [field.key]: parseFloat(e.target.value) })} className="w-full bg-transparent font-black text-lg outline-none" />
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {TRIP_FIELDS.map(field => (
+                <label key={field.key} className="bg-slate-50 p-4 rounded-2xl space-y-1">
+                  <span className="text-[9px] font-black text-slate-400">{field.label}</span>
+                  <input type="number" step={field.step} value={form[field.key] ?? DEFAULT_PRICING[field.key]} onChange={e => setForm({ ...form, [field.key]: parseFloat(e.target.value) })} className="w-full bg-transparent font-black text-lg outline-none" />
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              {(Object.keys(VEHICLE_MULTIPLIER_LABELS) as VehicleType[]).map(v => (
+                <label key={v} className="bg-slate-50 p-4 rounded-2xl space-y-1">
+                  <span className="text-[9px] font-black text-slate-400">معامل {VEHICLE_MULTIPLIER_LABELS[v]}</span>
+                  <input type="number" step="0.05" value={form.multipliers[v]} onChange={e => setForm({ ...form, multipliers: { ...form.multipliers, [v]: parseFloat(e.target.value) } })} className="w-full bg-transparent font-black text-lg outline-none" />
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 px-2">حدود عروض الكباتن (نسبة من أجرة السعر التقديري)</p>
+              <div className="grid grid-cols-3 gap-3">
+                {BAND_FIELDS.map(field => (
+                  <label key={field.key} className="bg-slate-50 p-4 rounded-2xl space-y-1">
+                    <span className="text-[9px] font-black text-slate-400">{field.label} ×</span>
+                    <input type="number" step="0.05" value={bands[field.key]} onChange={e => setForm({ ...form, offerBands: { ...bands, [field.key]: parseFloat(e.target.value) } })} className="w-full bg-transparent font-black text-lg outline-none" />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {validationError && (
+              <p className="bg-rose-50 text-rose-600 p-4 rounded-2xl text-[11px] font-black flex items-center gap-2"><AlertCircle className="h-4 w-4" /> {validationError}</p>
+            )}
+
+            <button onClick={handleSave} disabled={!!validationError || isSaving} className="w-full bg-emerald-600 text-white py-5 rounded-[2rem] font-black text-sm flex items-center justify-center gap-2 active:scale-95 transition-all disabled:opacity-30">
+              {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <><Save className="h-5 w-5" /> حفظ الأسعار</>}
+            </button>
+          </div>
+
+          <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-4">
+            <h4 className="font-black text-lg text-slate-950 flex items-center gap-2"><History className="h-5 w-5 text-slate-400" /> سجل التغييرات</h4>
+            {history.length === 0 && <p className="py-16 text-center text-slate-300 font-black text-xs">لا توجد تغييرات مسجلة</p>}
+            {history.map(change => (
+              <div key={change.id} className="bg-slate-50 p-5 rounded-[2rem] space-y-2">
+                <p className="text-[10px] font-black text-slate-500">{change.changedByName} • {new Date(change.createdAt).toLocaleString('ar-EG')}</p>
+                {describeChange(change).map((line, idx) => <p key={idx} className="text-[11px] font-bold text-slate-700">{line}</p>)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <SurgeRulesPanel />
+      </div>
+    </div>
+  );
+};
+
+export default AdminPricingManager;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { Order } from '../types';
+import { OrderStatus } from '../types';
+import { CANCELLATION_REASONS } from '../config/constants';
+import { getCancellationPolicy } from '../orderLifecycle';
+import { XCircle, Loader2, Check, AlertTriangle } from 'lucide-react';
+
+const CancelOrderModal: React.FC<{
+  order: Order,
+  role: 'CUSTOMER' | 'DRIVER',
+  isSubmitting: boolean,
+  onConfirm: (reason: string) => void,
+  onClose: () => void
+}> = ({ order, role, isSubmitting, onConfirm, onClose }) => {
+  const [reason, setReason] = useState<string | null>(null);
+  const policy = getCancellationPolicy(order, role);
+  const isRelease = policy.nextStatus === OrderStatus.WAITING_FOR_OFFERS;
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-slate-950/60 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in" dir="rtl">
+      <div className="bg-white w-full max-w-sm rounded-[3rem] p-8 space-y-6 shadow-2xl animate-in zoom-in border border-slate-100 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="text-center space-y-3">
+          <div className="bg-rose-50 w-20 h-20 rounded-[2.2rem] flex items-center justify-center mx-auto text-rose-500 shadow-inner">
+            <XCircle className="h-10 w-10" />
+          </div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tighter">{isRelease ? 'الاعتذار عن المشوار' : 'إلغاء الطلب'}</h3>
+          <p className="text-[10px] font-bold text-slate-400 leading-relaxed px-4">
+            {isRelease ? 'سيعود الطلب متاحاً للكباتن الآخرين.' : 'اختر سبب الإلغاء لنتمكن من تحسين الخدمة.'}
+          </p>
+        </div>
+
+        {!policy.allowed ? (
+          <div className="bg-amber-50 p-5 rounded-2xl text-amber-700 text-xs font-black text-right flex items-center gap-3">
+            <AlertTriangle className="h-5 w-5 shrink-0" /> لا يمكن إلغاء الطلب في مرحلته الحالية، يرجى التواصل مع الدعم.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {CANCELLATION_REASONS[role].map(r => (
+                <button key={r} type="button" onClick={() => setReason(r)} className={`w-full p-4 rounded-2xl text-right text-xs font-black flex justify-between items-center border-2 transition-all ${reason === r ? 'bg-rose-50 border-rose-500 text-rose-600' : 'bg-slate-50 border-transparent text-slate-600'}`}>
+                  {r}
+                  {reason === r && <Check className="h-4 w-4" />}
+                </button>
+              ))}
+            </div>
+
+            {policy.fee > 0 && (
+              <div className="bg-amber-50 p-4 rounded-2xl border border-amber-100 text-right">
+                <p className="text-[10px] font-black text-amber-700">الكابتن في طريقه إليك، سيتم خصم رسوم إلغاء {policy.fee} ج.م من محفظتك لتعويضه، وما لا يغطيه رصيدك يسجل مستحقاً عليك</p>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-col gap-2.5">
+          {policy.allowed && (
+            <button onClick={() => reason && onConfirm(reason)} disabled={!reason || isSubmitting} className="w-full bg-rose-500 text-white py-4 rounded-2xl font-black shadow-xl active:scale-95 transition-all disabled:opacity-30">
+              {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'تأكيد الإلغاء'}
+            </button>
+          )}
+          <button onClick={onClose} className="w-full bg-slate-50 text-slate-400 py-3.5 rounded-2xl font-black active:scale-95 transition-all">تراجع</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelOrderModal;
@@ -2,8 +2,8 @@
 import React, { useState, useEffect } from 'react';
 // Fixed: Removed missing exported members Location and PricingConfig
 import { User, Order, OrderStatus } from '../types';
-// Fixed: DEFAULT_PRICING is now exported from constants
-import { STORAGE_KEYS, DEFAULT_PRICING, PLATFORM_COMMISSION_RATE } from '../constants';
+import { STORAGE_KEYS, PLATFORM_COMMISSION_RATE } from '../constants';
+import { calculateOrderPrice } from '../pricing';
 import { MapPin, Navigation, DollarSign, Clock, CheckCircle2, XCircle } from 'lucide-react';
 
 interface ClientDashboardProps {
@@ -19,9 +19,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ user }) => {
   // Simulated pricing calculation
   const calculatePrice = () => {
     const dist = 2.5; // Mocked distance
-    const { basePrice, pricePerKm, minPrice } = DEFAULT_PRICING;
-    const calculated = basePrice + (dist * pricePerKm);
-    return Math.max(calculated, minPrice);
+    return calculateOrderPrice({ category: 'TAXI', vehicleType: 'TOKTOK', pickupVillageName: pickup, dropoffVillageName: destination, distanceKm: dist }).total;
   };
 
   useEffect(() => {
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import type { Coupon } from '../types';
+import { checkCoupon, getCouponError, calculateCouponDiscount, describeCoupon, CouponError, CouponContext } from '../coupons';
+import { Ticket, Loader2, X } from 'lucide-react';
+
+const CouponField: React.FC<{
+  userId: string,
+  context: CouponContext | null,
+  coupon: Coupon | null,
+  onChange: (coupon: Coupon | null) => void
+}> = ({ userId, context, coupon, onChange }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleApply = async () => {
+    if (!context || !code.trim()) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      onChange(await checkCoupon(code, context, userId));
+      setCode('');
+    } catch (e) {
+      setError(e instanceof CouponError ? e.message : 'تعذر التحقق من الكود');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (coupon) {
+    // تغيير الخدمة أو المسار بعد التطبيق قد يجعل الكوبون غير صالح
+    const invalidReason = context ? getCouponError(coupon, context, 0) : null;
+    return (
+      <div className={`p-4 rounded-[2rem] flex justify-between items-center gap-3 ${invalidReason ? 'bg-rose-50' : 'bg-emerald-50'}`}>
+        <div className="flex items-center gap-3 text-right">
+          <Ticket className={`h-5 w-5 shrink-0 ${invalidReason ? 'text-rose-400' : 'text-emerald-600'}`} />
+          <div>
+            <p className="text-xs font-black text-slate-800">{coupon.code} • {describeCoupon(coupon)}</p>
+            <p className={`text-[10px] font-bold mt-0.5 ${invalidReason ? 'text-rose-500' : 'text-emerald-600'}`}>
+              {invalidReason || `وفرت ${context ? calculateCouponDiscount(coupon, context.fare) : 0} ج.م`}
+            </p>
+          </div>
+        </div>
+        <button type="button" onClick={() => onChange(null)} className="p-2 bg-white rounded-xl text-slate-400"><X className="h-4 w-4" /></button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-2">
+        <input value={code} onChange={e => { setCode(e.target.value); setError(null); }} placeholder="كود الخصم" className="flex-1 bg-slate-50 rounded-2xl px-5 py-4 font-black text-xs text-right uppercase outline-none" />
+        <button type="button" onClick={handleApply} disabled={!context || !code.trim() || isChecking} className="bg-slate-900 text-white px-6 rounded-2xl font-black text-xs active:scale-95 transition-all disabled:opacity-30">
+          {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'تطبيق'}
+        </button>
+      </div>
+      {error && <p className="text-[10px] font-black text-rose-500 px-2">{error}</p>}
+    </div>
+  );
+};
+
+export default CouponField;
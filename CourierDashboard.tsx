@@ -2,11 +2,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 
 // Types
-import type { User, Order } from '../types';
+import type { User, Order, Offer, ProofOfDelivery } from '../types';
 import { OrderStatus } from '../types';
 
 // Utils
 import { stripFirestore } from '../utils';
+import { transitionOrder, cancelOrder, getCancellationPolicy, getTransitionErrorMessage, DRIVER_NEXT_STEP, ORDER_STATUS_LABELS } from '../orderLifecycle';
+import { updateOrderWithEvent, logOrderEvent } from '../orderEvents';
+import { getOfferExpiry } from '../orderEscalation';
+import { isVisibleToCaptains, formatScheduledTime } from '../orderScheduling';
+import { startWaiting, stopWaiting, finalizeFare, getFareBreakdown, getWaitingSeconds, getPickupWaitingStatus } from '../tripExtras';
+import { getRequiredProof, getDeliveryErrorMessage } from '../proofOfDelivery';
+import { getOrderStops, isMultiStopOrder, getCurrentStopIndex, getCurrentStop, markStopArrived, completeCurrentStop, STOP_TYPE_LABELS } from '../orderStops';
+import { getOfferStatus, isOfferOpen, withdrawOffer, reviseOffer, respondToCounter, getOfferFlagUpdate, OFFER_STATUS_LABELS } from '../offerLifecycle';
+import { sortJobQueue, getStackingBlocker, getJobCapacity, hasRoomForMoreJobs } from '../jobQueue';
+import { subscribeToPricingZones, getOfferBounds, getOfferPriceError, PricingZones } from '../pricingZones';
+import { getLocationPin, getNavigationUrl } from '../locationPins';
 
 // Icons
 import { 
@@ -14,7 +25,7 @@ import {
   MessageCircle, History, X,
   PhoneCall, User as UserIcon, Home, 
   ShieldAlert, Bot, Zap, Car, Map as MapIcon,
-  AlertTriangle, Crosshair, ArrowRight, ClipboardList
+  AlertTriangle, Crosshair, ArrowRight, ClipboardList, Navigation
 } from 'lucide-react';
 
 // React Leaflet
@@ -25,11 +36,13 @@ import L from 'leaflet';
 import { db } from '../services/firebase';
 import { 
   collection, query, where, onSnapshot, updateDoc, 
-  doc, addDoc, getDoc, deleteField
+  doc, addDoc, getDoc, deleteField, increment
 } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
 
 // Components
 import ChatView from '../components/ChatView';
+import CancelOrderModal from '../components/CancelOrderModal';
+import ProofOfDeliveryModal from '../components/ProofOfDeliveryModal';
 import ActivityView from './ActivityView';
 import ProfileView from './ProfileView';
 
@@ -75,19 +88,31 @@ const MapAutoFit: React.FC<{ points: [number, number][] }> = ({ points }) => {
 
 const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
   const [activeView, setActiveView] = useState<'HOME' | 'MAP' | 'ACTIVITY' | 'PROFILE'>('HOME');
-  const [activeOrder, setActiveOrder] = useState<Order | null>(null);
+  const [activeOrders, setActiveOrders] = useState<Order[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [availableOrders, setAvailableOrders] = useState<Order[]>([]);
+  const [myOffers, setMyOffers] = useState<Offer[]>([]);
+  const [now, setNow] = useState(Date.now());
   const [isOnline, setIsOnline] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showOfferInput, setShowOfferInput] = useState<string | null>(null);
   const [offerPrice, setOfferPrice] = useState<string>('');
   const [showChat, setShowChat] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [showProofModal, setShowProofModal] = useState(false);
+  const [pricingZones, setPricingZones] = useState<PricingZones>({});
+
+  // طابور الطلبات الجارية، والطلب المعروض هو المختار أو أول الطابور
+  const jobQueue = sortJobQueue(activeOrders);
+  const activeOrder = jobQueue.find(o => o.id === selectedJobId) || jobQueue[0] || null;
   
   // GPS Location
   const [currentLocation, setCurrentLocation] = useState({ lat: 30.556, lng: 31.008 });
   const [customerLocation, setCustomerLocation] = useState<{lat: number, lng: number} | null>(null);
   const watchId = useRef<number | null>(null);
 
+  useEffect(() => subscribeToPricingZones(setPricingZones), []);
+
   // --- Browser History (Back Button) Handler ---
   useEffect(() => {
     const handlePopState = () => {
@@ -147,23 +172,60 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
     });
     const unsubActive = onSnapshot(query(collection(db, "orders"), where("driverId", "==", user.id)), (snapshot) => {
       const all = snapshot.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) } as Order));
-      setActiveOrder(all.find(o => ![OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status)) || null);
+      setActiveOrders(all.filter(o => ![OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status)));
+    });
+    const unsubOffers = onSnapshot(query(collection(db, "offers"), where("driverId", "==", user.id)), (snapshot) => {
+      setMyOffers(snapshot.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Offer[]);
     });
-    return () => { unsubAvailable(); unsubActive(); };
+    return () => { unsubAvailable(); unsubActive(); unsubOffers(); };
   }, [isOnline, user.id, user.status]);
 
+  // إعادة الفحص دورياً لإظهار الطلبات المجدولة عند اقتراب موعدها
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const canTakeMoreJobs = jobQueue.length > 0 && hasRoomForMoreJobs(jobQueue, user.vehicleType);
+  const visibleOrders = availableOrders.filter(o => isVisibleToCaptains(o, now) && !getStackingBlocker(o, jobQueue, user.vehicleType));
+
+  // عداد الانتظار يتحدث كل ثانية أثناء تشغيله
+  useEffect(() => {
+    if (!activeOrder?.waitingStartedAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [activeOrder?.waitingStartedAt]);
+
+  // آخر عرض قدمه الكابتن على الطلب
+  const getMyOffer = (orderId: string) => {
+    return myOffers.filter(o => o.orderId === orderId).sort((a, b) => (b.updatedAt || b.createdAt) - (a.updatedAt || a.createdAt))[0];
+  };
+
   const handleSendOffer = async (orderId: string) => {
     const price = parseFloat(offerPrice);
-    if (!price || isSubmitting) return;
+    const order = availableOrders.find(o => o.id === orderId);
+    if (!price || !order || isSubmitting) return;
+    const bounds = getOfferBounds(order, pricingZones);
+    const priceError = getOfferPriceError(price, bounds);
+    if (priceError) return alert(priceError);
     setIsSubmitting(true);
     try {
+      const existing = getMyOffer(orderId);
+      if (existing && isOfferOpen(existing)) {
+        await reviseOffer(existing, order, price, user, bounds);
+        setShowOfferInput(null);
+        setOfferPrice('');
+        alert('تم تعديل سعر عرضك');
+        return;
+      }
+
       // جلب بيانات الكابتن (التقييم والصورة) لضمها للعرض
       const userSnap = await getDoc(doc(db, "users", user.id));
       const userData = userSnap.data();
       const rating = userData?.rating || 5.0;
       const photo = userData?.photoURL || null;
 
-      await addDoc(collection(db, "offers"), {
+      const offerRef = await addDoc(collection(db, "offers"), {
         orderId: orderId, // التأكد من إرسال الـ ID الصحيح
         driverId: user.id,
         driverName: user.name,
@@ -172,40 +234,96 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
         driverPhoto: photo,
         vehicleType: user.vehicleType || 'TOKTOK',
         price: price,
-        createdAt: Date.now()
+        estimate: bounds.estimate,
+        outlierAbove: bounds.outlierAbove,
+        createdAt: Date.now(),
+        expiresAt: getOfferExpiry(order)
       });
+      // تحديث عداد العروض يوقف تصعيد الطلب في غرفة التحكم، والعرض المرتفع يسجل على الطلب لتراجعه
+      const flag = getOfferFlagUpdate(order.flaggedOffer, { id: offerRef.id, driverId: user.id, driverName: user.name, estimate: bounds.estimate, outlierAbove: bounds.outlierAbove }, price);
+      await updateDoc(doc(db, "orders", orderId), { offersCount: increment(1), lastOfferAt: Date.now(), ...flag });
+      await logOrderEvent(orderId, 'OFFER_RECEIVED', user, { driverId: user.id, driverName: user.name, price });
       setShowOfferInput(null);
       setOfferPrice('');
       alert('تم إرسال عرضك للعميل بنجاح');
     } catch (e) { alert('خطأ في إرسال العرض'); } finally { setIsSubmitting(false); }
   };
 
-  const updateOrderStatus = async (status: OrderStatus) => {
+  const handleWithdrawOffer = async (offer: Offer) => {
+    if (isSubmitting || !window.confirm('سحب عرضك من هذا المشوار؟')) return;
+    setIsSubmitting(true);
+    try {
+      await withdrawOffer(offer, user);
+    } catch (e) { alert('فشل سحب العرض'); } finally { setIsSubmitting(false); }
+  };
+
+  const handleCounterResponse = async (offer: Offer, order: Order, accept: boolean) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await respondToCounter(offer, order, accept, user);
+    } catch (e) { alert('فشل الرد على السعر المقترح'); } finally { setIsSubmitting(false); }
+  };
+
+  const updateOrderStatus = async (status: OrderStatus, proof?: ProofOfDelivery) => {
     if (!activeOrder || isSubmitting) return;
+    // التسليم يتطلب إثباتاً حسب فئة الطلب
+    if (status === OrderStatus.DELIVERED && !proof && getRequiredProof(activeOrder) !== 'NONE') {
+      setShowProofModal(true);
+      return;
+    }
     setIsSubmitting(true);
     try {
-      const updates: any = { status };
-      if (status === OrderStatus.DELIVERED) updates.deliveredAt = Date.now();
-      await updateDoc(doc(db, "orders", activeOrder.id), updates);
+      const fare = status === OrderStatus.DELIVERED ? { ...finalizeFare(activeOrder), ...(proof ? { proofOfDelivery: proof } : {}) } : {};
+      await updateOrderWithEvent(activeOrder, transitionOrder(activeOrder, status, 'DRIVER', fare), user);
+      setShowProofModal(false);
+    } catch (e) { alert(getDeliveryErrorMessage(e, proof, getTransitionErrorMessage(e, 'خطأ'))); } finally { setIsSubmitting(false); }
+  };
+
+  const handleToggleWaiting = async () => {
+    if (!activeOrder || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const running = !!activeOrder.waitingStartedAt;
+      await updateOrderWithEvent(activeOrder, running ? stopWaiting(activeOrder) : startWaiting(activeOrder), user, running ? 'WAITING_STOPPED' : 'WAITING_STARTED');
+    } catch (e) { alert('خطأ في عداد الانتظار'); } finally { setIsSubmitting(false); }
+  };
+
+  const handleStopArrived = async () => {
+    if (!activeOrder || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const updates = markStopArrived(activeOrder);
+      await updateOrderWithEvent(activeOrder, updates, user, updates.status ? undefined : 'STOP_ARRIVED');
     } catch (e) { alert('خطأ'); } finally { setIsSubmitting(false); }
   };
 
-  const handleRejectOrder = async () => {
-    if (!activeOrder) return;
-    const confirmReject = window.confirm("هل تريد الاعتذار عن هذا المشوار؟ سيعود الطلب متاحاً للكباتن الآخرين.");
-    if (!confirmReject) return;
+  const handleCompleteStop = async (proof?: ProofOfDelivery) => {
+    if (!activeOrder || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      let updates = completeCurrentStop(activeOrder);
+      if (updates.status === OrderStatus.DELIVERED) {
+        if (!proof && getRequiredProof(activeOrder) !== 'NONE') {
+          setShowProofModal(true);
+          return;
+        }
+        updates = { ...updates, ...finalizeFare(activeOrder), ...(proof ? { proofOfDelivery: proof } : {}) };
+      }
+      await updateOrderWithEvent(activeOrder, updates, user, updates.status ? undefined : 'STOP_COMPLETED');
+      setShowProofModal(false);
+    } catch (e) { alert(getDeliveryErrorMessage(e, proof, getTransitionErrorMessage(e, 'خطأ'))); } finally { setIsSubmitting(false); }
+  };
 
+  const handleCancelOrder = async (reason: string) => {
+    if (!activeOrder) return;
     setIsSubmitting(true);
     try {
-      await updateDoc(doc(db, "orders", activeOrder.id), {
-        status: OrderStatus.WAITING_FOR_OFFERS,
-        driverId: null,
-        driverName: null,
-        driverPhone: null,
-        acceptedAt: null
-      });
-      alert('تم الاعتذار عن المشوار بنجاح');
-    } catch (e) { alert('فشل الاعتذار'); } finally { setIsSubmitting(false); }
+      const released = getCancellationPolicy(activeOrder, 'DRIVER').nextStatus === OrderStatus.WAITING_FOR_OFFERS;
+      await updateOrderWithEvent(activeOrder, cancelOrder(activeOrder, 'DRIVER', user.id, reason), user);
+      setShowCancelModal(false);
+      alert(released ? 'تم الاعتذار عن المشوار بنجاح' : 'تم إلغاء الطلب');
+    } catch (e) { alert(getTransitionErrorMessage(e, 'فشل الاعتذار')); } finally { setIsSubmitting(false); }
   };
 
   if (user.status !== 'APPROVED') {
@@ -225,6 +343,18 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
 
   return (
     <div className="rh-layout relative">
+      {showCancelModal && activeOrder && (
+        <CancelOrderModal order={activeOrder} role="DRIVER" isSubmitting={isSubmitting} onConfirm={handleCancelOrder} onClose={() => setShowCancelModal(false)} />
+      )}
+      {showProofModal && activeOrder && (
+        <ProofOfDeliveryModal
+          order={activeOrder}
+          driverId={user.id}
+          isSubmitting={isSubmitting}
+          onConfirm={(proof) => isMultiStopOrder(activeOrder) ? handleCompleteStop(proof) : updateOrderStatus(OrderStatus.DELIVERED, proof)}
+          onClose={() => setShowProofModal(false)}
+        />
+      )}
       
       {/* واجهة الخريطة للكابتن */}
       {activeView === 'MAP' && (
@@ -249,31 +379,36 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
               )}
 
               {/* نقاط الطلب والمسار */}
-              {activeOrder && (
-                <>
-                  <Marker position={[activeOrder.pickup.lat, activeOrder.pickup.lng]} icon={pickupIcon}>
-                    <Popup><p className="font-black text-xs text-right">نقطة الاستلام</p></Popup>
-                  </Marker>
-                  <Marker position={[activeOrder.dropoff.lat, activeOrder.dropoff.lng]}>
-                    <Popup><p className="font-black text-xs text-right">نقطة الوصول</p></Popup>
+              {jobQueue.map((job, jobIdx) => (
+                <React.Fragment key={job.id}>
+                  {/* طلبات الطرود والبقالة قد تنشأ بدون نقطة استلام */}
+                  {job.pickup && (
+                    <Marker position={[job.pickup.lat, job.pickup.lng]} icon={pickupIcon}>
+                      <Popup><p className="font-black text-xs text-right">طلب {jobIdx + 1} • نقطة الاستلام{job.restaurantName ? ` (${job.restaurantName})` : ''}</p></Popup>
+                    </Marker>
+                  )}
+                  {getOrderStops(job).slice(1, -1).map((stop, idx) => (
+                    <Marker key={idx} position={[stop.lat, stop.lng]}>
+                      <Popup><p className="font-black text-xs text-right">محطة {idx + 1}: {stop.villageName}</p></Popup>
+                    </Marker>
+                  ))}
+                  <Marker position={[job.dropoff.lat, job.dropoff.lng]}>
+                    <Popup><p className="font-black text-xs text-right">طلب {jobIdx + 1} • نقطة الوصول ({job.dropoff.villageName})</p></Popup>
                   </Marker>
                   <Polyline 
-                    positions={[
-                      [activeOrder.pickup.lat, activeOrder.pickup.lng],
-                      [activeOrder.dropoff.lat, activeOrder.dropoff.lng]
-                    ]} 
-                    color="#0085C7" 
+                    positions={getOrderStops(job).map(stop => [stop.lat, stop.lng])} 
+                    color={job.id === activeOrder?.id ? '#0085C7' : '#94a3b8'} 
                     dashArray="10, 10"
                     weight={4}
                     opacity={0.6}
                   />
-                </>
-              )}
+                </React.Fragment>
+              ))}
 
               <MapAutoFit points={[
                 [currentLocation.lat, currentLocation.lng],
                 ...(customerLocation ? [[customerLocation.lat, customerLocation.lng] as [number, number]] : []),
-                ...(activeOrder ? [[activeOrder.pickup.lat, activeOrder.pickup.lng] as [number, number], [activeOrder.dropoff.lat, activeOrder.dropoff.lng] as [number, number]] : [])
+                ...jobQueue.flatMap(job => getOrderStops(job).map(stop => [stop.lat, stop.lng] as [number, number]))
               ]} />
            </MapContainer>
         </div>
@@ -286,10 +421,31 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
                <button onClick={() => setIsOnline(!isOnline)} className={`p-6 rounded-[2rem] shadow-2xl active:scale-90 transition-all ${isOnline ? 'bg-white text-emerald-600' : 'bg-emerald-500 text-white'}`}><Power className="h-10 w-10" /></button>
             </div>
 
-            {activeOrder ? (
+            {jobQueue.length > 1 && (
+               <div className="space-y-3 animate-reveal">
+                  <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest text-right px-4">طلباتك الجارية ({jobQueue.length}/{getJobCapacity(user.vehicleType)})</h3>
+                  {jobQueue.map((job, idx) => (
+                     <button key={job.id} onClick={() => setSelectedJobId(job.id)} className={`w-full p-5 rounded-[2rem] flex justify-between items-center flex-row-reverse text-right transition-all active:scale-95 border-2 ${job.id === activeOrder?.id ? 'bg-slate-950 text-white border-slate-950 shadow-xl' : 'bg-white text-slate-900 border-slate-100'}`}>
+                        <div className="flex items-center gap-3 flex-row-reverse">
+                           <span className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-black ${job.id === activeOrder?.id ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-400'}`}>{idx + 1}</span>
+                           <div>
+                              <p className="font-black text-sm">{job.restaurantName || job.pickup?.villageName} ← {job.dropoff?.villageName}</p>
+                              <p className="text-[9px] font-bold opacity-60">{ORDER_STATUS_LABELS[job.status]}</p>
+                           </div>
+                        </div>
+                        <p className="font-black text-lg">{job.price} <span className="text-[10px] opacity-40">ج.م</span></p>
+                     </button>
+                  ))}
+               </div>
+            )}
+
+            {activeOrder && (
                <div className="bg-white rounded-[4rem] shadow-2xl border-t-8 border-t-emerald-500 p-8 space-y-8 animate-reveal">
                   <div className="flex justify-between items-center">
-                     <span className="bg-emerald-100 text-emerald-700 px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{activeOrder.status}</span>
+                     <div className="flex flex-col gap-2 items-start">
+                        <span className="bg-emerald-100 text-emerald-700 px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{activeOrder.status}</span>
+                        {activeOrder.isRoundTrip && <span className="bg-indigo-50 text-indigo-600 px-4 py-1 rounded-full text-[10px] font-black">ذهاب وعودة</span>}
+                     </div>
                      <p className="text-5xl font-black text-slate-950">{activeOrder.price} <span className="text-xs font-bold opacity-30">ج.م</span></p>
                   </div>
 
@@ -317,10 +473,63 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
                         <div className="bg-slate-50 p-4 rounded-2xl text-emerald-600 shadow-sm shrink-0 shadow-inner"><MapPin className="h-6 w-6" /></div>
                         <div className="flex-1">
                            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">مسار الرحلة الحالية</p>
-                           <p className="font-black text-lg text-slate-900 leading-tight mt-1">{activeOrder.pickup?.villageName} ← {activeOrder.dropoff?.villageName}</p>
+                           <p className="font-black text-lg text-slate-900 leading-tight mt-1">{getOrderStops(activeOrder).map(stop => stop.villageName).join(' ← ')}</p>
                         </div>
                      </div>
+                     {isMultiStopOrder(activeOrder) && (
+                        <div className="bg-slate-50 p-6 rounded-[2.5rem] space-y-0">
+                           {getOrderStops(activeOrder).map((stop, idx) => {
+                              const current = idx === getCurrentStopIndex(activeOrder);
+                              return (
+                                 <div key={idx} className="flex gap-4 flex-row-reverse text-right">
+                                    <div className="flex flex-col items-center">
+                                       <div className={`w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-black ${stop.completedAt ? 'bg-emerald-500 text-white' : current ? 'bg-slate-950 text-white animate-pulse' : 'bg-white text-slate-300 border border-slate-200'}`}>{idx + 1}</div>
+                                       {idx < getOrderStops(activeOrder).length - 1 && <div className="w-0.5 flex-1 min-h-[1.5rem] bg-slate-200"></div>}
+                                    </div>
+                                    <div className="flex-1 pb-4">
+                                       <p className={`font-black text-sm ${current ? 'text-slate-900' : 'text-slate-400'}`}>{stop.villageName}</p>
+                                       <p className="text-[9px] font-bold text-slate-400">{STOP_TYPE_LABELS[stop.type]}{stop.arrivedAt && !stop.completedAt ? ' • وصلت' : ''}</p>
+                                       {stop.notes && <p className="text-[10px] font-bold text-slate-500 mt-1">{stop.notes}</p>}
+                                    </div>
+                                 </div>
+                              );
+                           })}
+                        </div>
+                     )}
                   </div>
+                  {(() => {
+                     const waiting = getPickupWaitingStatus(activeOrder, now);
+                     if (!waiting) return null;
+                     return (
+                        <div className={`p-6 rounded-[2.5rem] text-right border-2 ${waiting.exceeded ? 'bg-rose-50 border-rose-200' : 'bg-amber-50 border-amber-200'}`}>
+                           <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">مهلة الانتظار المجانية</p>
+                           <p className={`font-black text-lg mt-1 ${waiting.exceeded ? 'text-rose-600' : 'text-amber-700'}`}>
+                              {waiting.exceeded ? `تنتظر منذ ${waiting.minutesWaited} د • انتهت المهلة، تواصل مع العميل` : `متبقي ${waiting.freeMinutesLeft} دقيقة`}
+                           </p>
+                        </div>
+                     );
+                  })()}
+                  {activeOrder.category === 'TAXI' && [OrderStatus.PICKED_UP, OrderStatus.ON_THE_WAY].includes(activeOrder.status) && (() => {
+                     const breakdown = getFareBreakdown(activeOrder, now);
+                     const seconds = getWaitingSeconds(activeOrder, now);
+                     return (
+                        <div className={`p-6 rounded-[2.5rem] space-y-4 border-2 ${activeOrder.waitingStartedAt ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-transparent'}`}>
+                           <div className="flex justify-between items-center">
+                              <button onClick={handleToggleWaiting} disabled={isSubmitting} className={`px-6 py-3 rounded-2xl font-black text-xs active:scale-95 transition-all ${activeOrder.waitingStartedAt ? 'bg-amber-500 text-white' : 'bg-slate-950 text-white'}`}>
+                                 {activeOrder.waitingStartedAt ? 'إيقاف الانتظار' : 'بدء الانتظار'}
+                              </button>
+                              <div className="text-right">
+                                 <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">عداد الانتظار</p>
+                                 <p className="font-black text-2xl text-slate-900 font-mono" dir="ltr">{String(Math.floor(seconds / 60)).padStart(2, '0')}:{String(seconds % 60).padStart(2, '0')}</p>
+                              </div>
+                           </div>
+                           {breakdown.waitingCharge > 0 && (
+                              <p className="text-[10px] font-black text-amber-700 text-right">رسوم الانتظار: {breakdown.waitingCharge} ج.م • الإجمالي: {breakdown.total} ج.م</p>
+                           )}
+                        </div>
+                     );
+                  })()}
+
                   <div className="grid grid-cols-1 gap-4">
                      <button onClick={() => setActiveView('MAP')} className="w-full bg-emerald-500 text-white py-7 rounded-[2.2rem] font-black flex items-center justify-center gap-4 active:scale-95 transition-all shadow-xl shadow-emerald-900/10">
                         <Crosshair className="h-7 w-7" /> الخريطة ومتابعة العميل
@@ -329,30 +538,72 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
                         <a href={`tel:${activeOrder.customerPhone}`} className="bg-slate-950 text-white py-6 rounded-3xl font-black flex items-center justify-center gap-3 active:scale-95 transition-all shadow-xl"><PhoneCall className="h-6 w-6" /> اتصال</a>
                         <button onClick={() => setShowChat(true)} className="bg-white border-2 border-slate-100 text-slate-900 py-6 rounded-3xl font-black flex items-center justify-center gap-3 active:scale-95 shadow-sm"><MessageCircle className="h-6 w-6" /> دردشة</button>
                      </div>
-                     <button onClick={() => updateOrderStatus(activeOrder.status === OrderStatus.ACCEPTED ? OrderStatus.PICKED_UP : OrderStatus.DELIVERED)} disabled={isSubmitting} className="w-full bg-emerald-600 text-white py-7 rounded-[2rem] font-black text-lg shadow-2xl active:scale-95 transition-all">
-                        {isSubmitting ? <Loader2 className="h-7 w-7 animate-spin mx-auto" /> : activeOrder.status === OrderStatus.ACCEPTED ? 'تأكيد الاستلام' : 'تأكيد التوصيل'}
-                     </button>
+                     {(() => {
+                        // الملاحة للموقع الدقيق الذي حدده العميل بدل البحث عن مركز القرية
+                        const stop = getCurrentStop(activeOrder);
+                        const pin = getLocationPin(stop);
+                        if (!stop || !pin) return null;
+                        return (
+                           <a href={getNavigationUrl(pin)} target="_blank" rel="noreferrer" className="w-full bg-blue-50 text-blue-700 py-5 rounded-3xl font-black text-sm flex items-center justify-center gap-3 active:scale-95 transition-all">
+                              <Navigation className="h-5 w-5" /> الملاحة إلى {STOP_TYPE_LABELS[stop.type]} • {stop.villageName}
+                           </a>
+                        );
+                     })()}
+                     {isMultiStopOrder(activeOrder) && activeOrder.status !== OrderStatus.PICKED_UP ? (() => {
+                        const stop = getCurrentStop(activeOrder);
+                        if (!stop) return null;
+                        return stop.arrivedAt ? (
+                           <button onClick={() => handleCompleteStop()} disabled={isSubmitting} className="w-full bg-emerald-600 text-white py-7 rounded-[2rem] font-black text-lg shadow-2xl active:scale-95 transition-all">
+                              {isSubmitting ? <Loader2 className="h-7 w-7 animate-spin mx-auto" /> : stop.type === 'DROPOFF' ? 'تأكيد التوصيل' : `إنهاء محطة ${stop.villageName}`}
+                           </button>
+                        ) : (
+                           <button onClick={handleStopArrived} disabled={isSubmitting} className="w-full bg-slate-950 text-white py-7 rounded-[2rem] font-black text-lg shadow-2xl active:scale-95 transition-all">
+                              {isSubmitting ? <Loader2 className="h-7 w-7 animate-spin mx-auto" /> : `وصلت إلى ${stop.villageName}`}
+                           </button>
+                        );
+                     })() : DRIVER_NEXT_STEP[activeOrder.status] && (
+                        <button onClick={() => updateOrderStatus(DRIVER_NEXT_STEP[activeOrder.status]!.next)} disabled={isSubmitting} className="w-full bg-emerald-600 text-white py-7 rounded-[2rem] font-black text-lg shadow-2xl active:scale-95 transition-all">
+                           {isSubmitting ? <Loader2 className="h-7 w-7 animate-spin mx-auto" /> : DRIVER_NEXT_STEP[activeOrder.status]!.label}
+                        </button>
+                     )}
                      
-                     {activeOrder.status === OrderStatus.ACCEPTED && (
+                     {getCancellationPolicy(activeOrder, 'DRIVER').allowed && (
                         <button 
-                           onClick={handleRejectOrder}
+                           onClick={() => setShowCancelModal(true)}
                            disabled={isSubmitting}
                            className="py-3 text-rose-500 font-black text-[10px] uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-rose-50 rounded-2xl transition-all"
                         >
-                           <AlertTriangle className="h-4 w-4" /> اعتذار عن المشوار
+                           <AlertTriangle className="h-4 w-4" /> {activeOrder.status === OrderStatus.ACCEPTED ? 'اعتذار عن المشوار' : activeOrder.status === OrderStatus.ARRIVED_AT_PICKUP ? 'العميل لم يحضر' : 'إلغاء الطلب'}
                         </button>
                      )}
                   </div>
                </div>
-            ) : (
+            )}
+
+            {(!activeOrder || canTakeMoreJobs) && (
                <div className="space-y-6 animate-reveal">
-                  <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest text-right px-4">مشاوير بانتظارك في المنوفية ({availableOrders.length})</h3>
-                  {availableOrders.map(o => (
+                  <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest text-right px-4">{activeOrder ? 'طلبات يمكنك إضافتها لطابورك' : 'مشاوير بانتظارك في المنوفية'} ({visibleOrders.length})</h3>
+                  {visibleOrders.map(o => {
+                     const myOffer = getMyOffer(o.id);
+                     const myOfferOpen = !!myOffer && isOfferOpen(myOffer);
+                     const bounds = getOfferBounds(o, pricingZones);
+                     const typedPrice = showOfferInput === o.id ? parseFloat(offerPrice) : 0;
+                     const typedPriceError = typedPrice > 0 ? getOfferPriceError(typedPrice, bounds) : null;
+                     return (
                      <div key={o.id} className="bg-white p-8 rounded-[3.5rem] border-2 border-slate-50 shadow-xl space-y-6 animate-reveal hover:border-emerald-500 transition-all">
                         {showOfferInput === o.id ? (
                            <div className="space-y-6 animate-in zoom-in text-center">
-                              <h4 className="text-xl font-black">تقديم عرض سعر للمشوار</h4>
-                              <input autoFocus type="number" value={offerPrice} onChange={e => setOfferPrice(e.target.value)} placeholder={o.price.toString()} className="w-full bg-slate-50 border-none rounded-3xl p-8 text-5xl font-black text-center outline-none shadow-inner focus:ring-4 focus:ring-emerald-500/5" />
+                              <h4 className="text-xl font-black">{myOfferOpen ? 'تعديل سعر عرضك' : 'تقديم عرض سعر للمشوار'}</h4>
+                              <div className="space-y-1">
+                                 <p className="text-[11px] font-black text-slate-400">السعر حسب التعريفة الحالية: <span className="text-emerald-600">{bounds.estimate} ج.م</span></p>
+                                 <p className="text-[10px] font-bold text-slate-400">العروض المسموحة من {bounds.min} إلى {bounds.max} ج.م</p>
+                              </div>
+                              <input autoFocus type="number" value={offerPrice} onChange={e => setOfferPrice(e.target.value)} placeholder={bounds.estimate.toString()} className="w-full bg-slate-50 border-none rounded-3xl p-8 text-5xl font-black text-center outline-none shadow-inner focus:ring-4 focus:ring-emerald-500/5" />
+                              {typedPriceError ? (
+                                 <p className="text-[11px] font-black text-rose-500">{typedPriceError}</p>
+                              ) : typedPrice > bounds.outlierAbove && (
+                                 <p className="bg-amber-50 text-amber-700 p-4 rounded-2xl text-[11px] font-black flex items-center gap-2 justify-center"><AlertTriangle className="h-4 w-4 shrink-0" /> عرضك أعلى بكثير من السعر التقديري وسيظهر للعميل وغرفة التحكم كعرض مرتفع</p>
+                              )}
                               <div className="flex gap-4">
                                  <button onClick={() => setShowOfferInput(null)} className="flex-1 py-6 rounded-2xl font-black text-slate-400">إلغاء</button>
                                  <button onClick={() => handleSendOffer(o.id)} className="flex-[2] bg-emerald-600 text-white py-6 rounded-2xl font-black shadow-xl shadow-emerald-900/20 active:scale-95">إرسال العرض</button>
@@ -367,6 +618,7 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
                                        <span className="text-[10px] font-black text-emerald-600 bg-emerald-50 px-4 py-1.5 rounded-full">{o.requestedVehicleType}</span>
                                        {o.category === 'FOOD' && <span className="text-[10px] font-black text-amber-600 bg-amber-50 px-4 py-1.5 rounded-full">طلب مطعم 🍔</span>}
                                     </div>
+                                    {o.scheduledFor && <p className="text-[10px] font-black text-indigo-600">🗓️ موعد الاستلام: {formatScheduledTime(o.scheduledFor)}</p>}
                                     {o.category === 'FOOD' && o.foodItems && (
                                        <div className="pt-2 border-t border-slate-100 mt-2">
                                           <p className="text-[9px] font-bold text-slate-400">الأصناف: {o.foodItems.map(i => i.name).join('، ')}</p>
@@ -375,14 +627,40 @@ const CourierDashboard: React.FC<{ user: User }> = ({ user }) => {
                                  </div>
                                  <div className="bg-slate-950 text-emerald-400 p-6 rounded-[2.2rem] font-black text-3xl shrink-0 shadow-2xl">{o.price}</div>
                               </div>
-                              <button onClick={() => { setShowOfferInput(o.id); setOfferPrice(o.price.toString()); }} className="w-full bg-slate-950 text-white py-7 rounded-[2.5rem] font-black text-xl shadow-2xl active:scale-95 transition-all flex items-center justify-center gap-4">
-                                 <Zap className="h-6 w-6 text-emerald-400" /> تقديم عرض سريع
-                              </button>
+                              {myOfferOpen ? (
+                                 <div className="bg-emerald-50 p-6 rounded-[2.5rem] space-y-4 text-right">
+                                    <div className="flex justify-between items-center">
+                                       <span className="text-[10px] font-black text-emerald-600">{OFFER_STATUS_LABELS.PENDING}</span>
+                                       <p className="font-black text-slate-900">عرضك: {myOffer.price} ج.م</p>
+                                    </div>
+                                    {myOffer.counterStatus === 'PENDING' && (
+                                       <div className="bg-white p-4 rounded-2xl space-y-3">
+                                          <p className="text-xs font-black text-amber-600">العميل يقترح {myOffer.counterPrice} ج.م</p>
+                                          <div className="flex gap-2">
+                                             <button onClick={() => handleCounterResponse(myOffer, o, true)} disabled={isSubmitting} className="flex-1 bg-emerald-600 text-white py-3 rounded-xl font-black text-xs active:scale-95">موافق</button>
+                                             <button onClick={() => handleCounterResponse(myOffer, o, false)} disabled={isSubmitting} className="flex-1 bg-slate-100 text-slate-500 py-3 rounded-xl font-black text-xs active:scale-95">رفض</button>
+                                          </div>
+                                       </div>
+                                    )}
+                                    <div className="flex gap-2">
+                                       <button onClick={() => { setShowOfferInput(o.id); setOfferPrice(myOffer.price.toString()); }} className="flex-1 bg-slate-950 text-white py-4 rounded-2xl font-black text-xs active:scale-95">تعديل السعر</button>
+                                       <button onClick={() => handleWithdrawOffer(myOffer)} disabled={isSubmitting} className="flex-1 bg-rose-50 text-rose-500 py-4 rounded-2xl font-black text-xs active:scale-95">سحب العرض</button>
+                                    </div>
+                                 </div>
+                              ) : (
+                                 <>
+                                    {myOffer && <p className="text-[10px] font-black text-slate-400 text-center">{OFFER_STATUS_LABELS[getOfferStatus(myOffer)]}</p>}
+                                    <button onClick={() => { setShowOfferInput(o.id); setOfferPrice(o.price.toString()); }} className="w-full bg-slate-950 text-white py-7 rounded-[2.5rem] font-black text-xl shadow-2xl active:scale-95 transition-all flex items-center justify-center gap-4">
+                                       <Zap className="h-6 w-6 text-emerald-400" /> تقديم عرض سريع
+                                    </button>
+                                 </>
+                              )}
                            </>
                         )}
                      </div>
-                  ))}
-                  {availableOrders.length === 0 && (
+                     );
+                  })}
+                  {visibleOrders.length === 0 && (
                      <div className="py-24 text-center text-slate-300 font-black border-4 border-dashed border-slate-100 rounded-[4rem] bg-white/50 animate-reveal">
                         <Bot className="h-16 w-16 mx-auto mb-6 opacity-20" />
                         <p className="tracking-widest uppercase text-xs">بانتظار طلبات جديدة من مراكز المنوفية...</p>
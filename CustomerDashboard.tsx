@@ -2,22 +2,43 @@
 import React, { useState, useEffect, useRef } from 'react';
 
 // Types
-import type { User, Order, Village, Offer, OrderCategory, Restaurant, MenuItem, CartItem, District, Ad } from '../types';
+import type { User, Order, Village, Offer, OrderCategory, Restaurant, MenuItem, CartItem, District, Ad, PriceBreakdown, SurgeRule, AppliedSurge, Coupon, Pharmacy, PaymentMethod, LoyaltyRules, AppliedPoints, LatLng } from '../types';
 import { OrderStatus, VehicleType } from '../types';
-import { MENOFIA_DATA, DEFAULT_PRICING } from '../config/constants';
+import { MENOFIA_DATA, DEFAULT_PRICING, TIP_CONFIG, DEFAULT_LOYALTY_RULES } from '../config/constants';
 
 // React Leaflet
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
 import L from 'leaflet';
 
 // Utils
-import { stripFirestore, compressImage, getRoadDistance } from '../utils';
+import { stripFirestore, compressImage } from '../utils';
+import { getRouteDistance, getPointToVillageDistance } from '../distanceMatrix';
+import { toOrderLocation, getLocationPin } from '../locationPins';
+import { transitionOrder, cancelOrder, getCancellationPolicy, getTransitionErrorMessage } from '../orderLifecycle';
+import { updateOrderWithEvent, logOrderEvent } from '../orderEvents';
+import { getOfferMinutesLeft, getOrderEscalation, autoCancelStaleOrder } from '../orderEscalation';
+import { isOfferOpen, isOutlierOffer, counterOffer } from '../offerLifecycle';
+import { getCustomerPrice, getOrderDiscount } from '../orderSettlement';
+import { assignOrderToDriver } from '../orderAssignment';
+import { villageToStop } from '../orderStops';
+import { getFareBreakdown, getPickupWaitingStatus } from '../tripExtras';
+import { calculateOrderPrice } from '../pricing';
+import { subscribeToPricingZones, resolvePricing, PricingZones } from '../pricingZones';
+import { subscribeToSurgeRules, subscribeToDistrictDemand, needsDemandData, getSurge, getDemandRatio, getVillageDistrictId, DistrictDemand } from '../surgePricing';
+import { placeOrderWithCoupon, getCouponError, calculateCouponDiscount, CouponError, CouponContext } from '../coupons';
+import { getDeliveryPinForCategory, postDeliveryPin, subscribeToDeliveryPin } from '../proofOfDelivery';
+import type { LedgerWriter } from '../walletLedger';
+import { isUpcomingScheduledOrder, validateScheduledTime, formatScheduledTime, isReminderDue, sendScheduledReminder } from '../orderScheduling';
+import { findVillageByName, rebuildCart, getReorderWarning } from '../reorder';
+import { payTip, validateTipAmount, TipError } from '../tips';
+import { subscribeToLoyaltyRules, getRedeemablePoints, placeOrderWithPoints, expireLoyaltyPoints, LoyaltyError } from '../loyalty';
+import { subscribeToPharmacies, findNearestOpenPharmacy, sortPharmaciesByDistance, isPharmacyOpen, formatPharmacyHours } from '../pharmacies';
 
 // Services
 import { db } from '../services/firebase';
 import { 
-  collection, addDoc, query, where, onSnapshot, 
-  doc, updateDoc, increment, orderBy
+  collection, query, where, onSnapshot, 
+  doc, updateDoc, increment, orderBy, writeBatch
 } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
 
 // Icons
@@ -32,7 +53,8 @@ import {
   Camera, FileText, Search, Edit2, CheckCircle2,
   Utensils, Store, Trash2, ZoomIn, Download, ChevronLeft,
   Timer, Milestone, AlertTriangle, Home, Megaphone, UploadCloud,
-  Crosshair, Compass, Calculator, Radar, ClipboardList, PenTool, PlusSquare, PlusCircle
+  Crosshair, Compass, Calculator, Radar, ClipboardList, PenTool, PlusSquare, PlusCircle,
+  Banknote, Wallet
 } from 'lucide-react';
 
 // Components
@@ -40,6 +62,10 @@ import ProfileView from './ProfileView';
 import ActivityView from './ActivityView';
 import WalletView from './WalletView';
 import ChatView from '../components/ChatView';
+import CancelOrderModal from '../components/CancelOrderModal';
+import CouponField from '../components/CouponField';
+import PointsField from '../components/PointsField';
+import LocationPickerModal from '../components/LocationPickerModal';
 import AIAssistant from '../config/AIAssistant';
 
 // --- Custom Marker Icons ---
@@ -95,10 +121,12 @@ const LocationSelector: React.FC<{
   selectedDistrict: District | null, selectedVillage: Village | null,
   onSelectDistrict: (d: District) => void, onSelectVillage: (v: Village) => void,
   addressNote?: string, onAddressChange?: (val: string) => void,
+  pin?: LatLng | null, onPinChange?: (pin: LatLng | null) => void,
   minimal?: boolean
-}> = ({ label, helper, icon, iconBg, selectedDistrict, selectedVillage, onSelectDistrict, onSelectVillage, addressNote, onAddressChange, minimal = false }) => {
+}> = ({ label, helper, icon, iconBg, selectedDistrict, selectedVillage, onSelectDistrict, onSelectVillage, addressNote, onAddressChange, pin = null, onPinChange, minimal = false }) => {
   const [showDistricts, setShowDistricts] = useState(false);
   const [showVillages, setShowVillages] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
 
   return (
     <div className={`bg-white rounded-[2.5rem] card-shadow space-y-4 border border-slate-50 ${minimal ? 'p-4' : 'p-6'}`}>
@@ -120,7 +148,7 @@ const LocationSelector: React.FC<{
           {showDistricts && (
             <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-2xl shadow-2xl z-[6000] max-h-48 overflow-y-auto no-scrollbar border border-slate-100 animate-in zoom-in">
                {MENOFIA_DATA.map(d => (
-                 <button key={d.id} type="button" onClick={() => { onSelectDistrict(d); setShowDistricts(false); }} className="w-full p-4 text-right hover:bg-emerald-50 font-black text-xs border-b border-slate-50 last:border-none">{d.name}</button>
+                 <button key={d.id} type="button" onClick={() => { onSelectDistrict(d); onPinChange?.(null); setShowDistricts(false); }} className="w-full p-4 text-right hover:bg-emerald-50 font-black text-xs border-b border-slate-50 last:border-none">{d.name}</button>
                ))}
             </div>
           )}
@@ -133,12 +161,29 @@ const LocationSelector: React.FC<{
           {showVillages && selectedDistrict && (
             <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-2xl shadow-2xl z-[6000] max-h-48 overflow-y-auto no-scrollbar border border-slate-100 animate-in zoom-in">
                {selectedDistrict.villages.map(v => (
-                 <button key={v.id} type="button" onClick={() => { onSelectVillage(v); setShowVillages(false); }} className="w-full p-4 text-right hover:bg-emerald-50 font-black text-xs border-b border-slate-50 last:border-none">{v.name}</button>
+                 <button key={v.id} type="button" onClick={() => { onSelectVillage(v); onPinChange?.(null); setShowVillages(false); }} className="w-full p-4 text-right hover:bg-emerald-50 font-black text-xs border-b border-slate-50 last:border-none">{v.name}</button>
                ))}
             </div>
           )}
         </div>
       </div>
+      {onPinChange && (
+        <div className="flex gap-2" dir="rtl">
+          <button type="button" onClick={() => setShowPicker(true)} className={`flex-1 p-4 rounded-2xl text-xs font-black flex items-center justify-center gap-2 border transition-all ${pin ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-[#F8FAFC] border-slate-100 text-slate-500'}`}>
+            <Crosshair className="h-4 w-4" /> {pin ? 'تم تحديد الموقع بدقة • تعديل' : 'حدد الموقع بدقة على الخريطة'}
+          </button>
+          {pin && <button type="button" onClick={() => onPinChange(null)} className="p-4 bg-rose-50 text-rose-500 rounded-2xl"><X className="h-4 w-4" /></button>}
+        </div>
+      )}
+      {showPicker && onPinChange && (
+        <LocationPickerModal
+          title={label || 'حدد الموقع على الخريطة'}
+          initial={pin}
+          center={selectedVillage?.center}
+          onConfirm={(point, match) => { onSelectDistrict(match.district); onSelectVillage(match.village); onPinChange(point); setShowPicker(false); }}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
       {onAddressChange !== undefined && (
         <input value={addressNote} onChange={e => onAddressChange(e.target.value)} placeholder="رقم المنزل، علامة مميزة.." className="w-full bg-[#F8FAFC] p-5 rounded-2xl text-xs font-bold text-right outline-none focus:border-emerald-500/20 border-2 border-transparent transition-all shadow-inner" />
       )}
@@ -146,6 +191,85 @@ const LocationSelector: React.FC<{
   );
 };
 
+const SchedulePicker: React.FC<{
+  enabled: boolean, value: string,
+  onToggle: (enabled: boolean) => void, onChange: (val: string) => void
+}> = ({ enabled, value, onToggle, onChange }) => (
+  <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-4">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-right px-2">موعد الطلب</p>
+    <div className="grid grid-cols-2 gap-3">
+      {[ { id: false, label: 'الآن', icon: <Zap className="h-5 w-5" /> }, { id: true, label: 'موعد لاحق', icon: <Timer className="h-5 w-5" /> } ].map(opt => (
+        <button key={opt.label} type="button" onClick={() => onToggle(opt.id)} className={`py-4 rounded-3xl flex items-center justify-center gap-2 transition-all border-4 font-black text-xs ${enabled === opt.id ? 'bg-emerald-50 border-emerald-500 text-emerald-600' : 'bg-slate-50 border-transparent text-slate-300'}`}>
+          {opt.icon} {opt.label}
+        </button>
+      ))}
+    </div>
+    {enabled && (
+      <input type="datetime-local" value={value} onChange={e => onChange(e.target.value)} className="w-full bg-[#F8FAFC] p-5 rounded-2xl text-sm font-black text-center outline-none border-2 border-transparent focus:border-emerald-500/20 shadow-inner animate-in fade-in" />
+    )}
+  </div>
+);
+
+// تفاصيل الأجرة للعميل: سعر المشوار + رسوم الانتظار
+const FareSummary: React.FC<{ order: Order, now: number }> = ({ order, now }) => {
+  const breakdown = getFareBreakdown(order, now);
+  return (
+    <div className="bg-white p-6 rounded-[2.5rem] card-shadow space-y-3 text-right border border-slate-50">
+      <div className="flex justify-between items-center text-xs font-bold text-slate-500">
+        <span>{breakdown.baseFare} ج.م</span>
+        <span>سعر المشوار{order.isRoundTrip ? ' (ذهاب وعودة)' : ''}</span>
+      </div>
+      <div className="flex justify-between items-center text-xs font-bold text-slate-500">
+        <span>{breakdown.waitingCharge} ج.م</span>
+        <span>انتظار {breakdown.waitingMinutes} دقيقة × {breakdown.waitingRate} ج.م{order.waitingStartedAt ? ' (جارٍ)' : ''}</span>
+      </div>
+      <div className="flex justify-between items-center pt-3 border-t border-slate-100">
+        <span className="font-black text-xl text-emerald-600">{breakdown.total} ج.م</span>
+        <span className="font-black text-sm text-slate-900">الإجمالي</span>
+      </div>
+    </div>
+  );
+};
+
+// شريط حالة التتبع: يتغير مع كل خطوة يحدّثها الكابتن
+const TRACKING_BANNERS: Partial<Record<OrderStatus, { title: string, subtitle: string }>> = {
+  [OrderStatus.ACCEPTED]: { title: 'الكابتن في الطريق إليك', subtitle: 'يتجه الآن لنقطة الاستلام' },
+  [OrderStatus.ARRIVED_AT_PICKUP]: { title: 'الكابتن وصل', subtitle: 'بانتظارك عند نقطة الاستلام' },
+  [OrderStatus.PICKED_UP]: { title: 'تم الاستلام', subtitle: 'الكابتن يستعد للانطلاق' },
+  [OrderStatus.ON_THE_WAY]: { title: 'في الطريق', subtitle: 'متجه الآن لنقطة التسليم' }
+};
+
+const TrackingBanner: React.FC<{ order: Order, now: number }> = ({ order, now }) => {
+  const banner = TRACKING_BANNERS[order.status] || { title: order.status, subtitle: '' };
+  const waiting = getPickupWaitingStatus(order, now);
+  return (
+    <div className={`${waiting?.exceeded ? 'bg-amber-500' : 'bg-emerald-600'} p-8 rounded-[3rem] text-white flex justify-between items-center shadow-xl`}>
+      <div className="text-right">
+        <p className="text-xs font-black opacity-60 uppercase mb-1">تتبع الرحلة</p>
+        <h3 className="text-2xl font-black">{banner.title}</h3>
+        <p className="text-[10px] font-bold opacity-80 mt-1">
+          {waiting ? (waiting.exceeded ? 'انتهت مدة الانتظار المجانية، يرجى التوجه للكابتن فوراً' : `انتظار مجاني متبقي ${waiting.freeMinutesLeft} دقيقة`) : banner.subtitle}
+        </p>
+      </div>
+      <div className="bg-white/20 p-4 rounded-2xl"><Navigation className="h-8 w-8 animate-bounce" /></div>
+    </div>
+  );
+};
+
+// شرح أسعار الذروة للعميل قبل تأكيد الطلب
+const SurgeNotice: React.FC<{ breakdown: PriceBreakdown | null }> = ({ breakdown }) => {
+  if (!breakdown || breakdown.surgeMultiplier <= 1) return null;
+  return (
+    <div className="bg-amber-50 border border-amber-100 p-4 rounded-[2rem] text-right flex items-start gap-3 animate-in fade-in">
+      <Zap className="h-5 w-5 text-amber-500 shrink-0 mt-0.5" />
+      <div>
+        <p className="text-xs font-black text-amber-700">أسعار الذروة مطبقة (× {breakdown.surgeMultiplier}) بزيادة {breakdown.surgeCharge} ج.م</p>
+        <p className="text-[10px] font-bold text-amber-600/80 mt-1">{breakdown.surgeReasons.join('، ')}</p>
+      </div>
+    </div>
+  );
+};
+
 const AdDetailsView: React.FC<{ ad: Ad, onClose: () => void }> = ({ ad, onClose }) => {
   return (
     <div className="fixed inset-0 z-[11000] bg-slate-950/90 backdrop-blur-xl flex items-center justify-center p-4 animate-in fade-in duration-300" dir="rtl">
@@ -189,31 +313,41 @@ const AdDetailsView: React.FC<{ ad: Ad, onClose: () => void }> = ({ ad, onClose
 const RestaurantMenuView: React.FC<{ 
   restaurant: Restaurant, 
   initialDropoffVillage: Village | null,
+  initialDropoffPin: LatLng | null,
   initialDistrict: District | null,
   selectedVehicle: VehicleType,
+  initialCart?: CartItem[] | null,
+  pricingZones: PricingZones,
+  surge: AppliedSurge | null,
+  userId: string,
+  pointsBalance: number,
+  loyaltyRules: LoyaltyRules,
   onClose: () => void, 
-  onConfirmOrder: (cart: CartItem[], foodTotal: number, deliveryTotal: number, grandTotal: number, distance: number, village: Village, customNote?: string) => void 
-}> = ({ restaurant, initialDropoffVillage, initialDistrict, selectedVehicle, onClose, onConfirmOrder }) => {
-  const [cart, setCart] = useState<CartItem[]>([]);
+  onConfirmOrder: (cart: CartItem[], foodTotal: number, deliveryTotal: number, grandTotal: number, distance: number, village: Village, customNote: string, breakdown: PriceBreakdown, coupon: Coupon | null, usePoints: boolean, pin: LatLng | null) => void 
+}> = ({ restaurant, initialDropoffVillage, initialDropoffPin, initialDistrict, selectedVehicle, initialCart, pricingZones, surge, userId, pointsBalance, loyaltyRules, onClose, onConfirmOrder }) => {
+  const [cart, setCart] = useState<CartItem[]>(initialCart || []);
   const [showFullMenuImage, setShowFullMenuImage] = useState(false);
   const [roadDist, setRoadDist] = useState<number>(0);
   const [isCalculating, setIsCalculating] = useState(false);
   const [customItemNote, setCustomItemNote] = useState('');
+  const [coupon, setCoupon] = useState<Coupon | null>(null);
+  const [usePoints, setUsePoints] = useState(false);
   
   const [currentDistrict, setCurrentDistrict] = useState<District | null>(initialDistrict);
   const [currentVillage, setCurrentVillage] = useState<Village | null>(initialDropoffVillage);
+  const [currentPin, setCurrentPin] = useState<LatLng | null>(initialDropoffPin);
 
   useEffect(() => {
     if (currentVillage) {
       setIsCalculating(true);
-      getRoadDistance(restaurant.lat, restaurant.lng, currentVillage.center.lat, currentVillage.center.lng)
+      getPointToVillageDistance({ lat: restaurant.lat, lng: restaurant.lng }, currentVillage, currentPin)
         .then(res => {
           setRoadDist(res.distance);
           setIsCalculating(false);
         })
         .catch(() => setIsCalculating(false));
     }
-  }, [restaurant, currentVillage]);
+  }, [restaurant, currentVillage, currentPin]);
 
   const addToCart = (item: MenuItem) => {
     setCart(prev => {
@@ -229,25 +363,29 @@ const RestaurantMenuView: React.FC<{
 
   const totalFoodItemsPrice = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
 
-  const getDeliveryPrice = () => {
-    if (!currentVillage) return 0;
-    
-    // التوصيل داخل نفس القرية بـ 25 ج.م
-    const isSameVillage = restaurant.address === currentVillage.name;
-    const { sameVillagePrice, foodOutsidePricePerKm } = DEFAULT_PRICING;
-
-    if (isSameVillage) {
-      return sameVillagePrice;
-    }
-
-    // إذا كان خارج القرية: حساب المسافة × 3 جنيه
-    const calc = roadDist * foodOutsidePricePerKm;
-    return Math.round(calc);
-  };
-
-  const deliveryPrice = getDeliveryPrice();
+  const priceBreakdown = currentVillage ? calculateOrderPrice({
+    category: 'FOOD',
+    vehicleType: selectedVehicle,
+    pickupVillageName: restaurant.address,
+    dropoffVillageName: currentVillage.name,
+    distanceKm: roadDist,
+    itemsTotal: totalFoodItemsPrice,
+    surge
+  }, resolvePricing(pricingZones, restaurant.address)) : null;
+
+  const deliveryPrice = priceBreakdown?.oneWay || 0;
   const finalEstimatedPrice = totalFoodItemsPrice + deliveryPrice;
 
+  const couponContext: CouponContext | null = priceBreakdown ? {
+    category: 'FOOD',
+    restaurantId: restaurant.id,
+    districtId: getVillageDistrictId(currentVillage?.name),
+    orderTotal: finalEstimatedPrice,
+    fare: deliveryPrice
+  } : null;
+  const couponDiscount = coupon && couponContext && !getCouponError(coupon, couponContext, 0) ? calculateCouponDiscount(coupon, deliveryPrice) : 0;
+  const pointsDiscount = usePoints && !coupon && priceBreakdown ? getRedeemablePoints(pointsBalance, deliveryPrice, loyaltyRules)?.discount || 0 : 0;
+
   return (
     <div className="fixed inset-0 z-[5000] bg-white flex flex-col animate-in slide-in-from-bottom duration-500 overflow-hidden" dir="rtl">
        <div className="relative h-[25vh] shrink-0">
@@ -272,6 +410,8 @@ const RestaurantMenuView: React.FC<{
                 selectedVillage={currentVillage}
                 onSelectDistrict={setCurrentDistrict}
                 onSelectVillage={setCurrentVillage}
+                pin={currentPin}
+                onPinChange={setCurrentPin}
                 minimal
              />
           </div>
@@ -326,6 +466,9 @@ const RestaurantMenuView: React.FC<{
        </div>
 
        <div className="p-8 pb-10 bg-white/80 backdrop-blur-xl border-t border-slate-100 shadow-2xl">
+          {!isCalculating && priceBreakdown && priceBreakdown.surgeMultiplier > 1 && <div className="mb-4"><SurgeNotice breakdown={priceBreakdown} /></div>}
+          <div className="mb-4"><CouponField userId={userId} context={couponContext} coupon={coupon} onChange={setCoupon} /></div>
+          <div className="mb-4"><PointsField balance={pointsBalance} rules={loyaltyRules} fare={priceBreakdown ? deliveryPrice : null} hasCoupon={!!coupon} isApplied={usePoints} onChange={setUsePoints} /></div>
           <div className="grid grid-cols-2 gap-4 mb-4">
              <div className="bg-slate-50 p-4 rounded-3xl border border-slate-100 text-right">
                 <p className="text-[9px] font-black text-slate-400 uppercase mb-1">حساب الطلبات</p>
@@ -340,11 +483,11 @@ const RestaurantMenuView: React.FC<{
           </div>
 
           <button 
-            onClick={() => currentVillage && onConfirmOrder(cart, totalFoodItemsPrice, deliveryPrice, finalEstimatedPrice, roadDist, currentVillage, customItemNote)}
+            onClick={() => currentVillage && priceBreakdown && onConfirmOrder(cart, totalFoodItemsPrice, deliveryPrice, finalEstimatedPrice, roadDist, currentVillage, customItemNote, priceBreakdown, coupon, usePoints, currentPin)}
             disabled={(cart.length === 0 && !customItemNote.trim()) || !currentVillage || isCalculating}
             className="w-full bg-[#10b981] text-white py-6 rounded-[2rem] font-black text-lg shadow-2xl flex items-center justify-center gap-4 active:scale-95 transition-all disabled:opacity-30"
           >
-             <ShoppingBag className="h-6 w-6" /> تأكيد وإرسال الطلب ({finalEstimatedPrice} ج.م)
+             <ShoppingBag className="h-6 w-6" /> تأكيد وإرسال الطلب ({finalEstimatedPrice - couponDiscount - pointsDiscount} ج.م)
           </button>
        </div>
 
@@ -371,33 +514,60 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
   
   const [pickupDistrict, setPickupDistrict] = useState<District | null>(null);
   const [pickupVillage, setPickupVillage] = useState<Village | null>(null);
+  const [pickupPin, setPickupPin] = useState<LatLng | null>(null);
   const [pickupNote, setPickupNote] = useState('');
   
   const [dropoffDistrict, setDropoffDistrict] = useState<District | null>(null);
   const [dropoffVillage, setDropoffVillage] = useState<Village | null>(null);
+  const [dropoffPin, setDropoffPin] = useState<LatLng | null>(null);
   const [dropoffNote, setDropoffNote] = useState('');
 
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [ads, setAds] = useState<Ad[]>([]);
   const [viewingAd, setViewingAd] = useState<Ad | null>(null);
   const [viewingRestaurant, setViewingRestaurant] = useState<Restaurant | null>(null);
+  const [reorderCart, setReorderCart] = useState<CartItem[] | null>(null);
   
   const [selectedVehicle, setSelectedVehicle] = useState<VehicleType>('MOTORCYCLE');
-  const [activeOrder, setActiveOrder] = useState<Order | null>(null);
+  const [myOrders, setMyOrders] = useState<Order[]>([]);
   const [incomingOffers, setIncomingOffers] = useState<Offer[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [counterTarget, setCounterTarget] = useState<string | null>(null);
+  const [counterValue, setCounterValue] = useState('');
+  const [scheduleMode, setScheduleMode] = useState(false);
+  const [isRoundTrip, setIsRoundTrip] = useState(false);
+  const [extraStops, setExtraStops] = useState<{ district: District | null, village: Village | null, pin: LatLng | null, note: string }[]>([]);
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [pricingZones, setPricingZones] = useState<PricingZones>({});
+  const [surgeRules, setSurgeRules] = useState<SurgeRule[]>([]);
+  const [demand, setDemand] = useState<Record<string, DistrictDemand> | null>(null);
+  const [coupon, setCoupon] = useState<Coupon | null>(null);
+  const [usePoints, setUsePoints] = useState(false);
+  const [loyaltyRules, setLoyaltyRules] = useState<LoyaltyRules>(DEFAULT_LOYALTY_RULES);
+
+  // الطلبات المجدولة تبقى في قائمة المواعيد حتى يحين وقت عرضها على الكباتن
+  const openOrders = myOrders.filter(o => ![OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status));
+  const scheduledOrders = openOrders.filter(o => isUpcomingScheduledOrder(o, now));
+  const activeOrder = openOrders.find(o => !isUpcomingScheduledOrder(o, now)) || null;
   
   const [actualRoadDist, setActualRoadDist] = useState<number>(0);
   const [isCalculatingDist, setIsCalculatingDist] = useState(false);
   
   const [aiOpen, setAiOpen] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [rating, setRating] = useState(5);
   const [feedback, setFeedback] = useState('');
+  const [tipAmount, setTipAmount] = useState(0);
+  const [tipMethod, setTipMethod] = useState<PaymentMethod>('CASH');
+  const [deliveryCode, setDeliveryCode] = useState<string | null>(null);
   
   const [prescriptionImg, setPrescriptionImg] = useState<string | null>(null);
   const [medsList, setMedsList] = useState('');
+  const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
+  const [selectedPharmacyId, setSelectedPharmacyId] = useState<string | null>(null);
   const prescriptionRef = useRef<HTMLInputElement>(null);
 
   // States for Custom Restaurant Form
@@ -409,14 +579,26 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
 
   const adminWhatsApp = "201065019364";
 
+  // المحطات الوسيطة المكتملة (مشاوير التاكسي فقط)
+  const waypoints = selectedCategory === 'TAXI' ? extraStops.filter(st => st.village).map(st => ({ village: st.village!, pin: st.pin })) : [];
+
+  // الطلب المجدول يعامل بوقت الاستلام لا وقت الحجز
+  const pickupTime = scheduleMode && scheduledAt ? new Date(scheduledAt).getTime() : Date.now();
+
+  // الصيدلية التي اختارها العميل، أو أقرب صيدلية شريكة مفتوحة لمكان التوصيل
+  const selectedPharmacy = pharmacies.find(p => p.id === selectedPharmacyId) || null;
+  const orderPharmacy = selectedCategory === 'PHARMACY' && dropoffVillage ? selectedPharmacy || findNearestOpenPharmacy(pharmacies, dropoffVillage, pickupTime) : null;
+  const pickupVillageName = selectedCategory === 'PHARMACY' ? orderPharmacy?.villageName : pickupVillage?.name;
+
   // تتبع المسافة الفعلية للطريق (Google Maps Like)
   useEffect(() => {
     if (pickupVillage && dropoffVillage) {
-      if (pickupVillage.id === dropoffVillage.id) {
+      if (pickupVillage.id === dropoffVillage.id && waypoints.length === 0 && !pickupPin && !dropoffPin) {
         setActualRoadDist(0);
       } else {
         setIsCalculatingDist(true);
-        getRoadDistance(pickupVillage.center.lat, pickupVillage.center.lng, dropoffVillage.center.lat, dropoffVillage.center.lng)
+        // مجموع مسافات المراحل عند وجود محطات وسيطة
+        getRouteDistance([{ village: pickupVillage, pin: pickupPin }, ...waypoints, { village: dropoffVillage, pin: dropoffPin }])
           .then(res => {
             setActualRoadDist(res.distance);
             setIsCalculatingDist(false);
@@ -425,18 +607,16 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
             setIsCalculatingDist(false);
           });
       }
-    } else if (selectedCategory === 'PHARMACY' && dropoffVillage) {
+    } else if (selectedCategory === 'PHARMACY' && dropoffVillage && orderPharmacy) {
         setIsCalculatingDist(true);
-        const refLat = 30.2931; // أشمون المدينة
-        const refLng = 30.9863;
-        getRoadDistance(refLat, refLng, dropoffVillage.center.lat, dropoffVillage.center.lng)
+        getPointToVillageDistance({ lat: orderPharmacy.lat, lng: orderPharmacy.lng }, dropoffVillage, dropoffPin)
           .then(res => {
             setActualRoadDist(res.distance);
             setIsCalculatingDist(false);
           })
           .catch(() => setIsCalculatingDist(false));
     }
-  }, [pickupVillage, dropoffVillage, selectedCategory]);
+  }, [pickupVillage, dropoffVillage, pickupPin, dropoffPin, selectedCategory, extraStops, orderPharmacy?.id]);
 
   const handlePrescriptionUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -449,27 +629,77 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
     reader.readAsDataURL(file);
   };
 
-  const getEstimatedPrice = () => {
-    if (!dropoffVillage) return 0;
-    
-    const { basePrice, pricePerKm, minPrice, sameVillagePrice, deliveryBasePrice, foodOutsidePricePerKm } = DEFAULT_PRICING;
-    const multiplier = DEFAULT_PRICING.multipliers[selectedVehicle] || 1;
+  // تسعير المركز يقرأ مباشرة ليظهر أي تعديل من الإدارة في التقدير فوراً
+  useEffect(() => subscribeToPricingZones(setPricingZones), []);
 
-    if (selectedCategory === 'TAXI' && pickupVillage?.id === dropoffVillage.id) {
-      return sameVillagePrice;
-    }
+  const getZonePricing = () => resolvePricing(pricingZones, pickupVillageName || dropoffVillage?.name);
 
-    if (selectedCategory === 'PHARMACY') {
-       const calc = (deliveryBasePrice + (actualRoadDist * pricePerKm)) * multiplier;
-       return Math.max(deliveryBasePrice, Math.round(calc));
-    }
+  useEffect(() => subscribeToPharmacies(setPharmacies), []);
+  useEffect(() => subscribeToLoyaltyRules(setLoyaltyRules), []);
+  // كود التسليم لا يحفظ على مستند الطلب الذي يقرؤه الكباتن
+  useEffect(() => {
+    setDeliveryCode(null);
+    if (activeOrder?.requiresDeliveryPin) return subscribeToDeliveryPin(activeOrder.id, setDeliveryCode);
+  }, [activeOrder?.id, activeOrder?.requiresDeliveryPin]);
+  // تصفير النقاط المنتهية قبل عرض الرصيد للاستبدال
+  useEffect(() => { expireLoyaltyPoints(user.id).catch(e => console.error('Loyalty expiry error:', e)); }, [user.id]);
 
-    if (selectedCategory === 'FOOD' && pickupVillage?.id !== dropoffVillage.id) {
-       return Math.round(actualRoadDist * foodOutsidePricePerKm);
-    }
+  useEffect(() => subscribeToSurgeRules(setSurgeRules), []);
+
+  // نسب الطلب المجمعة لكل مركز لا تقرأ إلا عند وجود قاعدة ذروة مرتبطة بنسبة الطلب
+  const demandBased = needsDemandData(surgeRules);
+  useEffect(() => {
+    if (!demandBased) { setDemand(null); return; }
+    return subscribeToDistrictDemand(setDemand);
+  }, [demandBased]);
+
+  // الطلب المجدول يسعر بذروة وقت الاستلام لا وقت الحجز
+  const getCurrentSurge = (villageName?: string) => {
+    const districtId = getVillageDistrictId(villageName);
+    return getSurge(surgeRules, {
+      now: pickupTime,
+      districtId,
+      demandRatio: demand ? getDemandRatio(districtId, demand) : 0
+    });
+  };
 
-    const calc = (basePrice + (actualRoadDist * pricePerKm)) * multiplier;
-    return Math.max(minPrice, Math.round(calc));
+  // تقدير السعر من محرك التسعير الموحد
+  const getPriceBreakdown = (roundTrip: boolean = isRoundTrip) => {
+    if (!dropoffVillage) return null;
+    return calculateOrderPrice({
+      category: selectedCategory,
+      vehicleType: selectedVehicle,
+      pickupVillageName,
+      dropoffVillageName: dropoffVillage.name,
+      distanceKm: actualRoadDist,
+      hasWaypoints: waypoints.length > 0,
+      isRoundTrip: selectedCategory === 'TAXI' && roundTrip,
+      surge: getCurrentSurge(pickupVillageName || dropoffVillage.name)
+    }, getZonePricing());
+  };
+
+  // الخصم على أجرة المشوار أو التوصيل فقط، وقيمة الوجبات لا يشملها الخصم
+  const getCouponContext = (breakdown: PriceBreakdown | null, restaurantId?: string, villageName?: string): CouponContext | null => breakdown ? {
+    category: selectedCategory,
+    restaurantId,
+    districtId: getVillageDistrictId(villageName || dropoffVillage?.name),
+    orderTotal: breakdown.total,
+    fare: breakdown.total - breakdown.itemsTotal
+  } : null;
+
+  const getCouponDiscount = (breakdown: PriceBreakdown | null) => {
+    const ctx = getCouponContext(breakdown);
+    return coupon && ctx && !getCouponError(coupon, ctx, 0) ? calculateCouponDiscount(coupon, ctx.fare) : 0;
+  };
+
+  const getPointsRedemption = (breakdown: PriceBreakdown | null, orderCoupon: Coupon | null = coupon, orderPoints: boolean = usePoints): AppliedPoints | null => {
+    const ctx = getCouponContext(breakdown);
+    return orderPoints && !orderCoupon && ctx ? getRedeemablePoints(user.loyaltyPoints || 0, ctx.fare, loyaltyRules) : null;
+  };
+
+  const getEstimatedPrice = () => {
+    const breakdown = getPriceBreakdown();
+    return breakdown ? breakdown.total - getCouponDiscount(breakdown) - (getPointsRedemption(breakdown)?.discount || 0) : 0;
   };
 
   useEffect(() => {
@@ -482,8 +712,7 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
     });
 
     return onSnapshot(query(collection(db, "orders"), where("customerId", "==", user.id)), (snapshot) => {
-      const all = snapshot.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) } as Order));
-      setActiveOrder(all.find(o => ![OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status)) || null);
+      setMyOrders(snapshot.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) } as Order)));
     });
   }, [user.id]);
 
@@ -495,38 +724,120 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
     }
   }, [activeOrder?.id, activeOrder?.status]);
 
+  // تحديث صلاحية العروض وإلغاء الطلب تلقائياً عند انتهاء مهلة الانتظار
+  useEffect(() => {
+    if (activeOrder?.status !== OrderStatus.WAITING_FOR_OFFERS && scheduledOrders.length === 0 && !activeOrder?.waitingStartedAt) return;
+    const timer = setInterval(() => setNow(Date.now()), activeOrder?.waitingStartedAt ? 10000 : 30000);
+    return () => clearInterval(timer);
+  }, [activeOrder?.status, scheduledOrders.length, activeOrder?.waitingStartedAt]);
+
+  useEffect(() => {
+    openOrders.filter(o => isReminderDue(o, now)).forEach(o => sendScheduledReminder(o).catch(e => console.error(e)));
+  }, [now, myOrders]);
+
+  useEffect(() => {
+    if (activeOrder && getOrderEscalation(activeOrder, now).level === 'EXPIRED') {
+      autoCancelStaleOrder(activeOrder).catch(e => console.error(e));
+    }
+  }, [now, activeOrder?.id, activeOrder?.status]);
+
+  const liveOffers = incomingOffers.filter(o => isOfferOpen(o, now));
+
   const handleAcceptOffer = async (offer: Offer) => {
-    if (!activeOrder) return;
+    if (!activeOrder || isSubmitting) return;
+    if (!isOfferOpen(offer)) {
+      alert('هذا العرض لم يعد متاحاً، يرجى اختيار عرض آخر');
+      return;
+    }
+    setIsSubmitting(true);
     try {
-      await updateDoc(doc(db, "orders", activeOrder.id), {
-        driverId: offer.driverId,
+      await assignOrderToDriver(activeOrder.id, offer.driverId, user, {
         driverName: offer.driverName,
         driverPhone: offer.driverPhone,
-        driverPhoto: offer.driverPhoto || null,
-        status: OrderStatus.ACCEPTED,
-        acceptedAt: Date.now(),
-        price: offer.price 
-      });
-    } catch (e) { alert('فشل قبول العرض'); }
+        driverPhoto: offer.driverPhoto || null
+      }, offer.id);
+    } catch (e) { alert(getTransitionErrorMessage(e, 'فشل قبول العرض')); } finally { setIsSubmitting(false); }
+  };
+
+  const handleCounterOffer = async (offer: Offer) => {
+    const price = parseFloat(counterValue);
+    if (!price || price >= offer.price || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await counterOffer(offer, price, user);
+      setCounterTarget(null);
+      setCounterValue('');
+    } catch (e) { alert('فشل إرسال السعر المقترح'); } finally { setIsSubmitting(false); }
+  };
+
+  const handleCancelOrder = async (reason: string) => {
+    if (!activeOrder) return;
+    setIsSubmitting(true);
+    try {
+      await updateOrderWithEvent(activeOrder, cancelOrder(activeOrder, 'CUSTOMER', user.id, reason), user);
+      setShowCancelModal(false);
+    } catch (e) { alert(getTransitionErrorMessage(e, 'فشل إلغاء الطلب')); } finally { setIsSubmitting(false); }
   };
 
-  const handleCreateOrder = async (extraData: any = {}) => {
+  const handleCreateOrder = async (extraData: any = {}, orderCoupon: Coupon | null = coupon, orderPoints: boolean = usePoints) => {
+    // موقع التسليم على الخريطة لا يحفظ كما هو، ويدخل في dropoff مع القرية
+    const { dropoffPin: deliveryVillagePin, ...orderExtras } = extraData;
     const finalVillage = extraData.deliveryVillage || dropoffVillage;
+    const finalPin: LatLng | null = extraData.deliveryVillage ? deliveryVillagePin || null : dropoffPin;
     if(!finalVillage) return alert('يرجى تحديد مكان التوصيل');
+    const scheduledFor = scheduleMode && !extraData.foodItems ? new Date(scheduledAt).getTime() : null;
+    if (scheduledFor !== null) {
+      const scheduleError = validateScheduledTime(scheduledFor);
+      if (scheduleError) return alert(scheduleError);
+    }
+    if (selectedCategory === 'PHARMACY') {
+      if (!orderPharmacy) return alert('لا توجد صيدلية شريكة مفتوحة الآن، يمكنك جدولة الطلب لوقت لاحق');
+      if (!isPharmacyOpen(orderPharmacy, pickupTime)) return alert(`${orderPharmacy.name} مغلقة في هذا الوقت (${formatPharmacyHours(orderPharmacy)})`);
+    }
     setIsSubmitting(true);
     try {
-      const finalPrice = extraData.price || getEstimatedPrice();
+      const priceBreakdown = extraData.priceBreakdown || getPriceBreakdown();
+      const couponContext = getCouponContext(priceBreakdown, extraData.restaurantId, finalVillage.name);
+      if (orderCoupon && couponContext) {
+        const couponError = getCouponError(orderCoupon, couponContext, 0);
+        if (couponError) return alert(couponError);
+      }
+      const appliedCoupon = orderCoupon && couponContext ? { couponId: orderCoupon.id, code: orderCoupon.code, discount: calculateCouponDiscount(orderCoupon, couponContext.fare) } : null;
+      const appliedPoints = getPointsRedemption(priceBreakdown, orderCoupon, orderPoints);
+      const finalPrice = (extraData.price || priceBreakdown?.total || 0) - (appliedCoupon?.discount || 0) - (appliedPoints?.discount || 0);
       
+      const stops = selectedCategory === 'TAXI' && pickupVillage && waypoints.length > 0 ? [
+        villageToStop(pickupVillage, 'PICKUP', pickupNote, pickupPin),
+        ...extraStops.filter(st => st.village).map(st => villageToStop(st.village!, 'STOP', st.note, st.pin)),
+        villageToStop(finalVillage, 'DROPOFF', dropoffNote, finalPin)
+      ] : null;
+
+      const orderRef = doc(collection(db, "orders"));
+      const pinCode = getDeliveryPinForCategory(selectedCategory);
+
       const orderData = {
+        scheduledFor,
+        isRoundTrip: selectedCategory === 'TAXI' && isRoundTrip,
+        ...(selectedCategory === 'TAXI' ? { waitingPricePerMinute: getZonePricing().waitingPricePerMinute } : {}),
+        ...(pinCode ? { requiresDeliveryPin: true } : {}),
+        priceBreakdown,
+        ...(stops ? { stops, currentStopIndex: 0 } : {}),
         customerId: user.id, customerPhone: user.phone, category: selectedCategory,
         status: OrderStatus.WAITING_FOR_OFFERS, createdAt: Date.now(), paymentMethod: 'CASH',
-        pickup: (selectedCategory === 'TAXI' && pickupVillage) ? { address: pickupVillage.name, lat: pickupVillage.center.lat, lng: pickupVillage.center.lng, villageName: pickupVillage.name } : (extraData.pickup || null),
-        dropoff: { address: finalVillage.name, lat: finalVillage.center.lat, lng: finalVillage.center.lng, villageName: finalVillage.name },
-        requestedVehicleType: selectedVehicle, price: finalPrice, distance: extraData.distance || actualRoadDist,
+        pickup: (selectedCategory === 'TAXI' && pickupVillage) ? toOrderLocation(pickupVillage, pickupPin)
+          : orderPharmacy ? { address: orderPharmacy.name, lat: orderPharmacy.lat, lng: orderPharmacy.lng, villageName: orderPharmacy.villageName }
+          : (extraData.pickup || null),
+        ...(orderPharmacy ? { pharmacyId: orderPharmacy.id, pharmacyName: orderPharmacy.name } : {}),
+        dropoff: toOrderLocation(finalVillage, finalPin),
+        requestedVehicleType: selectedVehicle, distance: extraData.distance || actualRoadDist,
         pickupNotes: selectedCategory === 'PHARMACY' ? medsList : (selectedCategory === 'TAXI' ? pickupNote : (extraData.customNote || '')),
         dropoffNotes: dropoffNote,
         prescriptionImage: prescriptionImg,
-        ...extraData
+        ...orderExtras,
+        // السعر بعد الخصم يطغى على سعر المطعم المرسل في extraData
+        price: finalPrice,
+        ...(appliedCoupon ? { appliedCoupon } : {}),
+        ...(appliedPoints ? { appliedPoints } : {})
       };
 
       // تحضير رسالة الواتساب مع التفاصيل الكاملة
@@ -543,31 +854,109 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
           }
       }
       
-      await addDoc(collection(db, "orders"), stripFirestore(orderData));
+      // كود التسليم يكتب مع الطلب في نفس المعاملة
+      const writeDeliveryPin = (writer: LedgerWriter) => { if (pinCode) postDeliveryPin(writer, orderRef.id, user.id, pinCode); };
+      if (orderCoupon && appliedCoupon) await placeOrderWithCoupon(orderRef, stripFirestore(orderData), orderCoupon, appliedCoupon.discount, user, writeDeliveryPin);
+      else if (appliedPoints) await placeOrderWithPoints(orderRef, stripFirestore(orderData), appliedPoints, user, writeDeliveryPin);
+      else {
+        const batch = writeBatch(db);
+        batch.set(orderRef, stripFirestore(orderData));
+        writeDeliveryPin(batch);
+        await batch.commit();
+      }
+      await logOrderEvent(orderRef.id, 'CREATED', user, { status: orderData.status, price: finalPrice, category: orderData.category });
       
-      const whatsappMsg = `🚀 *طلب جديد عبر وصلها*\n👤 *العميل:* ${user.name}\n📍 *المسار:* ${orderData.pickup?.villageName || 'موقعي'} ← ${finalVillage.name}\n💰 *السعر الإجمالي:* ${finalPrice} ج.م${foodDetailsMsg}\n\n_يرجى مراجعة التطبيق وتوجيه كابتن_`;
+      const whatsappMsg = `🚀 *طلب جديد عبر وصلها*\n👤 *العميل:* ${user.name}\n📍 *المسار:* ${stops ? stops.map(st => st.villageName).join(' ← ') : `${orderData.pickup?.villageName || 'موقعي'} ← ${finalVillage.name}`}${orderPharmacy ? `\n💊 *الصيدلية:* ${orderPharmacy.name}` : ''}\n💰 *السعر الإجمالي:* ${finalPrice} ج.م${orderData.isRoundTrip ? ' (ذهاب وعودة)' : ''}${appliedCoupon ? `\n🎟️ *كوبون:* ${appliedCoupon.code} (خصم ${appliedCoupon.discount} ج.م)` : ''}${appliedPoints ? `\n⭐ *نقاط:* ${appliedPoints.points} (خصم ${appliedPoints.discount} ج.م)` : ''}${scheduledFor ? `\n🗓️ *موعد الاستلام:* ${formatScheduledTime(scheduledFor)}` : ''}${foodDetailsMsg}\n\n_يرجى مراجعة التطبيق وتوجيه كابتن_`;
       
       window.open(`https://wa.me/${adminWhatsApp}?text=${encodeURIComponent(whatsappMsg)}`, '_blank');
       setPrescriptionImg(null); setMedsList(''); setShowCustomRestForm(false);
       setCustomRestName(''); setCustomRestOrder('');
-    } catch (e) { alert('خطأ في إرسال الطلب'); } finally { setIsSubmitting(false); }
+      setScheduleMode(false); setScheduledAt(''); setExtraStops([]); setIsRoundTrip(false); setCoupon(null); setUsePoints(false); setSelectedPharmacyId(null);
+    } catch (e) { alert(e instanceof CouponError || e instanceof LoyaltyError ? e.message : 'خطأ في إرسال الطلب'); } finally { setIsSubmitting(false); }
+  };
+
+  /**
+   * إعادة طلب سابق: تجهيز نفس المسار والمركبة والسلة بأسعار اليوم، ثم يؤكد العميل عبر مسار الطلب المعتاد
+   */
+  const handleReorder = (order: Order) => {
+    if (activeOrder) return alert('لديك طلب جارٍ بالفعل، يمكنك إعادة الطلب بعد انتهائه');
+    const dropoff = findVillageByName(order.dropoff?.villageName);
+    if (!dropoff) return alert('تعذر العثور على مكان التوصيل السابق، يرجى اختياره يدوياً');
+
+    setActiveView('NEW');
+    setSelectedCategory(order.category);
+    setSelectedVehicle(order.requestedVehicleType || 'MOTORCYCLE');
+    setDropoffDistrict(dropoff.district);
+    setDropoffVillage(dropoff.village);
+    setDropoffPin(getLocationPin(order.dropoff));
+    setDropoffNote(order.dropoffNotes || '');
+
+    if (order.category === 'FOOD') {
+      const pickup = findVillageByName(order.pickup?.villageName);
+      // طلبات المطاعم غير المسجلة تعود لنموذج الطلب اليدوي
+      if (!order.restaurantId) {
+        setCustomRestName(order.restaurantName || '');
+        setCustomRestOrder(order.pickupNotes || '');
+        setCustomRestPickupDistrict(pickup?.district || null);
+        setCustomRestPickupVillage(pickup?.village || null);
+        setShowCustomRestForm(true);
+        return;
+      }
+      const restaurant = restaurants.find(r => r.id === order.restaurantId);
+      if (!restaurant) return alert('هذا المطعم لم يعد متاحاً على التطبيق');
+      if (!restaurant.isOpen) return alert(`${restaurant.name} مغلق حالياً، حاول مرة أخرى لاحقاً`);
+      const rebuilt = rebuildCart(order.foodItems || [], restaurant);
+      if (rebuilt.cart.length === 0) return alert('الوجبات السابقة لم تعد متوفرة في قائمة المطعم');
+      const warning = getReorderWarning(rebuilt);
+      if (warning) alert(`تم تحديث طلبك حسب قائمة المطعم الحالية:\n${warning}`);
+      setReorderCart(rebuilt.cart);
+      setViewingRestaurant(restaurant);
+      return;
+    }
+
+    if (order.category === 'TAXI') {
+      const pickup = findVillageByName(order.pickup?.villageName);
+      setPickupDistrict(pickup?.district || null);
+      setPickupVillage(pickup?.village || null);
+      setPickupPin(pickup ? getLocationPin(order.pickup) : null);
+      setPickupNote(order.pickupNotes || '');
+      setIsRoundTrip(!!order.isRoundTrip);
+      setExtraStops((order.stops || []).filter(st => st.type === 'STOP').map(st => {
+        const found = findVillageByName(st.villageName);
+        return { district: found?.district || null, village: found?.village || null, pin: found ? getLocationPin(st) : null, note: st.notes || '' };
+      }));
+    }
+
+    if (order.category === 'PHARMACY') {
+      setMedsList(order.pickupNotes || '');
+      setSelectedPharmacyId(pharmacies.some(p => p.id === order.pharmacyId) ? order.pharmacyId! : null);
+    }
+  };
+
+  const handleCancelScheduled = async (order: Order) => {
+    if (!window.confirm('إلغاء هذا الموعد؟')) return;
+    try {
+      await updateOrderWithEvent(order, cancelOrder(order, 'CUSTOMER', user.id, 'إلغاء موعد مجدول'), user);
+    } catch (e) { alert(getTransitionErrorMessage(e, 'فشل إلغاء الموعد')); }
   };
 
   const handleRateOrder = async () => {
     if (!activeOrder) return;
     setIsSubmitting(true);
     try {
-      await updateDoc(doc(db, "orders", activeOrder.id), { 
-        status: OrderStatus.DELIVERED_RATED, 
+      // الإكرامية أولاً حتى لا يضيع المبلغ إذا فشل الدفع بعد حفظ التقييم
+      if (tipAmount > 0 && !activeOrder.tip) await payTip(activeOrder, user, tipAmount, tipMethod);
+      await updateOrderWithEvent(activeOrder, transitionOrder(activeOrder, OrderStatus.DELIVERED_RATED, 'CUSTOMER', { 
         rating, 
-        feedback: feedback.trim(), 
-        ratedAt: Date.now() 
-      });
+        feedback: feedback.trim()
+      }), user);
       setFeedback('');
       setRating(5);
+      setTipAmount(0);
+      setTipMethod('CASH');
       alert('شكراً لتقييمك! تم حفظ رأيك بنجاح.');
     } catch (e) {
-      alert('حدث خطأ أثناء حفظ التقييم');
+      alert(e instanceof TipError ? e.message : getTransitionErrorMessage(e, 'حدث خطأ أثناء حفظ التقييم'));
     } finally {
       setIsSubmitting(false);
     }
@@ -576,21 +965,31 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
   if (showChat && activeOrder) return <ChatView user={user} order={activeOrder} onBack={() => setShowChat(false)} />;
   if (activeView === 'WALLET') return <WalletView user={user} onBack={() => setActiveView('NEW')} />;
   if (activeView === 'PROFILE') return <ProfileView user={user} onUpdate={() => {}} onBack={() => setActiveView('NEW')} onOpenWallet={() => setActiveView('WALLET')} />;
-  if (activeView === 'ACTIVITY') return <ActivityView user={user} onBack={() => setActiveView('NEW')} />;
+  if (activeView === 'ACTIVITY') return <ActivityView user={user} onBack={() => setActiveView('NEW')} onReorder={handleReorder} />;
 
   return (
     <div className="rh-layout relative h-full w-full bg-slate-50 overflow-hidden">
       <AIAssistant isOpen={aiOpen} onClose={() => setAiOpen(false)} />
+      {showCancelModal && activeOrder && (
+        <CancelOrderModal order={activeOrder} role="CUSTOMER" isSubmitting={isSubmitting} onConfirm={handleCancelOrder} onClose={() => setShowCancelModal(false)} />
+      )}
       {viewingAd && <AdDetailsView ad={viewingAd} onClose={() => setViewingAd(null)} />}
       
       {viewingRestaurant && (
         <RestaurantMenuView 
           restaurant={viewingRestaurant} 
           initialDropoffVillage={dropoffVillage}
+          initialDropoffPin={dropoffPin}
           initialDistrict={dropoffDistrict}
           selectedVehicle={selectedVehicle}
-          onClose={() => setViewingRestaurant(null)} 
-          onConfirmOrder={(cart, foodTotal, deliveryTotal, grandTotal, distance, village, customNote) => {
+          initialCart={reorderCart}
+          pricingZones={pricingZones}
+          surge={getCurrentSurge(viewingRestaurant.address)}
+          userId={user.id}
+          pointsBalance={user.loyaltyPoints || 0}
+          loyaltyRules={loyaltyRules}
+          onClose={() => { setViewingRestaurant(null); setReorderCart(null); }} 
+          onConfirmOrder={(cart, foodTotal, deliveryTotal, grandTotal, distance, village, customNote, breakdown, menuCoupon, menuPoints, pin) => {
             handleCreateOrder({ 
               restaurantId: viewingRestaurant.id, 
               restaurantName: viewingRestaurant.name, 
@@ -598,10 +997,13 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
               price: grandTotal,
               distance: distance,
               deliveryVillage: village,
+              dropoffPin: pin,
               customNote: customNote,
+              priceBreakdown: breakdown,
               pickup: { address: viewingRestaurant.name, lat: viewingRestaurant.lat, lng: viewingRestaurant.lng, villageName: viewingRestaurant.address } 
-            });
+            }, menuCoupon, menuPoints);
             setViewingRestaurant(null);
+            setReorderCart(null);
           }} 
         />
       )}
@@ -650,6 +1052,7 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                     label="مكان التوصيل" helper="فين مكانك انت؟" icon={<CheckCircle2 />} iconBg="bg-rose-500" 
                     selectedDistrict={dropoffDistrict} selectedVillage={dropoffVillage} 
                     onSelectDistrict={setDropoffDistrict} onSelectVillage={setDropoffVillage} 
+                    pin={dropoffPin} onPinChange={setDropoffPin}
                     minimal 
                  />
               </div>
@@ -662,8 +1065,9 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                       customNote: customRestOrder,
                       restaurantName: customRestName,
                       deliveryVillage: dropoffVillage,
+                      dropoffPin: dropoffPin,
                       distance: 0 // سيتم حسابه لاحقاً أو تقديره من الكابتن
-                   });
+                   }, null);
                 }} 
                 disabled={isSubmitting}
                 className="w-full bg-emerald-600 text-white py-6 rounded-[2rem] font-black text-lg shadow-xl active:scale-95 transition-all"
@@ -688,6 +1092,21 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
 
               <AdsSlider ads={ads} onAdClick={(ad) => setViewingAd(ad)} />
 
+              {scheduledOrders.length > 0 && (
+                <div className="bg-indigo-50 p-6 rounded-[2.5rem] border border-indigo-100 space-y-3 animate-reveal">
+                   <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest text-right">مواعيدك القادمة</p>
+                   {scheduledOrders.map(o => (
+                     <div key={o.id} className="bg-white p-4 rounded-2xl flex justify-between items-center shadow-sm">
+                        <button onClick={() => handleCancelScheduled(o)} className="text-rose-500 font-black text-[10px] hover:underline">إلغاء</button>
+                        <div className="text-right">
+                           <p className="font-black text-slate-800 text-sm">{o.pickup?.villageName || 'موقعك'} ← {o.dropoff?.villageName}</p>
+                           <p className="text-[10px] font-bold text-slate-400">{formatScheduledTime(o.scheduledFor!)}</p>
+                        </div>
+                     </div>
+                   ))}
+                </div>
+              )}
+
               <div className="flex justify-center gap-4">
                   {[ 
                     { id: 'PHARMACY', label: 'صيدلية', icon: <Pill className="h-8 w-8" /> }, 
@@ -770,7 +1189,29 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                         </div>
                      </div>
 
-                     <LocationSelector label="مكان التوصيل" helper="أين ستستلم طلبك؟" icon={<CheckCircle2 />} iconBg="bg-rose-500" selectedDistrict={dropoffDistrict} selectedVillage={dropoffVillage} onSelectDistrict={setDropoffDistrict} onSelectVillage={setDropoffVillage} addressNote={dropoffNote} onAddressChange={setDropoffNote} />
+                     <LocationSelector label="مكان التوصيل" helper="أين ستستلم طلبك؟" icon={<CheckCircle2 />} iconBg="bg-rose-500" selectedDistrict={dropoffDistrict} selectedVillage={dropoffVillage} onSelectDistrict={setDropoffDistrict} onSelectVillage={setDropoffVillage} addressNote={dropoffNote} onAddressChange={setDropoffNote} pin={dropoffPin} onPinChange={setDropoffPin} />
+
+                     {dropoffVillage && (
+                        <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-3">
+                           <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-right px-2">الصيدلية</p>
+                           <button onClick={() => setSelectedPharmacyId(null)} className={`w-full p-4 rounded-2xl text-right font-black text-xs transition-all ${!selectedPharmacyId ? 'bg-emerald-50 text-emerald-700 ring-2 ring-emerald-500' : 'bg-slate-50 text-slate-500'}`}>
+                              أقرب صيدلية مفتوحة {!selectedPharmacyId && orderPharmacy ? `(${orderPharmacy.name})` : ''}
+                           </button>
+                           {sortPharmaciesByDistance(pharmacies, dropoffVillage).map(({ pharmacy, distance }) => {
+                              const open = isPharmacyOpen(pharmacy, pickupTime);
+                              return (
+                                 <button key={pharmacy.id} disabled={!open} onClick={() => setSelectedPharmacyId(pharmacy.id)} className={`w-full p-4 rounded-2xl flex justify-between items-center transition-all disabled:opacity-40 ${selectedPharmacyId === pharmacy.id ? 'bg-emerald-50 ring-2 ring-emerald-500' : 'bg-slate-50'}`}>
+                                    <span className={`text-[9px] font-black ${open ? 'text-emerald-600' : 'text-slate-400'}`}>{open ? `${distance} كم` : `مغلقة • ${formatPharmacyHours(pharmacy)}`}</span>
+                                    <div className="text-right">
+                                       <p className="font-black text-xs text-slate-800">{pharmacy.name}</p>
+                                       <p className="text-[9px] font-bold text-slate-400">{pharmacy.villageName}</p>
+                                    </div>
+                                 </button>
+                              );
+                           })}
+                           {!orderPharmacy && <p className="text-[10px] font-black text-rose-500 text-right px-2">لا توجد صيدلية شريكة مفتوحة في هذا الوقت، يمكنك جدولة الطلب لوقت لاحق</p>}
+                        </div>
+                     )}
                      
                      <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-4">
                         <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-right px-2">وسيلة التوصيل</p>
@@ -783,6 +1224,8 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                         </div>
                      </div>
 
+                     <SchedulePicker enabled={scheduleMode} value={scheduledAt} onToggle={setScheduleMode} onChange={setScheduledAt} />
+
                      {dropoffVillage && (
                         <div className="bg-emerald-50 p-6 rounded-[2.5rem] border-2 border-emerald-100 flex justify-between items-center animate-in zoom-in shadow-sm">
                            <div className="bg-white p-4 rounded-2xl shadow-sm border border-emerald-50">
@@ -794,21 +1237,41 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                               <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest leading-none">
                                  {isCalculatingDist ? 'جاري الحساب...' : `توصيل: ${actualRoadDist} كم`}
                               </p>
-                              <p className="text-[11px] font-bold text-slate-400 mt-1">سعر تقريبي للتوصيل</p>
+                              <p className="text-[11px] font-bold text-slate-400 mt-1">{orderPharmacy ? `من ${orderPharmacy.name}` : 'سعر تقريبي للتوصيل'}</p>
                            </div>
                         </div>
                      )}
 
-                     <button onClick={() => handleCreateOrder()} disabled={isSubmitting || !dropoffVillage || isCalculatingDist} className="w-full bg-slate-950 text-white py-7 rounded-[2.5rem] font-black text-xl shadow-2xl active:scale-95 transition-all">
+                     {!isCalculatingDist && <SurgeNotice breakdown={getPriceBreakdown()} />}
+
+                     {dropoffVillage && <CouponField userId={user.id} context={getCouponContext(getPriceBreakdown())} coupon={coupon} onChange={setCoupon} />}
+                     {dropoffVillage && <PointsField balance={user.loyaltyPoints || 0} rules={loyaltyRules} fare={getCouponContext(getPriceBreakdown())?.fare ?? null} hasCoupon={!!coupon} isApplied={usePoints} onChange={setUsePoints} />}
+
+                     <button onClick={() => handleCreateOrder()} disabled={isSubmitting || !dropoffVillage || !orderPharmacy || isCalculatingDist} className="w-full bg-slate-950 text-white py-7 rounded-[2.5rem] font-black text-xl shadow-2xl active:scale-95 transition-all disabled:opacity-30">
                         {isSubmitting ? <Loader2 className="animate-spin h-7 w-7 mx-auto" /> : 'إرسال طلب الصيدلية'}
                      </button>
                   </div>
                 ) : (
                   <>
                     {selectedCategory === 'TAXI' && (
-                      <LocationSelector label="نقطة الانطلاق" helper="موقع استلامك" icon={<MapPin />} iconBg="bg-emerald-500" selectedDistrict={pickupDistrict} selectedVillage={pickupVillage} onSelectDistrict={setPickupDistrict} onSelectVillage={setPickupVillage} addressNote={pickupNote} onAddressChange={setPickupNote} />
+                      <LocationSelector label="نقطة الانطلاق" helper="موقع استلامك" icon={<MapPin />} iconBg="bg-emerald-500" selectedDistrict={pickupDistrict} selectedVillage={pickupVillage} onSelectDistrict={setPickupDistrict} onSelectVillage={setPickupVillage} addressNote={pickupNote} onAddressChange={setPickupNote} pin={pickupPin} onPinChange={setPickupPin} />
+                    )}
+                    {selectedCategory === 'TAXI' && extraStops.map((stop, idx) => (
+                      <div key={idx} className="relative">
+                        <button onClick={() => setExtraStops(extraStops.filter((_, i) => i !== idx))} className="absolute top-4 left-4 z-10 p-2 bg-rose-50 text-rose-500 rounded-xl"><Trash2 className="h-4 w-4" /></button>
+                        <LocationSelector label={`محطة ${idx + 1}`} helper="توقف في الطريق" icon={<Milestone />} iconBg="bg-indigo-500" selectedDistrict={stop.district} selectedVillage={stop.village}
+                          onSelectDistrict={d => setExtraStops(prev => prev.map((st, i) => i === idx ? { ...st, district: d, village: null } : st))}
+                          onSelectVillage={v => setExtraStops(prev => prev.map((st, i) => i === idx ? { ...st, village: v } : st))}
+                          pin={stop.pin} onPinChange={pin => setExtraStops(prev => prev.map((st, i) => i === idx ? { ...st, pin } : st))}
+                          addressNote={stop.note} onAddressChange={val => setExtraStops(extraStops.map((st, i) => i === idx ? { ...st, note: val } : st))} />
+                      </div>
+                    ))}
+                    {selectedCategory === 'TAXI' && extraStops.length < 3 && (
+                      <button onClick={() => setExtraStops([...extraStops, { district: null, village: null, pin: null, note: '' }])} className="w-full py-4 rounded-[2rem] border-2 border-dashed border-indigo-200 text-indigo-600 font-black text-xs flex items-center justify-center gap-2 active:scale-95 transition-all">
+                        <PlusCircle className="h-4 w-4" /> إضافة محطة في الطريق
+                      </button>
                     )}
-                    <LocationSelector label="مكان التوصيل" helper="أين ستستلم طلبك؟" icon={<CheckCircle2 />} iconBg="bg-rose-500" selectedDistrict={dropoffDistrict} selectedVillage={dropoffVillage} onSelectDistrict={setDropoffDistrict} onSelectVillage={setDropoffVillage} addressNote={dropoffNote} onAddressChange={setDropoffNote} />
+                    <LocationSelector label="مكان التوصيل" helper="أين ستستلم طلبك؟" icon={<CheckCircle2 />} iconBg="bg-rose-500" selectedDistrict={dropoffDistrict} selectedVillage={dropoffVillage} onSelectDistrict={setDropoffDistrict} onSelectVillage={setDropoffVillage} addressNote={dropoffNote} onAddressChange={setDropoffNote} pin={dropoffPin} onPinChange={setDropoffPin} />
                     
                     <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-4">
                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-right px-2">اختر وسيلة التوصيل</p>
@@ -821,6 +1284,15 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                        </div>
                     </div>
 
+                    {selectedCategory === 'TAXI' && (
+                      <button onClick={() => setIsRoundTrip(!isRoundTrip)} className={`w-full p-5 rounded-[2rem] flex justify-between items-center border-4 transition-all ${isRoundTrip ? 'bg-indigo-50 border-indigo-500 text-indigo-600' : 'bg-white border-transparent text-slate-400 card-shadow'}`}>
+                        <span className="text-[10px] font-bold">{isRoundTrip ? `العودة: ${getPriceBreakdown(true)?.returnLeg || 0} ج.م إضافية` : 'الكابتن ينتظرك ويعيدك'}</span>
+                        <span className="font-black text-sm">ذهاب وعودة</span>
+                      </button>
+                    )}
+
+                    <SchedulePicker enabled={scheduleMode} value={scheduledAt} onToggle={setScheduleMode} onChange={setScheduledAt} />
+
                     {dropoffVillage && (
                        <div className="bg-emerald-50 p-6 rounded-[2.5rem] border-2 border-emerald-100 flex justify-between items-center animate-in zoom-in shadow-sm">
                           <div className="bg-white p-4 rounded-2xl shadow-sm border border-emerald-50">
@@ -832,13 +1304,18 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                              <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest leading-none">
                                 {isCalculatingDist ? 'جاري حساب مسافة الطريق...' : `مسافة الطريق: ${actualRoadDist} كم`}
                              </p>
-                             <p className="text-[11px] font-bold text-slate-400 mt-1">سعر الكيلومتر: {DEFAULT_PRICING.pricePerKm} جنيه</p>
+                             <p className="text-[11px] font-bold text-slate-400 mt-1">سعر الكيلومتر: {getZonePricing().pricePerKm} جنيه</p>
                           </div>
                        </div>
                     )}
 
+                    {!isCalculatingDist && <SurgeNotice breakdown={getPriceBreakdown()} />}
+
+                    {dropoffVillage && <CouponField userId={user.id} context={getCouponContext(getPriceBreakdown())} coupon={coupon} onChange={setCoupon} />}
+                    {dropoffVillage && <PointsField balance={user.loyaltyPoints || 0} rules={loyaltyRules} fare={getCouponContext(getPriceBreakdown())?.fare ?? null} hasCoupon={!!coupon} isApplied={usePoints} onChange={setUsePoints} />}
+
                     <button onClick={() => handleCreateOrder()} disabled={isSubmitting || !dropoffVillage || isCalculatingDist} className="w-full bg-slate-950 text-white py-7 rounded-[2.5rem] font-black text-xl shadow-2xl active:scale-95 transition-all">
-                       {isSubmitting ? <Loader2 className="animate-spin h-7 w-7 mx-auto" /> : 'إرسال طلب التوصيل الآن'}
+                       {isSubmitting ? <Loader2 className="animate-spin h-7 w-7 mx-auto" /> : (scheduleMode ? 'حجز الموعد' : 'إرسال طلب التوصيل الآن')}
                     </button>
                   </>
                 )}
@@ -854,25 +1331,54 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                     <div className="space-y-2">
                        <h2 className="text-3xl font-black text-slate-900 tracking-tighter">جاري البحث عن كباتن متاحين...</h2>
                        <p className="text-xs font-bold text-slate-400">ستظهر العروض في الأسفل خلال لحظات</p>
+                       {getOrderEscalation(activeOrder, now).level === 'FLAGGED' && (
+                         <p className="text-[10px] font-black text-amber-600">لم تصل عروض بعد، سيتم إلغاء الطلب تلقائياً خلال {getOrderEscalation(activeOrder, now).minutesToCancel} دقيقة</p>
+                       )}
                     </div>
 
                     <div className="space-y-4">
-                       {incomingOffers.map(offer => (
-                         <div key={offer.id} className="bg-white p-6 rounded-[2.5rem] card-shadow flex justify-between items-center animate-in zoom-in border-2 border-emerald-50 hover:border-emerald-500 transition-all">
-                            <button onClick={() => handleAcceptOffer(offer)} className="bg-emerald-600 text-white px-8 py-3 rounded-2xl font-black text-xs shadow-lg active:scale-95 transition-all">قبول {offer.price} ج.م</button>
+                       {liveOffers.map(offer => (
+                         <div key={offer.id} className="bg-white p-6 rounded-[2.5rem] card-shadow space-y-4 animate-in zoom-in border-2 border-emerald-50 hover:border-emerald-500 transition-all">
+                          <div className="flex justify-between items-center">
+                            <div className="flex flex-col gap-2 items-start">
+                               <button onClick={() => handleAcceptOffer(offer)} className="bg-emerald-600 text-white px-8 py-3 rounded-2xl font-black text-xs shadow-lg active:scale-95 transition-all">قبول {getCustomerPrice(activeOrder, offer.price)} ج.م</button>
+                               {getOrderDiscount(activeOrder) > 0 && <span className="text-[9px] font-black text-slate-400 line-through">{offer.price} ج.م</span>}
+                               {offer.counterStatus === 'PENDING' ? (
+                                  <span className="text-[9px] font-black text-amber-600">بانتظار رد الكابتن على {offer.counterPrice} ج.م</span>
+                               ) : offer.counterStatus === 'ACCEPTED' ? (
+                                  <span className="text-[9px] font-black text-emerald-600">وافق الكابتن على سعرك</span>
+                               ) : offer.counterStatus === 'DECLINED' ? (
+                                  <span className="text-[9px] font-black text-rose-500">رفض الكابتن السعر المقترح</span>
+                               ) : (
+                                  <button onClick={() => { setCounterTarget(offer.id); setCounterValue(''); }} className="text-[10px] font-black text-slate-400 hover:text-emerald-600">اقترح سعرك</button>
+                               )}
+                            </div>
                             <div className="text-right">
                                <p className="font-black text-slate-900">{offer.driverName}</p>
                                <div className="flex items-center gap-1 justify-end"><span className="text-[10px] font-black text-amber-500">{offer.driverRating || '5.0'}</span><Star className="h-3 w-3 fill-amber-400 text-amber-400" /></div>
+                               <p className="text-[9px] font-bold text-slate-400 flex items-center gap-1 justify-end"><Timer className="h-3 w-3" /> ينتهي العرض خلال {getOfferMinutesLeft(offer, now)} د</p>
+                            </div>
+                          </div>
+                          {isOutlierOffer(offer) && (
+                            <p className="bg-amber-50 text-amber-700 p-3 rounded-2xl text-[10px] font-black text-right">هذا العرض أعلى بكثير من السعر التقديري ({offer.estimate} ج.م)، يمكنك اقتراح سعرك أو انتظار عروض أخرى</p>
+                          )}
+                          {counterTarget === offer.id && (
+                            <div className="flex gap-2 animate-in fade-in">
+                               <button onClick={() => setCounterTarget(null)} className="px-4 rounded-2xl bg-slate-50 text-slate-400"><X className="h-4 w-4" /></button>
+                               <button onClick={() => handleCounterOffer(offer)} disabled={isSubmitting || !counterValue || parseFloat(counterValue) >= offer.price} className="px-6 rounded-2xl bg-slate-950 text-white font-black text-xs disabled:opacity-30">إرسال</button>
+                               <input autoFocus type="number" value={counterValue} onChange={e => setCounterValue(e.target.value)} placeholder={`أقل من ${offer.price}`} className="flex-1 bg-slate-50 rounded-2xl p-4 font-black text-center outline-none" />
                             </div>
+                          )}
                          </div>
                        ))}
                     </div>
-                    <button onClick={() => updateDoc(doc(db, "orders", activeOrder.id), { status: OrderStatus.CANCELLED })} className="text-rose-500 font-black text-xs uppercase hover:underline tracking-widest mt-8">إلغاء الطلب</button>
+                    <button onClick={() => setShowCancelModal(true)} className="text-rose-500 font-black text-xs uppercase hover:underline tracking-widest mt-8">إلغاء الطلب</button>
                  </div>
                ) : activeOrder.status === OrderStatus.DELIVERED ? (
                  <div className="animate-in zoom-in space-y-8 text-center bg-white p-10 rounded-[4rem] shadow-2xl border-4 border-emerald-500/10">
                     <PartyPopper className="h-20 w-20 text-emerald-500 mx-auto animate-bounce" />
                     <h2 className="text-3xl font-black text-slate-900 tracking-tighter">الحمد لله على السلامة!</h2>
+                    {!!activeOrder.waitingSeconds && <FareSummary order={activeOrder} now={now} />}
                     <div className="bg-slate-50 p-8 rounded-[3.5rem] space-y-8 shadow-inner">
                        <div className="space-y-2">
                           <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-4 block">قيم تجربتك مع الكابتن {activeOrder.driverName}</p>
@@ -897,10 +1403,39 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                          className="w-full bg-white border-2 border-slate-100 rounded-[2rem] p-6 font-bold text-sm outline-none text-right shadow-sm focus:border-emerald-500 transition-all" 
                          dir="rtl" 
                        />
+                       {activeOrder.tip ? (
+                         <p className="text-xs font-black text-emerald-600">تم إرسال إكرامية {activeOrder.tip.amount} ج.م للكابتن، شكراً لك</p>
+                       ) : (
+                         <div className="space-y-4 text-right" dir="rtl">
+                            <p className="text-[10px] font-black text-slate-400 px-2">إكرامية للكابتن (اختياري) - تذهب له كاملة</p>
+                            <div className="grid grid-cols-4 gap-2">
+                               {TIP_CONFIG.presets.map(amount => (
+                                 <button key={amount} type="button" onClick={() => setTipAmount(tipAmount === amount ? 0 : amount)} className={`py-3 rounded-2xl font-black text-sm transition-all active:scale-95 ${tipAmount === amount ? 'bg-emerald-500 text-white shadow-lg' : 'bg-white text-slate-500 border-2 border-slate-100'}`}>{amount} ج.م</button>
+                               ))}
+                               <input 
+                                 type="number" 
+                                 min={0} 
+                                 max={TIP_CONFIG.maxAmount} 
+                                 value={tipAmount && !TIP_CONFIG.presets.includes(tipAmount) ? tipAmount : ''} 
+                                 onChange={e => setTipAmount(Math.max(0, parseInt(e.target.value) || 0))} 
+                                 placeholder="مبلغ آخر" 
+                                 className="w-full bg-white border-2 border-slate-100 rounded-2xl px-2 font-black text-xs text-center outline-none focus:border-emerald-500" 
+                               />
+                            </div>
+                            {tipAmount > 0 && (
+                              <div className="grid grid-cols-2 gap-2 animate-in fade-in">
+                                 <button type="button" onClick={() => setTipMethod('CASH')} className={`py-3 rounded-2xl font-black text-xs flex items-center justify-center gap-2 transition-all ${tipMethod === 'CASH' ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border-2 border-slate-100'}`}><Banknote className="h-4 w-4" /> سلمتها نقداً</button>
+                                 <button type="button" onClick={() => setTipMethod('WALLET')} className={`py-3 rounded-2xl font-black text-xs flex items-center justify-center gap-2 transition-all ${tipMethod === 'WALLET' ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border-2 border-slate-100'}`}><Wallet className="h-4 w-4" /> من المحفظة ({user.wallet?.balance || 0} ج.م)</button>
+                              </div>
+                            )}
+                            {tipAmount > 0 && validateTipAmount(tipAmount) && <p className="text-[10px] font-black text-rose-500 px-2">{validateTipAmount(tipAmount)}</p>}
+                            {tipAmount > 0 && tipMethod === 'WALLET' && (user.wallet?.balance || 0) < tipAmount && <p className="text-[10px] font-black text-rose-500 px-2">رصيد المحفظة لا يكفي</p>}
+                         </div>
+                       )}
                     </div>
                     <button 
                       onClick={handleRateOrder} 
-                      disabled={isSubmitting}
+                      disabled={isSubmitting || (tipAmount > 0 && !activeOrder.tip && !!validateTipAmount(tipAmount))}
                       className="w-full bg-[#10b981] text-white py-7 rounded-[3rem] font-black text-2xl shadow-2xl flex items-center justify-center gap-4 active:scale-95 transition-all shadow-emerald-900/10"
                     >
                        {isSubmitting ? <Loader2 className="h-8 w-8 animate-spin" /> : <><ThumbsUp className="h-8 w-8" /> تأكيد التقييم</>}
@@ -908,10 +1443,17 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                  </div>
                ) : (
                  <div className="space-y-8 animate-reveal">
-                    <div className="bg-emerald-600 p-8 rounded-[3rem] text-white flex justify-between items-center shadow-xl">
-                       <div className="text-right"><p className="text-xs font-black opacity-60 uppercase mb-1">تتبع الرحلة</p><h3 className="text-2xl font-black">{activeOrder.status}</h3></div>
-                       <div className="bg-white/20 p-4 rounded-2xl"><Navigation className="h-8 w-8 animate-bounce" /></div>
-                    </div>
+                    <TrackingBanner order={activeOrder} now={now} />
+                    {(activeOrder.waitingStartedAt || !!activeOrder.waitingSeconds) && <FareSummary order={activeOrder} now={now} />}
+                    {deliveryCode && (
+                       <div className="bg-slate-950 p-6 rounded-[2.5rem] flex justify-between items-center shadow-xl">
+                          <p className="text-3xl font-black text-emerald-400 tracking-[0.4em] font-mono" dir="ltr">{deliveryCode}</p>
+                          <div className="text-right">
+                             <p className="font-black text-white text-sm">كود التسليم</p>
+                             <p className="text-[10px] font-bold text-slate-400">أعطه للكابتن فقط عند استلامك الطلب</p>
+                          </div>
+                       </div>
+                    )}
                     <div className="flex flex-col items-center gap-6">
                        <div className="w-32 h-32 bg-white rounded-[3rem] shadow-2xl border-8 border-slate-100 flex items-center justify-center overflow-hidden relative">
                           {activeOrder.driverPhoto ? <img src={activeOrder.driverPhoto} className="w-full h-full object-cover" /> : (activeOrder.driverName || 'ك')[0]}
@@ -922,6 +1464,9 @@ const CustomerDashboard: React.FC<{ user: User }> = ({ user }) => {
                        <a href={`tel:${activeOrder.driverPhone}`} className="bg-slate-950 text-white py-6 rounded-3xl font-black flex items-center justify-center gap-3 shadow-xl active:scale-95"><PhoneCall className="h-6 w-6" /> اتصال</a>
                        <button onClick={() => setShowChat(true)} className="bg-white border-2 border-slate-100 text-slate-900 py-6 rounded-3xl font-black flex items-center justify-center gap-3 active:scale-95 shadow-sm"><MessageCircle className="h-6 w-6" /> دردشة</button>
                     </div>
+                    {getCancellationPolicy(activeOrder, 'CUSTOMER').allowed && (
+                       <button onClick={() => setShowCancelModal(true)} className="w-full text-rose-500 font-black text-xs uppercase hover:underline tracking-widest">إلغاء الطلب</button>
+                    )}
                  </div>
                )}
             </div>
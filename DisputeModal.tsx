@@ -0,0 +1,77 @@
+import React, { useState, useRef } from 'react';
+import type { Order, DisputeCategory } from '../types';
+import { DISPUTE_CONFIG } from '../config/constants';
+import { compressImage } from '../utils';
+import { DISPUTE_CATEGORY_LABELS } from '../disputes';
+import { LifeBuoy, Loader2, Check, Camera, X } from 'lucide-react';
+
+const DisputeModal: React.FC<{
+  order: Order,
+  isSubmitting: boolean,
+  onConfirm: (input: { category: DisputeCategory, description: string, photos: string[] }) => void,
+  onClose: () => void
+}> = ({ order, isSubmitting, onConfirm, onClose }) => {
+  const [category, setCategory] = useState<DisputeCategory | null>(null);
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const photoRef = useRef<HTMLInputElement>(null);
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      const compressed = await compressImage(reader.result as string);
+      setPhotos(prev => [...prev, compressed].slice(0, DISPUTE_CONFIG.maxPhotos));
+    };
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-slate-950/60 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in" dir="rtl">
+      <div className="bg-white w-full max-w-sm rounded-[3rem] p-8 space-y-6 shadow-2xl animate-in zoom-in border border-slate-100 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="text-center space-y-3">
+          <div className="bg-amber-50 w-20 h-20 rounded-[2.2rem] flex items-center justify-center mx-auto text-amber-500 shadow-inner">
+            <LifeBuoy className="h-10 w-10" />
+          </div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tighter">الإبلاغ عن مشكلة</h3>
+          <p className="text-[10px] font-bold text-slate-400 leading-relaxed px-4">طلب #{order.id.slice(-6)} بقيمة {order.price} ج.م، ستراجع الإدارة شكواك وترد عليك.</p>
+        </div>
+
+        <div className="space-y-2">
+          {(Object.keys(DISPUTE_CATEGORY_LABELS) as DisputeCategory[]).map(c => (
+            <button key={c} type="button" onClick={() => setCategory(c)} className={`w-full p-4 rounded-2xl text-right text-xs font-black flex justify-between items-center border-2 transition-all ${category === c ? 'bg-amber-50 border-amber-500 text-amber-700' : 'bg-slate-50 border-transparent text-slate-600'}`}>
+              {DISPUTE_CATEGORY_LABELS[c]}
+              {category === c && <Check className="h-4 w-4" />}
+            </button>
+          ))}
+        </div>
+
+        <textarea value={description} onChange={e => setDescription(e.target.value)} placeholder="اشرح المشكلة بالتفصيل..." className="w-full bg-slate-50 rounded-2xl p-5 font-bold text-xs text-right outline-none min-h-[100px] resize-none" />
+
+        <div className="flex gap-2 flex-wrap">
+          {photos.map((photo, idx) => (
+            <div key={idx} className="relative w-16 h-16 rounded-2xl overflow-hidden">
+              <img src={photo} className="w-full h-full object-cover" />
+              <button type="button" onClick={() => setPhotos(prev => prev.filter((_, i) => i !== idx))} className="absolute top-0.5 left-0.5 bg-black/50 text-white rounded-full p-0.5"><X className="h-3 w-3" /></button>
+            </div>
+          ))}
+          {photos.length < DISPUTE_CONFIG.maxPhotos && (
+            <button type="button" onClick={() => photoRef.current?.click()} className="w-16 h-16 rounded-2xl border-2 border-dashed border-slate-200 flex items-center justify-center text-slate-300"><Camera className="h-6 w-6" /></button>
+          )}
+          <input type="file" ref={photoRef} className="hidden" accept="image/*" onChange={handlePhoto} />
+        </div>
+
+        <div className="flex flex-col gap-2.5">
+          <button onClick={() => category && onConfirm({ category, description, photos })} disabled={!category || !description.trim() || isSubmitting} className="w-full bg-amber-500 text-white py-4 rounded-2xl font-black shadow-xl active:scale-95 transition-all disabled:opacity-30">
+            {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'إرسال الشكوى'}
+          </button>
+          <button onClick={onClose} className="w-full bg-slate-50 text-slate-400 py-3.5 rounded-2xl font-black active:scale-95 transition-all">تراجع</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DisputeModal;
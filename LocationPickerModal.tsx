@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import type { District, LatLng } from '../types';
+import { LOCATION_PIN_CONFIG, MENOFIA_DATA } from '../config/constants';
+import { findNearestVillage, getCurrentPosition, subscribeToGeoDistricts, LocationPinError, VillageMatch } from '../locationPins';
+import { X, Crosshair, Loader2, MapPin, CheckCircle2 } from 'lucide-react';
+
+const pinIcon = L.divIcon({
+  html: `<div class="text-4xl drop-shadow-xl">📍</div>`,
+  className: 'custom-pin-icon',
+  iconSize: [40, 40],
+  iconAnchor: [20, 38]
+});
+
+// الضغط على الخريطة ينقل الدبوس، والتحريك للموقع الجديد عند استخدام GPS
+const MapPinControl: React.FC<{ point: LatLng | null, flyTo: LatLng | null, onPick: (point: LatLng) => void }> = ({ point, flyTo, onPick }) => {
+  const map = useMap();
+  useMapEvents({ click: (e) => onPick({ lat: e.latlng.lat, lng: e.latlng.lng }) });
+  useEffect(() => {
+    if (flyTo) map.flyTo([flyTo.lat, flyTo.lng], LOCATION_PIN_CONFIG.zoom);
+  }, [flyTo, map]);
+  if (!point) return null;
+  return (
+    <Marker
+      position={[point.lat, point.lng]}
+      icon={pinIcon}
+      draggable
+      eventHandlers={{ dragend: (e) => { const p = (e.target as L.Marker).getLatLng(); onPick({ lat: p.lat, lng: p.lng }); } }}
+    />
+  );
+};
+
+const LocationPickerModal: React.FC<{
+  title: string,
+  initial: LatLng | null,
+  center?: LatLng | null,
+  onConfirm: (pin: LatLng, match: VillageMatch) => void,
+  onClose: () => void
+}> = ({ title, initial, center, onConfirm, onClose }) => {
+  const [point, setPoint] = useState<LatLng | null>(initial);
+  const [flyTo, setFlyTo] = useState<LatLng | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [districts, setDistricts] = useState<District[]>(MENOFIA_DATA);
+
+  // القرى التي أضافتها الإدارة تُكتشف من الدبوس أيضاً
+  useEffect(() => subscribeToGeoDistricts(setDistricts), []);
+
+  const match = point ? findNearestVillage(point, LOCATION_PIN_CONFIG.maxVillageDistanceKm, districts) : null;
+  // الخريطة تفتح على الدبوس السابق أو مركز القرية المختارة
+  const mapCenter = initial || center || LOCATION_PIN_CONFIG.defaultCenter;
+
+  const handleUseMyLocation = async () => {
+    setIsLocating(true);
+    setError(null);
+    try {
+      const position = await getCurrentPosition();
+      setPoint(position);
+      setFlyTo(position);
+    } catch (e) {
+      setError(e instanceof LocationPinError ? e.message : 'تعذر تحديد موقعك');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[7000] bg-slate-950/60 backdrop-blur-md flex items-end md:items-center justify-center animate-in fade-in" dir="rtl">
+      <div className="bg-white w-full max-w-xl rounded-t-[3rem] md:rounded-[3rem] overflow-hidden shadow-2xl animate-in slide-in-from-bottom">
+        <div className="p-6 flex justify-between items-center">
+          <div className="text-right">
+            <h3 className="font-black text-xl text-slate-900">{title}</h3>
+            <p className="text-[10px] font-bold text-slate-400 mt-0.5">اضغط على الخريطة أو اسحب الدبوس لباب المنزل</p>
+          </div>
+          <button onClick={onClose} className="p-3 bg-slate-100 rounded-2xl text-slate-400"><X className="h-5 w-5" /></button>
+        </div>
+
+        <div className="relative h-[50vh]">
+          <MapContainer center={[mapCenter.lat, mapCenter.lng]} zoom={initial || center ? LOCATION_PIN_CONFIG.zoom : 12} zoomControl={false} className="w-full h-full">
+            <TileLayer url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png" />
+            <MapPinControl point={point} flyTo={flyTo} onPick={(p) => { setPoint(p); setError(null); }} />
+          </MapContainer>
+          <button onClick={handleUseMyLocation} disabled={isLocating} className="absolute bottom-4 left-4 z-[1000] bg-white px-5 py-3 rounded-2xl shadow-xl font-black text-xs text-slate-700 flex items-center gap-2 active:scale-95 transition-all">
+            {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4 text-blue-500" />} موقعي الحالي
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && <p className="text-[10px] font-black text-rose-500">{error}</p>}
+          {point && (match ? (
+            <p className="bg-emerald-50 text-emerald-700 p-4 rounded-2xl text-xs font-black flex items-center gap-2"><MapPin className="h-4 w-4 shrink-0" /> {match.village.name} • مركز {match.district.name}</p>
+          ) : (
+            <p className="bg-rose-50 text-rose-600 p-4 rounded-2xl text-xs font-black">هذا الموقع خارج نطاق القرى التي نخدمها</p>
+          ))}
+          <button onClick={() => point && match && onConfirm(point, match)} disabled={!point || !match} className="w-full bg-slate-950 text-white py-5 rounded-[2rem] font-black text-sm flex items-center justify-center gap-2 active:scale-95 transition-all disabled:opacity-30">
+            <CheckCircle2 className="h-5 w-5" /> تأكيد الموقع
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPickerModal;
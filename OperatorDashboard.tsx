@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 
 // Types
-import type { User, Order } from '/types';
+import type { User, Order, SurgeRule } from '/types';
 import { OrderStatus } from '/types';
 import { District, MENOFIA_DATA } from '/constants';
 
@@ -15,6 +15,20 @@ import {
 
 // Utils
 import { stripFirestore } from '/utils';
+import { transitionOrder, getTransitionErrorMessage } from '/orderLifecycle';
+import { updateOrderWithEvent } from '/orderEvents';
+import { getOrderEscalation, autoCancelStaleOrder } from '/orderEscalation';
+import { assignOrderToDriver } from '/orderAssignment';
+import { getJobCapacity, isStackable } from '/jobQueue';
+import { PROOF_METHOD_LABELS } from '/proofOfDelivery';
+import { PRICING_RULE_LABELS } from '/pricing';
+import { getCustomerPrice } from '/orderSettlement';
+import { getPickupWaitingStatus } from '/tripExtras';
+import { isUpcomingScheduledOrder, formatScheduledTime, isReminderDue, sendScheduledReminder } from '/orderScheduling';
+import { subscribeToSurgeRules, subscribeToDemand, needsDemandData, publishDemand, DemandSnapshot } from '/surgePricing';
+
+// Components
+import OrderTimeline from '/components/OrderTimeline';
 
 // Icons
 import { 
@@ -65,6 +79,28 @@ const OrderDetailsModal: React.FC<{ order: Order, onClose: () => void }> = ({ or
                 </div>
              </div>
 
+             {/* Cancellation Details */}
+             {order.status === OrderStatus.CANCELLED && (
+                <div className="bg-rose-50 p-6 rounded-[2.5rem] border border-rose-100 space-y-2 text-right">
+                   <div className="flex items-center gap-3 flex-row-reverse">
+                      <XCircle className="h-5 w-5 text-rose-500" />
+                      <h4 className="font-black text-rose-700 text-sm">سبب الإلغاء</h4>
+                   </div>
+                   <p className="font-black text-slate-800 text-sm">{order.cancellationReason || 'لم يحدد سبب'}</p>
+                   <p className="text-[10px] font-bold text-rose-400">
+                      بواسطة: {order.cancelledBy === 'DRIVER' ? 'الكابتن' : order.cancelledBy === 'CUSTOMER' ? 'العميل' : order.cancelledBy === 'SYSTEM' ? 'النظام (انتهاء المهلة)' : 'الإدارة'}
+                      {order.cancelledAt ? ` • ${new Date(order.cancelledAt).toLocaleTimeString('ar-EG')}` : ''}
+                      {order.cancellationFee ? ` • رسوم إلغاء ${order.cancellationFee} ج.م` : ''}{order.cancellationFeeOwed ? ` (${order.cancellationFeeOwed} ج.م مستحقة على العميل)` : ''}
+                   </p>
+                </div>
+             )}
+             {order.releaseReason && (
+                <div className="bg-amber-50 p-5 rounded-[2rem] border border-amber-100 text-right">
+                   <p className="text-[9px] font-black text-amber-600 uppercase mb-1">اعتذار كابتن سابق</p>
+                   <p className="font-black text-slate-800 text-xs">{order.releaseReason}</p>
+                </div>
+             )}
+
              {/* Food Items Details */}
              {order.category === 'FOOD' && order.foodItems && (
                 <div className="bg-white p-6 rounded-[2.5rem] border border-emerald-100 shadow-sm space-y-4">
@@ -143,6 +179,61 @@ const OrderDetailsModal: React.FC<{ order: Order, onClose: () => void }> = ({ or
                    </div>
                 </div>
              </div>
+
+             {/* Price Breakdown */}
+             {order.priceBreakdown && (
+                <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-3 text-right">
+                   <div className="flex justify-between items-center flex-row-reverse">
+                      <h4 className="font-black text-slate-800 text-sm">تفصيل السعر</h4>
+                      <span className="text-[9px] font-black bg-slate-100 text-slate-500 px-3 py-1 rounded-lg">{PRICING_RULE_LABELS[order.priceBreakdown.rule]}</span>
+                   </div>
+                   <div className="space-y-1.5 text-[10px] font-bold text-slate-500">
+                      {order.priceBreakdown.base > 0 && <p className="flex justify-between flex-row-reverse"><span>السعر الأساسي</span><span>{order.priceBreakdown.base} ج.م</span></p>}
+                      {order.priceBreakdown.distanceCharge > 0 && <p className="flex justify-between flex-row-reverse"><span>{order.priceBreakdown.distanceKm.toFixed(1)} كم × {order.priceBreakdown.pricePerKm}</span><span>{order.priceBreakdown.distanceCharge} ج.م</span></p>}
+                      {order.priceBreakdown.multiplier !== 1 && <p className="flex justify-between flex-row-reverse"><span>معامل المركبة</span><span>× {order.priceBreakdown.multiplier}</span></p>}
+                      {order.priceBreakdown.minApplied && <p className="text-amber-600">تم تطبيق الحد الأدنى للسعر</p>}
+                      {order.priceBreakdown.maxApplied && <p className="text-amber-600">تم تطبيق الحد الأقصى للسعر</p>}
+                      {order.priceBreakdown.surgeCharge > 0 && <p className="flex justify-between flex-row-reverse text-amber-600"><span>ذروة × {order.priceBreakdown.surgeMultiplier} ({order.priceBreakdown.surgeReasons.join('، ')})</span><span>{order.priceBreakdown.surgeCharge} ج.م</span></p>}
+                      {order.priceBreakdown.returnLeg > 0 && <p className="flex justify-between flex-row-reverse"><span>رحلة العودة</span><span>{order.priceBreakdown.returnLeg} ج.م</span></p>}
+                      {order.priceBreakdown.itemsTotal > 0 && <p className="flex justify-between flex-row-reverse"><span>قيمة الوجبات</span><span>{order.priceBreakdown.itemsTotal} ج.م</span></p>}
+                      {order.appliedCoupon && <p className="flex justify-between flex-row-reverse text-emerald-600"><span>كوبون {order.appliedCoupon.code}</span><span>- {order.appliedCoupon.discount} ج.م</span></p>}
+                      {order.appliedPoints && <p className="flex justify-between flex-row-reverse text-amber-600"><span>نقاط ({order.appliedPoints.points})</span><span>- {order.appliedPoints.discount} ج.م</span></p>}
+                   </div>
+                   <p className="flex justify-between flex-row-reverse font-black text-slate-900 text-sm border-t border-slate-50 pt-3"><span>التقدير</span><span>{getCustomerPrice(order, order.priceBreakdown.total)} ج.م</span></p>
+                </div>
+             )}
+
+             {order.flaggedOffer && (
+                <div className="bg-rose-50 p-5 rounded-[2rem] text-right space-y-1">
+                   <p className="text-[10px] font-black text-rose-700">عرض مرتفع عن التقدير</p>
+                   <p className="text-xs font-bold text-rose-600">{order.flaggedOffer.driverName} عرض {order.flaggedOffer.price} ج.م مقابل تقدير {order.flaggedOffer.estimate} ج.م • {new Date(order.flaggedOffer.flaggedAt).toLocaleString('ar-EG')}</p>
+                </div>
+             )}
+
+             {/* Proof of Delivery */}
+             {order.proofOfDelivery && (
+                <div className="bg-white p-6 rounded-[2.5rem] border border-emerald-100 shadow-sm space-y-4 text-right">
+                   <div className="flex items-center gap-3 flex-row-reverse">
+                      <ShieldCheck className="h-5 w-5 text-emerald-500" />
+                      <h4 className="font-black text-slate-800 text-sm">إثبات التسليم</h4>
+                   </div>
+                   <p className="text-[10px] font-bold text-slate-400">
+                      {PROOF_METHOD_LABELS[order.proofOfDelivery.method]} • {new Date(order.proofOfDelivery.capturedAt).toLocaleString('ar-EG')}
+                   </p>
+                   {order.proofOfDelivery.method === 'PIN' && <p className="font-black text-emerald-600 text-xs">تم التحقق من كود التسليم</p>}
+                   {order.proofOfDelivery.photo && <img src={order.proofOfDelivery.photo} className="w-full rounded-2xl border border-slate-100" />}
+                   {order.proofOfDelivery.signature && <img src={order.proofOfDelivery.signature} className="w-full bg-slate-50 rounded-2xl border border-slate-100" />}
+                </div>
+             )}
+
+             {/* Event Timeline */}
+             <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-4">
+                <div className="flex items-center gap-3 flex-row-reverse">
+                   <Clock className="h-5 w-5 text-emerald-500" />
+                   <h4 className="font-black text-slate-800 text-sm">سجل أحداث الطلب</h4>
+                </div>
+                <OrderTimeline orderId={order.id} />
+             </div>
           </div>
 
           <div className="p-6 md:p-8 bg-slate-50 border-t border-slate-100 flex gap-4 shrink-0">
@@ -155,7 +246,7 @@ const OrderDetailsModal: React.FC<{ order: Order, onClose: () => void }> = ({ or
   );
 };
 
-const ManualAssignModal: React.FC<{ order: Order, onClose: () => void }> = ({ order, onClose }) => {
+const ManualAssignModal: React.FC<{ user: User, order: Order, onClose: () => void }> = ({ user, order, onClose }) => {
   const [drivers, setDrivers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -169,15 +260,12 @@ const ManualAssignModal: React.FC<{ order: Order, onClose: () => void }> = ({ or
 
   const assignDriver = async (driver: User) => {
     try {
-      await updateDoc(doc(db, "orders", order.id), {
-        driverId: driver.id,
+      await assignOrderToDriver(order.id, driver.id, user, {
         driverName: driver.name || 'كابتن',
-        driverPhone: driver.phone || '',
-        status: OrderStatus.ACCEPTED,
-        acceptedAt: Date.now()
+        driverPhone: driver.phone || ''
       });
       onClose();
-    } catch (e) { alert('فشل التوجيه'); }
+    } catch (e) { alert(getTransitionErrorMessage(e, 'فشل التوجيه')); }
   };
 
   return (
@@ -190,20 +278,24 @@ const ManualAssignModal: React.FC<{ order: Order, onClose: () => void }> = ({ or
         <div className="flex-1 overflow-auto no-scrollbar space-y-2 px-2">
           {loading ? (
              <div className="py-20 flex justify-center"><Loader2 className="h-8 w-8 animate-spin text-emerald-500" /></div>
-          ) : drivers.map(d => (
-            <div key={d.id} onClick={() => assignDriver(d)} className="p-4 md:p-5 bg-slate-50 rounded-[1.8rem] md:rounded-[2.5rem] flex justify-between items-center hover:bg-emerald-50 transition-all cursor-pointer group">
+          ) : drivers.map(d => {
+            const held = d.activeOrderIds?.length || 0;
+            const full = held > 0 && (!isStackable(order) || held >= getJobCapacity(d.vehicleType));
+            return (
+            <div key={d.id} onClick={() => assignDriver(d)} className={`p-4 md:p-5 bg-slate-50 rounded-[1.8rem] md:rounded-[2.5rem] flex justify-between items-center hover:bg-emerald-50 transition-all cursor-pointer group ${full ? 'opacity-50' : ''}`}>
               <div className="flex items-center gap-3 md:gap-4">
                  <div className="w-12 h-12 bg-white rounded-xl flex items-center justify-center font-black text-slate-300 text-lg group-hover:bg-emerald-500 group-hover:text-white transition-all shadow-sm">
                     {(d.name || 'ك')[0]}
                  </div>
                  <div className="text-right">
                     <p className="font-black text-slate-800 text-sm md:text-base">{d.name}</p>
-                    <p className="text-[9px] font-bold text-slate-400 uppercase">{d.vehicleType}</p>
+                    <p className="text-[9px] font-bold text-slate-400 uppercase">{d.vehicleType}{held > 0 ? ` • ${held} طلب جارٍ` : ''}</p>
                  </div>
               </div>
               <ChevronRight className="h-5 w-5 text-slate-300 group-hover:text-emerald-500 transition-colors" />
             </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     </div>
@@ -213,11 +305,31 @@ const ManualAssignModal: React.FC<{ order: Order, onClose: () => void }> = ({ or
 const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [drivers, setDrivers] = useState<User[]>([]);
-  const [activeTab, setActiveTab] = useState<'LIVE' | 'DRIVERS' | 'HISTORY'>('LIVE');
+  const [activeTab, setActiveTab] = useState<'LIVE' | 'SCHEDULED' | 'DRIVERS' | 'HISTORY'>('LIVE');
+  const [scheduledOrders, setScheduledOrders] = useState<Order[]>([]);
   const [assignTarget, setAssignTarget] = useState<Order | null>(null);
   const [selectedOrderDetails, setSelectedOrderDetails] = useState<Order | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [surgeRules, setSurgeRules] = useState<SurgeRule[]>([]);
+  const demandRef = useRef<DemandSnapshot | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // غرفة التحكم وحدها تقرأ الطلبات المفتوحة ومواقع الكباتن، وتنشر نسبة الطلب المجمعة لكل مركز
+  useEffect(() => subscribeToSurgeRules(setSurgeRules), []);
+  const demandBased = needsDemandData(surgeRules);
+  useEffect(() => {
+    if (!demandBased) { demandRef.current = null; return; }
+    return subscribeToDemand(d => { demandRef.current = d; });
+  }, [demandBased]);
+  useEffect(() => {
+    if (demandRef.current) publishDemand(demandRef.current, now).catch(e => console.error(e));
+  }, [now]);
 
   useEffect(() => {
     const unsubOrders = onSnapshot(query(collection(db, "orders"), orderBy("createdAt", "desc"), limit(100)), (snap) => {
@@ -226,7 +338,10 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
     const unsubDrivers = onSnapshot(query(collection(db, "users"), where("role", "==", "DRIVER")), (snap) => {
       setDrivers(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as User[]);
     });
-    return () => { unsubOrders(); unsubDrivers(); };
+    const unsubScheduled = onSnapshot(query(collection(db, "orders"), where("scheduledFor", ">=", Date.now()), orderBy("scheduledFor", "asc")), (snap) => {
+      setScheduledOrders(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Order[]);
+    });
+    return () => { unsubOrders(); unsubDrivers(); unsubScheduled(); };
   }, []);
 
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
@@ -244,7 +359,34 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
     window.open(`https://wa.me/?text=${encodeURIComponent(msg)}`, '_blank');
   };
 
-  const liveOrders = orders.filter(o => ![OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status));
+  const handleCancelOrder = async (order: Order) => {
+    if (!window.confirm('إلغاء الطلب؟')) return;
+    try {
+      await updateOrderWithEvent(order, transitionOrder(order, OrderStatus.CANCELLED, user.role, {
+        cancellationReason: 'إلغاء من غرفة التحكم',
+        cancelledBy: user.role,
+        cancelledById: user.id
+      }), user);
+    } catch (e) { alert(getTransitionErrorMessage(e, 'فشل إلغاء الطلب')); }
+  };
+
+  // الطلبات المتأخرة بدون عروض تظهر أولاً
+  const liveOrders = orders
+    .filter(o => ![OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status) && !isUpcomingScheduledOrder(o, now))
+    .sort((a, b) => (getOrderEscalation(b, now).level !== 'NONE' ? 1 : 0) - (getOrderEscalation(a, now).level !== 'NONE' ? 1 : 0));
+  const flaggedCount = liveOrders.filter(o => getOrderEscalation(o, now).level !== 'NONE').length;
+
+  // إلغاء الطلبات التي تجاوزت مهلة الانتظار القصوى
+  useEffect(() => {
+    liveOrders
+      .filter(o => getOrderEscalation(o, now).level === 'EXPIRED')
+      .forEach(o => autoCancelStaleOrder(o).catch(e => console.error(e)));
+    scheduledOrders
+      .filter(o => isReminderDue(o, now))
+      .forEach(o => sendScheduledReminder(o).catch(e => console.error(e)));
+  }, [now, orders, scheduledOrders]);
+
+  const upcomingOrders = scheduledOrders.filter(o => isUpcomingScheduledOrder(o, now));
   const historyOrders = orders.filter(o => [OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(o.status));
 
   return (
@@ -256,7 +398,7 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
     >
       <div className="min-w-full">
         <div className="max-w-7xl mx-auto space-y-6 md:space-y-10 pb-40 p-4 md:p-6 animate-in fade-in duration-700 text-right">
-          {assignTarget && <ManualAssignModal order={assignTarget} onClose={() => setAssignTarget(null)} />}
+          {assignTarget && <ManualAssignModal user={user} order={assignTarget} onClose={() => setAssignTarget(null)} />}
           {selectedOrderDetails && <OrderDetailsModal order={selectedOrderDetails} onClose={() => setSelectedOrderDetails(null)} />}
           
           {/* Header Bar */}
@@ -273,6 +415,7 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
              <div className="flex gap-2 bg-slate-50 p-2 rounded-[2rem] md:rounded-[2.5rem] shadow-inner overflow-x-auto no-scrollbar w-full lg:w-auto">
                 {[
                   { id: 'LIVE', label: 'النشاط', icon: <Zap className="h-4 w-4" />, count: liveOrders.length },
+                  { id: 'SCHEDULED', label: 'المواعيد', icon: <Clock className="h-4 w-4" />, count: upcomingOrders.length },
                   { id: 'DRIVERS', label: 'الكباتن', icon: <Bike className="h-4 w-4" />, count: drivers.filter(d => d.status === 'APPROVED').length },
                   { id: 'HISTORY', label: 'السجل', icon: <Clock className="h-4 w-4" /> }
                 ].map(tab => (
@@ -284,10 +427,20 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
              </div>
           </div>
 
+          {activeTab === 'LIVE' && flaggedCount > 0 && (
+            <div className="bg-amber-50 border border-amber-100 p-5 rounded-[2rem] flex items-center gap-3 text-amber-700 flex-row-reverse">
+               <AlertCircle className="h-5 w-5 shrink-0" />
+               <p className="text-xs font-black">{flaggedCount} طلب بدون عروض تجاوز مهلة الانتظار ويحتاج لتوجيه كابتن</p>
+            </div>
+          )}
+
           {activeTab === 'LIVE' && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
-               {liveOrders.map((order) => (
-                 <div key={order.id} className="bg-white rounded-[3rem] md:rounded-[4rem] border border-slate-100 shadow-2xl overflow-hidden group hover:border-emerald-500 transition-all animate-reveal relative flex flex-col">
+               {liveOrders.map((order) => {
+                 const escalation = getOrderEscalation(order, now);
+                 const pickupWaiting = getPickupWaitingStatus(order, now);
+                 return (
+                 <div key={order.id} className={`bg-white rounded-[3rem] md:rounded-[4rem] border ${escalation.level !== 'NONE' ? 'border-amber-400 ring-4 ring-amber-100' : 'border-slate-100'} shadow-2xl overflow-hidden group hover:border-emerald-500 transition-all animate-reveal relative flex flex-col`}>
                     <button 
                        onClick={() => setSelectedOrderDetails(order)}
                        className="absolute top-6 left-6 z-20 bg-white/80 backdrop-blur-md p-3 rounded-2xl shadow-sm text-slate-400 hover:text-emerald-500 transition-all"
@@ -303,6 +456,24 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
                        </div>
                     </div>
                     <div className="p-8 md:p-10 space-y-6 md:space-y-8 flex-1">
+                       {escalation.level !== 'NONE' && (
+                          <div className="bg-amber-50 p-4 rounded-2xl flex items-center gap-2 flex-row-reverse text-amber-700">
+                             <AlertCircle className="h-4 w-4 shrink-0" />
+                             <p className="text-[10px] font-black">بدون عروض منذ {escalation.idleMinutes} دقيقة - إلغاء تلقائي خلال {escalation.minutesToCancel} د</p>
+                          </div>
+                       )}
+                       {order.flaggedOffer && order.status === OrderStatus.WAITING_FOR_OFFERS && (
+                          <div className="bg-rose-50 p-4 rounded-2xl flex items-center gap-2 flex-row-reverse text-rose-700">
+                             <AlertCircle className="h-4 w-4 shrink-0" />
+                             <p className="text-[10px] font-black">عرض مرتفع من {order.flaggedOffer.driverName}: {order.flaggedOffer.price} ج.م (التقدير {order.flaggedOffer.estimate} ج.م)</p>
+                          </div>
+                       )}
+                       {pickupWaiting && (
+                          <div className={`p-4 rounded-2xl flex items-center gap-2 flex-row-reverse ${pickupWaiting.exceeded ? 'bg-rose-50 text-rose-700' : 'bg-sky-50 text-sky-700'}`}>
+                             <Clock className="h-4 w-4 shrink-0" />
+                             <p className="text-[10px] font-black">الكابتن ينتظر منذ {pickupWaiting.minutesWaited} د - {pickupWaiting.exceeded ? 'انتهى الانتظار المجاني' : `مجاني لمدة ${pickupWaiting.freeMinutesLeft} د أخرى`}</p>
+                          </div>
+                       )}
                        <div className="space-y-6">
                           <div className="flex gap-4 md:gap-6 items-start flex-row-reverse">
                              <div className="bg-emerald-50 p-3 md:p-4 rounded-2xl text-emerald-600 shadow-sm shrink-0"><MapPin className="h-5 w-5 md:h-6 md:w-6" /></div>
@@ -335,11 +506,12 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
                             )}
                             <button onClick={() => handleShareWhatsApp(order)} className="p-4 md:p-6 bg-emerald-50 text-emerald-600 rounded-[1.2rem] md:rounded-[1.5rem] hover:bg-emerald-100 transition-all"><Share2 className="h-5 w-5 md:h-6 md:w-6" /></button>
                          </div>
-                         <button onClick={() => { if(window.confirm('إلغاء الطلب؟')) updateDoc(doc(db, "orders", order.id), { status: OrderStatus.CANCELLED }); }} className="w-full py-3 text-rose-500 font-black text-[8px] md:text-[9px] uppercase tracking-widest hover:bg-rose-50 rounded-2xl transition-all">إلغاء الرحلة</button>
+                         <button onClick={() => handleCancelOrder(order)} className="w-full py-3 text-rose-500 font-black text-[8px] md:text-[9px] uppercase tracking-widest hover:bg-rose-50 rounded-2xl transition-all">إلغاء الرحلة</button>
                        </div>
                     </div>
                  </div>
-               ))}
+                 );
+               })}
                {liveOrders.length === 0 && (
                  <div className="col-span-full py-32 md:py-40 text-center bg-white rounded-[3rem] md:rounded-[4rem] border-4 border-dashed border-slate-100">
                     <Zap className="h-16 w-16 md:h-20 md:w-20 mx-auto text-slate-100 mb-6" />
@@ -349,6 +521,26 @@ const OperatorDashboard: React.FC<{ user: User }> = ({ user }) => {
             </div>
           )}
 
+          {activeTab === 'SCHEDULED' && (
+            <div className="bg-white p-6 md:p-12 rounded-[3rem] md:rounded-[4rem] border border-slate-100 shadow-2xl space-y-4 animate-reveal">
+               {upcomingOrders.map(order => (
+                 <div key={order.id} onClick={() => setSelectedOrderDetails(order)} className="p-5 md:p-6 bg-slate-50 rounded-3xl flex flex-col md:flex-row-reverse justify-between items-center hover:bg-slate-100 transition-all border border-transparent hover:border-emerald-100 cursor-pointer gap-4">
+                    <div className="text-right w-full md:w-auto">
+                       <p className="font-black text-sm text-slate-800 leading-tight">{order.pickup?.villageName || 'موقع العميل'} ← {order.dropoff?.villageName}</p>
+                       <p className="text-[9px] font-black text-indigo-600 mt-1">🗓️ {formatScheduledTime(order.scheduledFor!)}</p>
+                    </div>
+                    <div className="flex items-center justify-between w-full md:w-auto gap-4 md:gap-6 border-t md:border-t-0 pt-3 md:pt-0 border-slate-200">
+                       <p className="text-xs font-bold font-mono tracking-widest text-slate-400" dir="ltr">{order.customerPhone}</p>
+                       <p className="text-base md:text-lg font-black text-slate-900">{order.price} ج.م</p>
+                    </div>
+                 </div>
+               ))}
+               {upcomingOrders.length === 0 && (
+                 <div className="py-20 text-center text-slate-300 font-black text-xs">لا توجد مواعيد مجدولة قادمة</div>
+               )}
+            </div>
+          )}
+
           {activeTab === 'HISTORY' && (
             <div className="bg-white p-6 md:p-12 rounded-[3rem] md:rounded-[4rem] border border-slate-100 shadow-2xl space-y-8 md:space-y-10 animate-reveal">
                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 md:gap-6 mb-8 md:mb-10">
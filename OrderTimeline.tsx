@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import type { OrderEvent } from '../types';
+import { query, orderBy, onSnapshot } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { stripFirestore } from '../utils';
+import { orderEventsCollection, ORDER_EVENT_LABELS } from '../orderEvents';
+import { Loader2, History } from 'lucide-react';
+
+const ROLE_LABELS: Record<string, string> = {
+  CUSTOMER: 'العميل',
+  DRIVER: 'الكابتن',
+  OPERATOR: 'المشغل',
+  ADMIN: 'الإدارة',
+  SYSTEM: 'النظام'
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const OrderTimeline: React.FC<{ orderId: string, compact?: boolean }> = ({ orderId, compact = false }) => {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    return onSnapshot(query(orderEventsCollection(orderId), orderBy("createdAt", "asc")), (snap) => {
+      setEvents(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as OrderEvent[]);
+      setLoading(false);
+    }, () => setLoading(false));
+  }, [orderId]);
+
+  if (loading) return <div className="py-6 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-emerald-500" /></div>;
+
+  if (events.length === 0) {
+    return (
+      <div className="py-6 text-center text-[10px] font-black text-slate-300 flex items-center justify-center gap-2">
+        <History className="h-4 w-4" /> لا يوجد سجل أحداث لهذا الطلب
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-0 text-right" dir="rtl">
+      {events.map((event, idx) => (
+        <div key={event.id} className="flex gap-4">
+          <div className="flex flex-col items-center">
+            <div className={`w-3 h-3 rounded-full mt-1.5 ${event.type === 'CANCELLED' ? 'bg-rose-500' : idx === events.length - 1 ? 'bg-emerald-500 animate-pulse' : 'bg-emerald-300'}`}></div>
+            {idx < events.length - 1 && <div className="w-0.5 flex-1 bg-slate-200"></div>}
+          </div>
+          <div className="flex-1 pb-5">
+            <div className="flex justify-between items-center gap-2">
+              <p className="font-black text-xs text-slate-800">{ORDER_EVENT_LABELS[event.type] || event.type}</p>
+              <span className="text-[9px] font-bold text-slate-400 shrink-0">{new Date(event.createdAt).toLocaleTimeString('ar-EG')}</span>
+            </div>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">{ROLE_LABELS[event.actorRole] || event.actorRole}</p>
+            {!compact && Object.keys(event.next || {}).length > 0 && (
+              <div className="mt-2 bg-slate-50 rounded-xl p-3 space-y-1">
+                {Object.keys(event.next).map(key => (
+                  <p key={key} className="text-[9px] font-bold text-slate-500 break-all">
+                    <span className="text-slate-400">{key}:</span> {event.previous && key in event.previous ? `${formatValue(event.previous[key])} ← ` : ''}{formatValue(event.next[key])}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OrderTimeline;
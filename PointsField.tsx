@@ -0,0 +1,44 @@
+import React from 'react';
+import type { LoyaltyRules } from '../types';
+import { getRedeemablePoints } from '../loyalty';
+import { Star } from 'lucide-react';
+
+const PointsField: React.FC<{
+  balance: number,
+  rules: LoyaltyRules,
+  fare: number | null,
+  hasCoupon: boolean,
+  isApplied: boolean,
+  onChange: (isApplied: boolean) => void
+}> = ({ balance, rules, fare, hasCoupon, isApplied, onChange }) => {
+  if (!rules.isEnabled || balance <= 0) return null;
+  const redeemable = fare !== null ? getRedeemablePoints(balance, fare, rules) : null;
+  // الكوبون والنقاط لا يجتمعان في طلب واحد
+  const hint = hasCoupon ? 'لا يمكن الجمع بين النقاط والكوبون'
+    : balance < rules.minRedeemPoints ? `الاستبدال من ${rules.minRedeemPoints} نقطة`
+    : !redeemable ? 'الأجرة لا تسمح بالاستبدال'
+    : `استخدم ${redeemable.points} نقطة لخصم ${redeemable.discount} ج.م`;
+  const canApply = !hasCoupon && !!redeemable;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!isApplied)}
+      disabled={!canApply}
+      className={`w-full p-4 rounded-[2rem] flex justify-between items-center gap-3 transition-all disabled:opacity-50 ${isApplied && canApply ? 'bg-amber-50 border-2 border-amber-200' : 'bg-slate-50 border-2 border-transparent'}`}
+    >
+      <div className="flex items-center gap-3 text-right">
+        <Star className={`h-5 w-5 shrink-0 ${isApplied && canApply ? 'fill-amber-400 text-amber-400' : 'text-slate-300'}`} />
+        <div>
+          <p className="text-xs font-black text-slate-800">نقاطي: {balance} نقطة</p>
+          <p className={`text-[10px] font-bold mt-0.5 ${isApplied && canApply ? 'text-amber-600' : 'text-slate-400'}`}>{hint}</p>
+        </div>
+      </div>
+      <span className={`w-10 h-6 rounded-full p-1 transition-all shrink-0 ${isApplied && canApply ? 'bg-amber-400' : 'bg-slate-200'}`}>
+        <span className={`block w-4 h-4 bg-white rounded-full transition-all ${isApplied && canApply ? '-translate-x-4' : ''}`}></span>
+      </span>
+    </button>
+  );
+};
+
+export default PointsField;
@@ -1,9 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
 
 // Types
-import type { User, Order } from '../types';
+import type { User, Order, LoyaltyEntry, LoyaltyRules } from '../types';
 import { OrderStatus } from '../types';
-import { MENOFIA_DATA } from '../config/constants';
+import { MENOFIA_DATA, DEFAULT_LOYALTY_RULES } from '../config/constants';
+
+// Utils
+import { subscribeToLoyaltyHistory, subscribeToLoyaltyRules, getExpiringPoints, LOYALTY_ENTRY_LABELS } from '../loyalty';
 
 // Services
 import { auth, db } from '../services/firebase';
@@ -14,7 +17,7 @@ import { signOut } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-auth
 import { 
   User as UserIcon, Smartphone, Edit3, Camera, Loader2, ChevronRight, 
   Bike, Car, Star, ShieldCheck, Zap, Wallet as WalletIcon, ArrowRight,
-  Building2, MapPin, LogOut, AlertTriangle, X
+  Building2, MapPin, LogOut, AlertTriangle, X, Award
 } from 'lucide-react';
 
 const ProfileView: React.FC<{ user: User, onUpdate: (u: User) => void, onBack: () => void, onOpenWallet?: () => void }> = ({ user, onUpdate, onBack, onOpenWallet }) => {
@@ -25,6 +28,20 @@ const ProfileView: React.FC<{ user: User, onUpdate: (u: User) => void, onBack: (
   const [isUploading, setIsUploading] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loyaltyHistory, setLoyaltyHistory] = useState<LoyaltyEntry[]>([]);
+  const [loyaltyRules, setLoyaltyRules] = useState<LoyaltyRules>(DEFAULT_LOYALTY_RULES);
+  const [showAllPoints, setShowAllPoints] = useState(false);
+  const isCustomer = user.role === 'CUSTOMER';
+
+  useEffect(() => {
+    if (!isCustomer) return;
+    const unsubHistory = subscribeToLoyaltyHistory(user.id, setLoyaltyHistory);
+    const unsubRules = subscribeToLoyaltyRules(setLoyaltyRules);
+    return () => { unsubHistory(); unsubRules(); };
+  }, [user.id, isCustomer]);
+
+  const pointsBalance = user.loyaltyPoints || 0;
+  const expiringPoints = getExpiringPoints(loyaltyHistory, 30);
 
   const handleUpdateProfile = async () => {
     if (!name.trim() || phone.length < 11) {
@@ -162,6 +179,37 @@ const ProfileView: React.FC<{ user: User, onUpdate: (u: User) => void, onBack: (
            </div>
         )}
 
+        {isCustomer && loyaltyRules.isEnabled && (
+           <div className="bg-white p-8 rounded-[3.5rem] shadow-sm border border-slate-100 space-y-6 mx-2">
+              <div className="flex justify-between items-center">
+                 <h4 className="font-black text-slate-800 text-lg flex items-center gap-3"><Award className="h-5 w-5 text-amber-500" /> نقاط وصلها</h4>
+                 <div className="text-left">
+                    <p className="text-3xl font-black text-amber-500">{pointsBalance} <span className="text-xs text-slate-300">نقطة</span></p>
+                    <p className="text-[10px] font-bold text-slate-400">تساوي {Math.floor(pointsBalance * loyaltyRules.pointValue)} ج.م خصم</p>
+                 </div>
+              </div>
+              {expiringPoints > 0 && (
+                 <p className="bg-amber-50 text-amber-700 p-4 rounded-2xl text-[10px] font-black flex items-center gap-2"><AlertTriangle className="h-4 w-4 shrink-0" /> {expiringPoints} نقطة تنتهي خلال 30 يوماً، استخدمها في طلبك القادم</p>
+              )}
+              <p className="text-[10px] font-bold text-slate-400">اكسب نقاطاً مع كل طلب يتم توصيله، واستبدلها خصماً عند الطلب بدءاً من {loyaltyRules.minRedeemPoints} نقطة. النقاط صالحة {loyaltyRules.expiryDays} يوماً.</p>
+              <div className="space-y-2">
+                 {loyaltyHistory.length === 0 && <p className="py-6 text-center text-slate-300 font-black text-xs">لا توجد حركات نقاط بعد</p>}
+                 {(showAllPoints ? loyaltyHistory : loyaltyHistory.slice(0, 5)).map(entry => (
+                    <div key={entry.id} className="bg-slate-50 p-4 rounded-2xl flex justify-between items-center">
+                       <div className="text-right">
+                          <p className="text-xs font-black text-slate-700">{entry.description}</p>
+                          <p className="text-[9px] font-bold text-slate-400 mt-0.5">{LOYALTY_ENTRY_LABELS[entry.type]} • {new Date(entry.createdAt).toLocaleDateString('ar-EG')}{entry.expiresAt && entry.remaining ? ` • تنتهي ${new Date(entry.expiresAt).toLocaleDateString('ar-EG')}` : ''}</p>
+                       </div>
+                       <p className={`font-black text-sm ${entry.type === 'EARN' || entry.type === 'REFUND' ? 'text-emerald-600' : 'text-rose-500'}`} dir="ltr">{entry.type === 'EARN' || entry.type === 'REFUND' ? '+' : '-'}{entry.points}</p>
+                    </div>
+                 ))}
+                 {loyaltyHistory.length > 5 && (
+                    <button onClick={() => setShowAllPoints(!showAllPoints)} className="w-full py-3 text-[10px] font-black text-slate-400 hover:text-amber-500 transition-all">{showAllPoints ? 'عرض أقل' : `عرض كل الحركات (${loyaltyHistory.length})`}</button>
+                 )}
+              </div>
+           </div>
+        )}
+
         <div className="bg-white p-10 rounded-[3.5rem] shadow-sm border border-slate-100 space-y-8 mx-2">
            <div className="flex justify-between items-center">
               <h4 className="font-black text-slate-800 text-lg flex items-center gap-3"><Edit3 className="h-5 w-5 text-[#2D9469]" /> البيانات الأساسية</h4>
@@ -0,0 +1,133 @@
+import React, { useState, useRef } from 'react';
+import type { Order, ProofOfDelivery } from '../types';
+import { compressImage } from '../utils';
+import { getRequiredProof, validateProof, buildProofOfDelivery, PROOF_METHOD_LABELS } from '../proofOfDelivery';
+import { ShieldCheck, Loader2, Camera, Eraser } from 'lucide-react';
+
+const ProofOfDeliveryModal: React.FC<{
+  order: Order,
+  driverId: string,
+  isSubmitting: boolean,
+  onConfirm: (proof: ProofOfDelivery) => void,
+  onClose: () => void
+}> = ({ order, driverId, isSubmitting, onConfirm, onClose }) => {
+  const method = getRequiredProof(order);
+  const [pin, setPin] = useState('');
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const photoRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = async () => setPhoto(await compressImage(reader.result as string));
+    reader.readAsDataURL(file);
+  };
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width), y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height) };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#0f172a';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    drawing.current = true;
+  };
+
+  const moveStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasSignature(true);
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const handleConfirm = () => {
+    const signature = method === 'SIGNATURE' && hasSignature ? canvasRef.current?.toDataURL('image/png') : undefined;
+    const input = { pin, photo: photo || undefined, signature };
+    const validationError = validateProof(method, input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onConfirm(buildProofOfDelivery(method, driverId, input));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-slate-950/60 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in" dir="rtl">
+      <div className="bg-white w-full max-w-sm rounded-[3rem] p-8 space-y-6 shadow-2xl animate-in zoom-in border border-slate-100 max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="text-center space-y-3">
+          <div className="bg-emerald-50 w-20 h-20 rounded-[2.2rem] flex items-center justify-center mx-auto text-emerald-600 shadow-inner">
+            <ShieldCheck className="h-10 w-10" />
+          </div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tighter">إثبات التسليم</h3>
+          <p className="text-[10px] font-bold text-slate-400 leading-relaxed px-4">{PROOF_METHOD_LABELS[method]} مطلوب لتأكيد توصيل الطلب</p>
+        </div>
+
+        {method === 'PIN' && (
+          <input autoFocus type="tel" inputMode="numeric" maxLength={4} value={pin} onChange={e => { setPin(e.target.value.replace(/\D/g, '')); setError(null); }} placeholder="• • • •" className="w-full bg-slate-50 rounded-3xl p-6 text-4xl font-black text-center tracking-[0.5em] outline-none shadow-inner" dir="ltr" />
+        )}
+
+        {method === 'PHOTO' && (
+          <>
+            <div onClick={() => photoRef.current?.click()} className="aspect-video bg-slate-50 rounded-3xl border-4 border-dashed border-emerald-200 flex flex-col items-center justify-center cursor-pointer overflow-hidden">
+              {photo ? <img src={photo} className="w-full h-full object-cover" /> : (
+                <>
+                  <Camera className="h-10 w-10 text-emerald-300 mb-2" />
+                  <span className="text-[10px] font-black text-slate-400">التقط صورة الطلب مع المستلم</span>
+                </>
+              )}
+            </div>
+            <input type="file" ref={photoRef} className="hidden" accept="image/*" capture="environment" onChange={e => { handlePhoto(e); setError(null); }} />
+          </>
+        )}
+
+        {method === 'SIGNATURE' && (
+          <div className="space-y-2">
+            <canvas
+              ref={canvasRef}
+              width={320}
+              height={160}
+              onPointerDown={e => { startStroke(e); setError(null); }}
+              onPointerMove={moveStroke}
+              onPointerUp={() => { drawing.current = false; }}
+              onPointerLeave={() => { drawing.current = false; }}
+              className="w-full bg-slate-50 rounded-3xl border-2 border-slate-100 touch-none"
+            />
+            <button type="button" onClick={clearSignature} className="text-[10px] font-black text-slate-400 flex items-center gap-1"><Eraser className="h-3 w-3" /> مسح التوقيع</button>
+          </div>
+        )}
+
+        {error && <p className="text-[10px] font-black text-rose-500 text-center">{error}</p>}
+
+        <div className="flex flex-col gap-2.5">
+          <button onClick={handleConfirm} disabled={isSubmitting} className="w-full bg-emerald-600 text-white py-4 rounded-2xl font-black shadow-xl active:scale-95 transition-all disabled:opacity-30">
+            {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin mx-auto" /> : 'تأكيد التوصيل'}
+          </button>
+          <button onClick={onClose} className="w-full bg-slate-50 text-slate-400 py-3.5 rounded-2xl font-black active:scale-95 transition-all">تراجع</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProofOfDeliveryModal;
@@ -22,7 +22,7 @@ import {
   MessageCircle, LogOut, ChevronLeft, Zap, 
   Activity, ArrowUpRight, Search, PlusCircle,
   Camera, FileText, X, Building2, Smartphone, Loader2,
-  ArrowRight, ArrowUp
+  ArrowRight, ArrowUp, LifeBuoy, DollarSign, Ticket, Pill, Award
 } from 'lucide-react';
 
 // Sub-components
@@ -30,12 +30,17 @@ import AdminUsersList from './AdminUsersList';
 import AdminRestaurantManager from './AdminRestaurantManager';
 import AdminAdsManager from './AdminAdsManager';
 import AdminGeographyManager from './AdminGeographyManager';
+import AdminDisputesManager from './AdminDisputesManager';
+import AdminPricingManager from './AdminPricingManager';
+import AdminCouponsManager from './AdminCouponsManager';
+import AdminPharmacyManager from './AdminPharmacyManager';
+import AdminLoyaltyManager from './AdminLoyaltyManager';
 
 const SuperAdminDashboard: React.FC<{ user: User }> = ({ user }) => {
   const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
-  const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'USERS' | 'RESTAURANTS' | 'ADS' | 'GEO'>('DASHBOARD');
+  const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'USERS' | 'RESTAURANTS' | 'ADS' | 'GEO' | 'DISPUTES' | 'PRICING' | 'COUPONS' | 'PHARMACIES' | 'LOYALTY'>('DASHBOARD');
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
   
@@ -78,6 +83,11 @@ const SuperAdminDashboard: React.FC<{ user: User }> = ({ user }) => {
            case 'RESTAURANTS': return <AdminRestaurantManager user={user} />;
            case 'ADS': return <AdminAdsManager user={user} />;
            case 'GEO': return <AdminGeographyManager user={user} />;
+           case 'DISPUTES': return <AdminDisputesManager user={user} />;
+           case 'PRICING': return <AdminPricingManager user={user} />;
+           case 'COUPONS': return <AdminCouponsManager user={user} />;
+           case 'PHARMACIES': return <AdminPharmacyManager user={user} />;
+           case 'LOYALTY': return <AdminLoyaltyManager user={user} />;
         }
      };
      return (
@@ -159,8 +169,13 @@ const SuperAdminDashboard: React.FC<{ user: User }> = ({ user }) => {
            {[
              { id: 'USERS', label: 'إدارة الأعضاء', desc: 'تعديل، تفعيل، وحظر المستخدمين', icon: <Users2 className="h-8 w-8" />, color: 'bg-indigo-50 text-indigo-500' },
              { id: 'RESTAURANTS', label: 'إدارة المطاعم', desc: 'إضافة مطاعم وتعديل المنيو', icon: <UtensilsCrossed className="h-8 w-8" />, color: 'bg-emerald-50 text-emerald-500' },
+             { id: 'PHARMACIES', label: 'الصيدليات الشريكة', desc: 'مواقع الصيدليات ومواعيد عملها', icon: <Pill className="h-8 w-8" />, color: 'bg-pink-50 text-pink-500' },
              { id: 'ADS', label: 'إدارة الإعلانات', desc: 'نشر عروض ترويجية', icon: <Megaphone className="h-8 w-8" />, color: 'bg-amber-50 text-amber-500' },
-             { id: 'GEO', label: 'إدارة الجغرافيا', desc: 'إضافة قرى ومراكز جديدة', icon: <MapPin className="h-8 w-8" />, color: 'bg-rose-50 text-rose-500' }
+             { id: 'GEO', label: 'إدارة الجغرافيا', desc: 'إضافة قرى ومراكز جديدة', icon: <MapPin className="h-8 w-8" />, color: 'bg-rose-50 text-rose-500' },
+             { id: 'DISPUTES', label: 'الشكاوى والاسترداد', desc: 'مراجعة الشكاوى ورد المبالغ للعملاء', icon: <LifeBuoy className="h-8 w-8" />, color: 'bg-orange-50 text-orange-500' },
+             { id: 'PRICING', label: 'إدارة الأسعار', desc: 'تسعير المشاوير لكل مركز وسجل التعديلات', icon: <DollarSign className="h-8 w-8" />, color: 'bg-teal-50 text-teal-500' },
+             { id: 'COUPONS', label: 'كوبونات الخصم', desc: 'أكواد الخصم وإحصائيات استخدامها', icon: <Ticket className="h-8 w-8" />, color: 'bg-violet-50 text-violet-500' },
+             { id: 'LOYALTY', label: 'نقاط الولاء', desc: 'قواعد الاكتساب والحملات والالتزامات', icon: <Award className="h-8 w-8" />, color: 'bg-yellow-50 text-yellow-600' }
            ].map(item => (
             <button key={item.id} onClick={() => setActiveTab(item.id as any)} className="bg-white p-6 md:p-8 rounded-[2.5rem] md:rounded-[3rem] border border-slate-100 shadow-sm flex items-center justify-between hover:shadow-xl hover:border-emerald-500 transition-all group active:scale-[0.98]">
                <ChevronLeft className="h-5 w-5 text-slate-200 group-hover:text-emerald-500 transition-all" />
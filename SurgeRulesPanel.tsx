@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import type { SurgeRule } from '../types';
+import { MENOFIA_DATA, SURGE_CONFIG } from '../config/constants';
+import { subscribeToSurgeRules, saveSurgeRule, deleteSurgeRule, validateSurgeRule, SurgeRuleError, WEEK_DAYS } from '../surgePricing';
+import { Zap, Loader2, Plus, Trash2, Edit2, X } from 'lucide-react';
+
+type RuleForm = Omit<SurgeRule, 'id' | 'createdAt'>;
+
+const EMPTY_RULE: RuleForm = { name: '', reason: '', multiplier: 1.2, isActive: true };
+
+const describeRule = (rule: SurgeRule) => {
+  const parts: string[] = [];
+  if (rule.daysOfWeek?.length) parts.push(rule.daysOfWeek.map(d => WEEK_DAYS[d]).join('، '));
+  if (rule.startTime && rule.endTime) parts.push(`من ${rule.startTime} إلى ${rule.endTime}`);
+  if (rule.startDate || rule.endDate) parts.push(`${rule.startDate || '...'} ← ${rule.endDate || '...'}`);
+  if (rule.districtIds?.length) parts.push(rule.districtIds.map(id => MENOFIA_DATA.find(d => d.id === id)?.name || id).join('، '));
+  if (rule.minDemandRatio) parts.push(`نسبة الطلب ≥ ${rule.minDemandRatio}`);
+  return parts.length > 0 ? parts.join(' • ') : 'تطبق دائماً';
+};
+
+const SurgeRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<SurgeRule[]>([]);
+  const [editing, setEditing] = useState<SurgeRule | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => subscribeToSurgeRules(setRules), []);
+
+  const openForm = (rule: SurgeRule | null) => {
+    setEditing(rule);
+    if (!rule) { setForm({ ...EMPTY_RULE }); return; }
+    const { id, createdAt, ...rest } = rule;
+    setForm(rest);
+  };
+
+  const toggleIn = (list: any[] | undefined, value: any) => {
+    const current = list || [];
+    return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      await saveSurgeRule(form, editing);
+      setForm(null);
+    } catch (e) {
+      alert(e instanceof SurgeRuleError ? e.message : 'فشل حفظ القاعدة');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: SurgeRule) => {
+    if (!confirm(`حذف قاعدة "${rule.name}"؟`)) return;
+    try { await deleteSurgeRule(rule.id); } catch (e) { alert('فشل الحذف'); }
+  };
+
+  const toggleActive = async (rule: SurgeRule) => {
+    const { id, createdAt, ...rest } = rule;
+    try { await saveSurgeRule({ ...rest, isActive: !rule.isActive }, rule); } catch (e) { alert('فشل التحديث'); }
+  };
+
+  const formError = form ? validateSurgeRule(form) : null;
+
+  return (
+    <div className="bg-white p-8 rounded-[3.5rem] border border-slate-100 shadow-xl space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="font-black text-xl text-slate-950 flex items-center gap-2"><Zap className="h-5 w-5 text-amber-500" /> أسعار الذروة</h4>
+          <p className="text-[10px] font-bold text-slate-400 mt-1">القواعد المتحققة تتضاعف معاً بحد أقصى × {SURGE_CONFIG.maxMultiplier}، ويظهر سببها للعميل قبل التأكيد</p>
+        </div>
+        {!form && <button onClick={() => openForm(null)} className="bg-slate-900 text-white px-5 py-3 rounded-2xl font-black text-xs flex items-center gap-2 active:scale-95 transition-all"><Plus className="h-4 w-4" /> قاعدة جديدة</button>}
+      </div>
+
+      {form && (
+        <div className="bg-slate-50 p-6 rounded-[2.5rem] space-y-4 animate-in zoom-in">
+          <div className="flex justify-between items-center">
+            <h5 className="font-black text-sm text-slate-800">{editing ? 'تعديل القاعدة' : 'قاعدة جديدة'}</h5>
+            <button onClick={() => setForm(null)} className="text-slate-400"><X className="h-5 w-5" /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="اسم القاعدة (للإدارة)" className="bg-white p-4 rounded-2xl font-bold text-xs outline-none" />
+            <input value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} placeholder="السبب الظاهر للعميل" className="bg-white p-4 rounded-2xl font-bold text-xs outline-none" />
+            <input type="number" step="0.05" value={form.multiplier} onChange={e => setForm({ ...form, multiplier: parseFloat(e.target.value) })} placeholder="المعامل" className="bg-white p-4 rounded-2xl font-black text-xs outline-none" />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {WEEK_DAYS.map((day, idx) => (
+              <button key={idx} type="button" onClick={() => setForm({ ...form, daysOfWeek: toggleIn(form.daysOfWeek, idx) })} className={`px-4 py-2 rounded-xl text-[10px] font-black transition-all ${form.daysOfWeek?.includes(idx) ? 'bg-amber-500 text-white' : 'bg-white text-slate-400'}`}>{day}</button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">من الساعة</span><input type="time" value={form.startTime || ''} onChange={e => setForm({ ...form, startTime: e.target.value || undefined })} className="w-full font-black text-xs outline-none" /></label>
+            <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">إلى الساعة</span><input type="time" value={form.endTime || ''} onChange={e => setForm({ ...form, endTime: e.target.value || undefined })} className="w-full font-black text-xs outline-none" /></label>
+            <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">من تاريخ</span><input type="date" value={form.startDate || ''} onChange={e => setForm({ ...form, startDate: e.target.value || undefined })} className="w-full font-black text-xs outline-none" /></label>
+            <label className="bg-white p-3 rounded-2xl space-y-1"><span className="text-[9px] font-black text-slate-400">إلى تاريخ</span><input type="date" value={form.endDate || ''} onChange={e => setForm({ ...form, endDate: e.target.value || undefined })} className="w-full font-black text-xs outline-none" /></label>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {MENOFIA_DATA.map(d => (
+              <button key={d.id} type="button" onClick={() => setForm({ ...form, districtIds: toggleIn(form.districtIds, d.id) })} className={`px-4 py-2 rounded-xl text-[10px] font-black transition-all ${form.districtIds?.includes(d.id) ? 'bg-slate-900 text-white' : 'bg-white text-slate-400'}`}>{d.name}</button>
+            ))}
+          </div>
+
+          <input type="number" step="0.5" value={form.minDemandRatio ?? ''} onChange={e => setForm({ ...form, minDemandRatio: e.target.value === '' ? undefined : parseFloat(e.target.value) })} placeholder="أقل نسبة طلب (طلبات مفتوحة لكل كابتن متاح) - اختياري" className="w-full bg-white p-4 rounded-2xl font-bold text-xs outline-none" />
+
+          {formError && <p className="text-[10px] font-black text-rose-500">{formError}</p>}
+          <button onClick={handleSave} disabled={!!formError || isSaving} className="w-full bg-amber-500 text-white py-4 rounded-2xl font-black text-xs active:scale-95 transition-all disabled:opacity-30">
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin mx-auto" /> : 'حفظ القاعدة'}
+          </button>
+        </div>
+      )}
+
+      {rules.length === 0 && !form && <p className="py-10 text-center text-slate-300 font-black text-xs">لا توجد قواعد ذروة</p>}
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className={`p-5 rounded-[2rem] flex justify-between items-center gap-4 ${rule.isActive ? 'bg-amber-50' : 'bg-slate-50 opacity-60'}`}>
+            <div className="flex-1">
+              <p className="font-black text-sm text-slate-900">{rule.name} <span className="text-amber-600">× {rule.multiplier}</span></p>
+              <p className="text-[10px] font-bold text-slate-500 mt-1">{describeRule(rule)}</p>
+              <p className="text-[10px] font-bold text-amber-700 mt-1">"{rule.reason}"</p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => toggleActive(rule)} className={`px-4 py-2 rounded-xl text-[10px] font-black ${rule.isActive ? 'bg-emerald-500 text-white' : 'bg-white text-slate-400'}`}>{rule.isActive ? 'مفعلة' : 'متوقفة'}</button>
+              <button onClick={() => openForm(rule)} className="p-2 bg-white rounded-xl text-slate-400"><Edit2 className="h-4 w-4" /></button>
+              <button onClick={() => handleDelete(rule)} className="p-2 bg-white rounded-xl text-rose-400"><Trash2 className="h-4 w-4" /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SurgeRulesPanel;
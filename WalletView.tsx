@@ -88,6 +88,9 @@ const WalletView: React.FC<{ user: User, onBack: () => void }> = ({ user, onBack
         <div className="relative z-10">
           <p className="text-[10px] font-black text-emerald-400 uppercase tracking-[0.3em] mb-4">إجمالي رصيدك المتوفر في وصلها</p>
           <h3 className="text-7xl font-black tracking-tighter">{(user.wallet?.balance || 0).toFixed(1)} <span className="text-sm opacity-40 font-bold">ج.م</span></h3>
+          {(user.wallet?.owed || 0) > 0 && (
+            <p className="mt-4 text-[10px] font-black text-amber-400">مستحق عليك {user.wallet.owed!.toFixed(1)} ج.م رسوم إلغاء لم يغطها رصيدك</p>
+          )}
           
           <div className="grid grid-cols-2 gap-4 mt-12">
             <button onClick={() => setShowTopUp(true)} className="bg-emerald-600 hover:bg-emerald-500 text-white py-5 rounded-3xl font-black text-xs flex items-center justify-center gap-3 transition-all shadow-lg shadow-emerald-900/20">
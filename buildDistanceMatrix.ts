@@ -0,0 +1,82 @@
+/**
+ * بناء مصفوفة المسافات بين كل القرى مرة واحدة وإرفاقها بالتطبيق في villageDistances.ts:
+ *   npm run build:distances
+ * ROUTING_URL خادم OSRM المستخدم (الافتراضي الخادم العام)، و GEO_CONFIG_FILE ملف JSON بمراكز geo_config
+ * لإضافة القرى التي أضافتها الإدارة أو تصحيح إحداثياتها
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import type { District, Village, VillageDistanceMatrix } from './types';
+import { MENOFIA_DATA } from './config/constants';
+
+const ROUTING_URL = (process.env.ROUTING_URL || 'https://router.project-osrm.org').replace(/\/$/, '');
+const CHUNK_SIZE = Number(process.env.ROUTING_CHUNK_SIZE || 50); // الخادم العام لا يقبل أكثر من 100 نقطة في الطلب
+const OUTPUT_FILE = new URL('./villageDistances.ts', import.meta.url);
+
+type RoutingTable = { distances: (number | null)[][], durations: (number | null)[][] };
+
+// قرى geo_config تأتي بعد الثابتة فتغلب إحداثياتها المصححة
+const loadVillages = (): Village[] => {
+  const districts: District[] = [...MENOFIA_DATA];
+  if (process.env.GEO_CONFIG_FILE) districts.push(...JSON.parse(readFileSync(process.env.GEO_CONFIG_FILE, 'utf8')));
+  const byId = new Map<string, Village>();
+  districts.forEach(d => d.villages.forEach(v => byId.set(v.id, v)));
+  return [...byId.values()].sort((a, b) => a.id.localeCompare(b.id));
+};
+
+const fetchTable = async (sources: Village[], destinations: Village[]): Promise<RoutingTable> => {
+  const coords = [...sources, ...destinations].map(v => `${v.center.lng},${v.center.lat}`).join(';');
+  const sourceIdx = sources.map((_, i) => i).join(';');
+  const destinationIdx = destinations.map((_, i) => sources.length + i).join(';');
+  const res = await fetch(`${ROUTING_URL}/table/v1/driving/${coords}?sources=${sourceIdx}&destinations=${destinationIdx}&annotations=distance,duration`);
+  const data = await res.json();
+  if (data.code !== 'Ok') throw new Error(`Routing backend error: ${data.code} ${data.message || ''}`);
+  return data;
+};
+
+const buildMatrix = async () => {
+  const villages = loadVillages();
+  const n = villages.length;
+  const distances = villages.map(() => Array<number | null>(n).fill(null));
+  const durations = villages.map(() => Array<number | null>(n).fill(null));
+
+  for (let i = 0; i < n; i += CHUNK_SIZE) {
+    for (let j = 0; j < n; j += CHUNK_SIZE) {
+      const sources = villages.slice(i, i + CHUNK_SIZE);
+      const destinations = villages.slice(j, j + CHUNK_SIZE);
+      const table = await fetchTable(sources, destinations);
+      sources.forEach((_, a) => destinations.forEach((_, b) => {
+        const meters = table.distances[a][b];
+        const seconds = table.durations[a][b];
+        // نفس تقريب getRoadDistance حتى يتطابق السعر مع الحساب المباشر
+        distances[i + a][j + b] = meters == null ? null : parseFloat((meters / 1000).toFixed(1));
+        durations[i + a][j + b] = seconds == null ? null : Math.ceil(seconds / 60);
+      }));
+      console.log(`routes ${i}-${i + sources.length} → ${j}-${j + destinations.length} of ${n}`);
+    }
+  }
+
+  // الإصدار يتغير مع تغير القرى أو إحداثياتها
+  const hash = createHash('sha1').update(JSON.stringify(villages.map(v => [v.id, v.center.lat, v.center.lng]))).digest('hex').slice(0, 8);
+  const matrix: VillageDistanceMatrix = {
+    version: `${new Date().toISOString().slice(0, 10)}-${hash}`,
+    generatedAt: Date.now(),
+    backend: ROUTING_URL,
+    villageIds: villages.map(v => v.id),
+    distances,
+    durations
+  };
+
+  writeFileSync(OUTPUT_FILE, `// ملف مولد بواسطة buildDistanceMatrix.ts - لا تعدله يدوياً
+import type { VillageDistanceMatrix } from './types';
+
+export const VILLAGE_DISTANCE_MATRIX: VillageDistanceMatrix = ${JSON.stringify(matrix)};
+`);
+  const missing = distances.flat().filter(d => d === null).length;
+  console.log(`villageDistances.ts ${matrix.version}: ${n} villages, ${missing} routes without a result`);
+};
+
+buildMatrix().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,9 +1,10 @@
 
-import type { Village, District } from '../types';
+import type { Village, District, OrderCategory, ProofOfDeliveryMethod, VehicleType, LoyaltyRules } from '../types';
 
 export type { District };
 
 export const PLATFORM_COMMISSION_RATE = 0.15;
+export const DEFAULT_OPERATOR_RATE = 0.05; // نسبة المشغل من الأجرة ما لم تحدد الإدارة نسبة خاصة به
 
 /**
  * البيانات الجغرافية الشاملة لمحافظة المنوفية (10 مراكز)
@@ -122,9 +123,145 @@ export const DEFAULT_PRICING = {
   sameVillagePrice: 25, 
   deliveryBasePrice: 30, 
   foodOutsidePricePerKm: 3, // سعر خاص للكيلومتر لطلبات الطعام خارج القرية
+  waitingPricePerMinute: 1, // سعر دقيقة انتظار الكابتن (مشاوير التاكسي)
+  roundTripReturnRate: 0.8, // نسبة سعر رحلة العودة من سعر الذهاب
+  offerBands: { minRatio: 0.7, outlierRatio: 1.5, maxRatio: 2.5 }, // حدود عروض الكباتن نسبة للسعر التقديري
   multipliers: {
     MOTORCYCLE: 0.85,
     TOKTOK: 1.0,
     CAR: 2.2
   }
 };
+
+/**
+ * مصفوفة مسافات القرى: نقطة مثل المطعم تعامل كقرية إذا كانت داخل هذا النطاق من مركزها
+ */
+export const DISTANCE_MATRIX_CONFIG = {
+  snapRadiusKm: 1.5
+};
+
+/**
+ * تحديد الموقع على الخريطة: أبعد مسافة عن مركز أقرب قرية ليعتبر الموقع داخل نطاق الخدمة
+ */
+export const LOCATION_PIN_CONFIG = {
+  maxVillageDistanceKm: 4,
+  defaultCenter: { lat: 30.5503, lng: 31.0106 }, // شبين الكوم
+  zoom: 16
+};
+
+/**
+ * سياسة إلغاء الطلبات: رسوم الإلغاء المتأخر تطبق بعد قبول الكابتن للطلب
+ */
+export const CANCELLATION_CONFIG = {
+  lateCancellationFee: 10
+};
+
+export const CANCELLATION_REASONS: Record<'CUSTOMER' | 'DRIVER', string[]> = {
+  CUSTOMER: [
+    'تأخر الكابتن في الوصول',
+    'لم أعد بحاجة للطلب',
+    'السعر مرتفع',
+    'طلبت بالخطأ',
+    'الكابتن طلب الإلغاء'
+  ],
+  DRIVER: [
+    'العميل لا يرد على الهاتف',
+    'عطل في المركبة',
+    'العنوان غير واضح',
+    'المسافة أبعد من المتوقع',
+    'العميل لم يحضر بعد انتهاء مهلة الانتظار',
+    'العميل طلب الإلغاء'
+  ]
+};
+
+/**
+ * مهلة العروض والتصعيد لكل فئة (بالدقائق): صلاحية العرض، تنبيه غرفة التحكم، ثم الإلغاء التلقائي
+ */
+export const OFFER_ESCALATION_CONFIG: Record<OrderCategory, { offerTtlMinutes: number; flagAfterMinutes: number; autoCancelAfterMinutes: number }> = {
+  TAXI: { offerTtlMinutes: 5, flagAfterMinutes: 5, autoCancelAfterMinutes: 20 },
+  FOOD: { offerTtlMinutes: 10, flagAfterMinutes: 10, autoCancelAfterMinutes: 40 },
+  PHARMACY: { offerTtlMinutes: 10, flagAfterMinutes: 10, autoCancelAfterMinutes: 45 },
+  GROCERY: { offerTtlMinutes: 10, flagAfterMinutes: 10, autoCancelAfterMinutes: 45 },
+  PARCEL: { offerTtlMinutes: 10, flagAfterMinutes: 15, autoCancelAfterMinutes: 60 }
+};
+
+/**
+ * الطلبات المجدولة: تظهر للكباتن قبل موعدها بمدة captainLeadMinutes، ويصل تذكير للعميل قبلها بمدة reminderMinutes
+ */
+export const SCHEDULING_CONFIG = {
+  captainLeadMinutes: 45,
+  reminderMinutes: 60,
+  minAdvanceMinutes: 30,
+  maxAdvanceDays: 7
+};
+
+/**
+ * إثبات التسليم المطلوب من الكابتن لكل فئة
+ */
+export const PROOF_OF_DELIVERY_CONFIG: Record<OrderCategory, ProofOfDeliveryMethod> = {
+  TAXI: 'NONE',
+  FOOD: 'PIN',
+  PHARMACY: 'PIN',
+  GROCERY: 'PHOTO',
+  PARCEL: 'SIGNATURE'
+};
+
+/**
+ * مهلة الانتظار المجانية بعد وصول الكابتن لنقطة الاستلام (بالدقائق)
+ */
+export const PICKUP_WAITING_CONFIG: Record<OrderCategory, { freeWaitingMinutes: number }> = {
+  TAXI: { freeWaitingMinutes: 5 },
+  FOOD: { freeWaitingMinutes: 10 },
+  PHARMACY: { freeWaitingMinutes: 10 },
+  GROCERY: { freeWaitingMinutes: 10 },
+  PARCEL: { freeWaitingMinutes: 5 }
+};
+
+/**
+ * الطلبات المتزامنة: الفئات التي يمكن تجميعها وأقصى عدد يحمله الكابتن حسب نوع المركبة
+ */
+export const STACKED_DELIVERY_CONFIG: { categories: OrderCategory[], capacity: Record<VehicleType, number> } = {
+  categories: ['FOOD'],
+  capacity: {
+    MOTORCYCLE: 3,
+    TOKTOK: 2,
+    CAR: 4
+  }
+};
+
+/**
+ * أسعار الذروة: أقصى معامل مجمع مهما تعددت القواعد، والكابتن يعتبر متاحاً إذا حدث موقعه خلال المدة المحددة
+ */
+export const SURGE_CONFIG = {
+  maxMultiplier: 2,
+  onlineWindowMinutes: 10
+};
+
+/**
+ * قواعد نقاط الولاء الافتراضية حتى تحفظ الإدارة قواعدها: 20 نقطة = 1 ج.م
+ */
+export const DEFAULT_LOYALTY_RULES: LoyaltyRules = {
+  isEnabled: true,
+  earnRates: { TAXI: 1, FOOD: 1, PHARMACY: 1, GROCERY: 1, PARCEL: 1 },
+  pointValue: 0.05,
+  minRedeemPoints: 100,
+  maxRedeemRatio: 0.5,
+  expiryDays: 180,
+  campaigns: []
+};
+
+/**
+ * الإكرامية بعد التوصيل: مبالغ جاهزة للاختيار السريع وحد أقصى للمبلغ المخصص
+ */
+export const TIP_CONFIG = {
+  presets: [5, 10, 20],
+  maxAmount: 200
+};
+
+/**
+ * الشكاوى: المدة المتاحة لفتح شكوى بعد التسليم (بالأيام) وأقصى عدد للصور
+ */
+export const DISPUTE_CONFIG = {
+  windowDays: 7,
+  maxPhotos: 3
+};
@@ -0,0 +1,157 @@
+import type { User, Coupon, Order, OrderCategory } from './types';
+import { OrderStatus } from './types';
+import { stripFirestore } from './utils';
+import { db } from './services/firebase';
+import {
+  collection, doc, query, where, limit, getDocs, getDoc, runTransaction, increment
+} from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import type { LedgerWriter } from './walletLedger';
+
+export type CouponInput = Omit<Coupon, 'id' | 'usedCount' | 'totalDiscount' | 'createdAt'>;
+
+export interface CouponContext {
+  category: OrderCategory;
+  restaurantId?: string;
+  districtId?: string;
+  orderTotal: number; // ما يدفعه العميل قبل الخصم
+  fare: number; // أجرة التوصيل أو المشوار، وهي ما يطبق عليه الخصم
+}
+
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * قيود الصلاحية والاستخدام، وتعاد مراجعتها داخل معاملة إنشاء الطلب
+ */
+export const getCouponLimitError = (coupon: Coupon, userUses: number, now: number = Date.now()): string | null => {
+  if (!coupon.isActive) return 'هذا الكوبون غير مفعل';
+  if (coupon.startsAt && now < coupon.startsAt) return 'هذا الكوبون لم يبدأ بعد';
+  if (coupon.expiresAt && now > coupon.expiresAt) return 'انتهت صلاحية هذا الكوبون';
+  if (coupon.usageLimit && (coupon.usedCount || 0) >= coupon.usageLimit) return 'تم استنفاد هذا الكوبون';
+  if (coupon.perUserLimit && userUses >= coupon.perUserLimit) return 'استخدمت هذا الكوبون بالحد المسموح';
+  return null;
+};
+
+export const getCouponError = (coupon: Coupon, ctx: CouponContext, userUses: number, now: number = Date.now()): string | null => {
+  const limitError = getCouponLimitError(coupon, userUses, now);
+  if (limitError) return limitError;
+  if (coupon.categories?.length && !coupon.categories.includes(ctx.category)) return 'الكوبون غير صالح لهذه الخدمة';
+  if (coupon.restaurantIds?.length && (!ctx.restaurantId || !coupon.restaurantIds.includes(ctx.restaurantId))) return 'الكوبون غير صالح لهذا المطعم';
+  if (coupon.districtIds?.length && (!ctx.districtId || !coupon.districtIds.includes(ctx.districtId))) return 'الكوبون غير صالح في منطقتك';
+  if (coupon.minOrderValue && ctx.orderTotal < coupon.minOrderValue) return `الحد الأدنى للطلب ${coupon.minOrderValue} ج.م`;
+  return null;
+};
+
+// الخصم لا يتجاوز الأجرة نفسها، ونسبة الخصم تقص عند سقفها إن وجد
+export const calculateCouponDiscount = (coupon: Coupon, fare: number): number => {
+  const raw = coupon.discountType === 'PERCENTAGE' ? Math.round(fare * coupon.value / 100) : coupon.value;
+  const capped = coupon.discountType === 'PERCENTAGE' && coupon.maxDiscount ? Math.min(raw, coupon.maxDiscount) : raw;
+  return Math.max(0, Math.min(fare, capped));
+};
+
+export const describeCoupon = (coupon: Pick<Coupon, 'discountType' | 'value' | 'maxDiscount'>) => {
+  if (coupon.discountType === 'FIXED') return `خصم ${coupon.value} ج.م`;
+  return `خصم ${coupon.value}%${coupon.maxDiscount ? ` بحد أقصى ${coupon.maxDiscount} ج.م` : ''}`;
+};
+
+const usageRef = (couponId: string, userId: string) => doc(db, "coupon_usage", `${couponId}_${userId}`);
+
+export const findCouponByCode = async (code: string): Promise<Coupon | null> => {
+  const snap = await getDocs(query(collection(db, "coupons"), where("code", "==", normalizeCouponCode(code)), limit(1)));
+  if (snap.empty) return null;
+  return { id: snap.docs[0].id, ...stripFirestore(snap.docs[0].data()) } as Coupon;
+};
+
+export const checkCoupon = async (code: string, ctx: CouponContext, userId: string): Promise<Coupon> => {
+  const coupon = await findCouponByCode(code);
+  if (!coupon) throw new CouponError('الكود غير صحيح');
+  const usage = await getDoc(usageRef(coupon.id, userId));
+  const error = getCouponError(coupon, ctx, usage.exists() ? usage.data().count || 0 : 0);
+  if (error) throw new CouponError(error);
+  return coupon;
+};
+
+/**
+ * إنشاء الطلب واستهلاك الكوبون في معاملة واحدة حتى لا يتجاوز الاستخدام حدوده عند التزامن
+ */
+export const placeOrderWithCoupon = async (
+  orderRef: ReturnType<typeof doc>,
+  orderData: Record<string, any>,
+  coupon: Coupon,
+  discount: number,
+  customer: Pick<User, 'id' | 'name'>,
+  writeExtras?: (writer: LedgerWriter) => void
+) => {
+  const couponRef = doc(db, "coupons", coupon.id);
+  const userUsageRef = usageRef(coupon.id, customer.id);
+
+  await runTransaction(db, async (tx) => {
+    const couponSnap = await tx.get(couponRef);
+    const usageSnap = await tx.get(userUsageRef);
+    if (!couponSnap.exists()) throw new CouponError('الكود غير صحيح');
+    const uses = usageSnap.exists() ? usageSnap.data().count || 0 : 0;
+    const error = getCouponLimitError({ id: coupon.id, ...stripFirestore(couponSnap.data()) } as Coupon, uses);
+    if (error) throw new CouponError(error);
+
+    const now = Date.now();
+    tx.set(orderRef, orderData);
+    writeExtras?.(tx);
+    tx.update(couponRef, { usedCount: increment(1), totalDiscount: increment(discount) });
+    tx.set(userUsageRef, { couponId: coupon.id, userId: customer.id, count: uses + 1, lastUsedAt: now });
+    tx.set(doc(collection(db, "coupon_redemptions")), {
+      couponId: coupon.id,
+      code: coupon.code,
+      userId: customer.id,
+      userName: customer.name,
+      orderId: orderRef.id,
+      discount,
+      createdAt: now
+    });
+  });
+};
+
+export const isCouponReleaseDue = (order: Order, updates: Record<string, any>) =>
+  updates.status === OrderStatus.CANCELLED && !!order.appliedCoupon && !order.appliedCoupon.releasedAt;
+
+// الطلب الملغي لا يحتسب من حدود الكوبون ولا من إجمالي خصمه
+export const releaseCoupon = (writer: LedgerWriter, order: Order) => {
+  const { couponId, discount } = order.appliedCoupon!;
+  writer.update(doc(db, "coupons", couponId), { usedCount: increment(-1), totalDiscount: increment(-discount) });
+  writer.update(usageRef(couponId, order.customerId), { count: increment(-1) });
+};
+
+export const validateCouponInput = (input: CouponInput): string | null => {
+  if (!/^[A-Z0-9_-]{3,20}$/.test(normalizeCouponCode(input.code))) return 'الكود من 3 إلى 20 حرفاً إنجليزياً أو رقماً';
+  if (!Number.isFinite(input.value) || input.value <= 0) return 'قيمة الخصم يجب أن تكون أكبر من صفر';
+  if (input.discountType === 'PERCENTAGE' && input.value > 100) return 'نسبة الخصم لا تتجاوز 100%';
+  if (input.startsAt && input.expiresAt && input.startsAt > input.expiresAt) return 'تاريخ البداية بعد تاريخ الانتهاء';
+  return null;
+};
+
+export const saveCoupon = async (input: CouponInput, existing?: Coupon | null) => {
+  const error = validateCouponInput(input);
+  if (error) throw new CouponError(error);
+  const code = normalizeCouponCode(input.code);
+  const duplicate = await findCouponByCode(code);
+  if (duplicate && duplicate.id !== existing?.id) throw new CouponError('يوجد كوبون بنفس الكود');
+
+  // العدادات تقرأ داخل المعاملة حتى لا يضيع استخدام تم أثناء التعديل
+  const ref = existing ? doc(db, "coupons", existing.id) : doc(collection(db, "coupons"));
+  await runTransaction(db, async (tx) => {
+    const current = existing ? await tx.get(ref) : null;
+    const counters = current?.exists() ? current.data() : {};
+    tx.set(ref, stripFirestore({
+      ...input,
+      code,
+      usedCount: counters.usedCount || 0,
+      totalDiscount: counters.totalDiscount || 0,
+      createdAt: counters.createdAt || Date.now()
+    }));
+  });
+};
@@ -0,0 +1,120 @@
+import type { Order, User, Dispute, DisputeCategory, DisputeStatus } from './types';
+import { OrderStatus } from './types';
+import { DISPUTE_CONFIG } from './config/constants';
+import { stripFirestore } from './utils';
+import { db } from './services/firebase';
+import { collection, doc, runTransaction } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { orderEventsCollection, buildOrderEvent } from './orderEvents';
+import { postLedgerEntry } from './walletLedger';
+
+export const DISPUTE_CATEGORY_LABELS: Record<DisputeCategory, string> = {
+  MISSING_ITEM: 'صنف ناقص',
+  OVERCHARGE: 'مبلغ زائد',
+  DAMAGED: 'الطلب تالف',
+  DRIVER_BEHAVIOR: 'سلوك الكابتن',
+  OTHER: 'مشكلة أخرى'
+};
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  OPEN: 'قيد المراجعة',
+  REJECTED: 'مرفوضة',
+  PARTIAL_REFUND: 'استرداد جزئي',
+  FULL_REFUND: 'استرداد كامل'
+};
+
+export class DisputeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+/**
+ * الشكوى متاحة مرة واحدة للطلب بعد التسليم وخلال مدة محددة
+ */
+export const canOpenDispute = (order: Order, now: number = Date.now()): boolean => {
+  if (![OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED].includes(order.status) || order.disputeId) return false;
+  const deliveredAt = order.deliveredAt || order.createdAt;
+  return now - deliveredAt <= DISPUTE_CONFIG.windowDays * 24 * 60 * 60 * 1000;
+};
+
+export const openDispute = async (
+  order: Order,
+  customer: User,
+  input: { category: DisputeCategory, description: string, photos: string[] }
+) => {
+  const disputeRef = doc(collection(db, "disputes"));
+  const orderRef = doc(db, "orders", order.id);
+
+  await runTransaction(db, async (tx) => {
+    const orderSnap = await tx.get(orderRef);
+    if (orderSnap.exists() && orderSnap.data().disputeId) throw new DisputeError('يوجد شكوى مفتوحة على هذا الطلب بالفعل');
+
+    tx.set(disputeRef, stripFirestore({
+      orderId: order.id,
+      customerId: customer.id,
+      customerName: customer.name,
+      customerPhone: customer.phone,
+      driverId: order.driverId || null,
+      driverName: order.driverName || null,
+      category: input.category,
+      description: input.description.trim(),
+      photos: input.photos.slice(0, DISPUTE_CONFIG.maxPhotos),
+      orderPrice: order.price,
+      orderItemsTotal: order.priceBreakdown?.itemsTotal || 0,
+      status: 'OPEN',
+      createdAt: Date.now()
+    }));
+    const updates = { disputeId: disputeRef.id, disputeStatus: 'OPEN' };
+    tx.update(orderRef, updates);
+    tx.set(doc(orderEventsCollection(order.id)), buildOrderEvent(order.id, 'DISPUTE_OPENED', customer, {}, { ...updates, category: input.category }));
+  });
+};
+
+// أجرة المشوار فقط هي ما حصله الكابتن، فلا يحمل افتراضياً قيمة الوجبات عند رد كامل المبلغ
+export const getDefaultDriverCharge = (dispute: Dispute, refundAmount: number): number =>
+  Math.min(refundAmount, Math.max(0, dispute.orderPrice - (dispute.orderItemsTotal || 0)));
+
+/**
+ * قرار الإدارة: المبلغ المسترد يضاف لمحفظة العميل، والجزء المحمل على الكابتن يخصم من أرباحه
+ */
+export const resolveDispute = async (
+  dispute: Dispute,
+  outcome: Exclude<DisputeStatus, 'OPEN'>,
+  amounts: { refundAmount: number, driverCharge: number },
+  note: string,
+  actor: Pick<User, 'id' | 'role'>
+) => {
+  const refundAmount = outcome === 'REJECTED' ? 0 : outcome === 'FULL_REFUND' ? dispute.orderPrice : amounts.refundAmount;
+  const driverCharge = dispute.driverId ? Math.min(Math.max(0, amounts.driverCharge), refundAmount) : 0;
+  if (outcome === 'PARTIAL_REFUND' && (refundAmount <= 0 || refundAmount >= dispute.orderPrice)) {
+    throw new DisputeError('مبلغ الاسترداد الجزئي يجب أن يكون أكبر من صفر وأقل من قيمة الطلب');
+  }
+
+  const disputeRef = doc(db, "disputes", dispute.id);
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(disputeRef);
+    if (!snap.exists() || snap.data().status !== 'OPEN') throw new DisputeError('تم البت في هذه الشكوى مسبقاً');
+
+    const resolution = { status: outcome, refundAmount, driverCharge, resolutionNote: note.trim(), resolvedBy: actor.id, resolvedAt: Date.now() };
+    tx.update(disputeRef, resolution);
+    tx.update(doc(db, "orders", dispute.orderId), { disputeStatus: outcome, refundedAmount: refundAmount });
+
+    if (refundAmount > 0) {
+      postLedgerEntry(tx, { userId: dispute.customerId, type: 'CREDIT', amount: refundAmount, description: `استرداد عن شكوى الطلب #${dispute.orderId.slice(-6)}`, orderId: dispute.orderId });
+    }
+    if (driverCharge > 0 && dispute.driverId) {
+      postLedgerEntry(tx, { userId: dispute.driverId, type: 'DEBIT', amount: driverCharge, description: `خصم بسبب شكوى على الطلب #${dispute.orderId.slice(-6)}`, orderId: dispute.orderId }, true);
+    }
+
+    tx.set(doc(collection(db, "notifications")), {
+      userId: dispute.customerId,
+      title: outcome === 'REJECTED' ? 'تمت مراجعة شكواك' : 'تم قبول شكواك',
+      body: outcome === 'REJECTED' ? (note.trim() || 'لم نتمكن من قبول الشكوى بعد المراجعة') : `تمت إضافة ${refundAmount} ج.م إلى محفظتك`,
+      type: outcome === 'REJECTED' ? 'INFO' : 'SUCCESS',
+      createdAt: Date.now(),
+      read: false
+    });
+    tx.set(doc(orderEventsCollection(dispute.orderId)), buildOrderEvent(dispute.orderId, 'DISPUTE_RESOLVED', actor, { disputeStatus: 'OPEN' }, { disputeStatus: outcome, refundAmount, driverCharge }));
+  });
+};
@@ -0,0 +1,70 @@
+import type { Village, LatLng } from './types';
+import { DISTANCE_MATRIX_CONFIG } from './config/constants';
+import { getRoadDistance } from './utils';
+import { VILLAGE_DISTANCE_MATRIX } from './villageDistances';
+import { findNearestVillage } from './locationPins';
+
+export interface RoadDistance {
+  distance: number;
+  duration: number;
+}
+
+// نقطة في المسار: القرية دائماً، والموقع الدقيق إذا حدده العميل على الخريطة
+export interface RoutePoint {
+  village: Village;
+  pin?: LatLng | null;
+}
+
+const matrixIndex = new Map(VILLAGE_DISTANCE_MATRIX.villageIds.map((id, idx) => [id, idx]));
+
+/**
+ * المسافة بين قريتين من المصفوفة المرفقة بالتطبيق، أو null إن لم تكن فيها
+ */
+export const getMatrixDistance = (fromId: string, toId: string): RoadDistance | null => {
+  const from = matrixIndex.get(fromId);
+  const to = matrixIndex.get(toId);
+  if (from === undefined || to === undefined) return null;
+  if (from === to) return { distance: 0, duration: 0 };
+  const distance = VILLAGE_DISTANCE_MATRIX.distances[from]?.[to];
+  const duration = VILLAGE_DISTANCE_MATRIX.durations[from]?.[to];
+  if (distance == null || duration == null) return null;
+  return { distance, duration };
+};
+
+// أقرب قرية لنقطة (مطعم أو صيدلية) إذا كانت داخل نطاق مركزها
+export const findVillageAtPoint = (lat: number, lng: number): Village | null => {
+  return findNearestVillage({ lat, lng }, DISTANCE_MATRIX_CONFIG.snapRadiusKm)?.village || null;
+};
+
+/**
+ * المسافة بين قريتين: المصفوفة أولاً حتى يتطابق السعر في كل مرة، وخدمة الطرق للقرى الجديدة فقط
+ */
+export const getVillageDistance = async (from: Village, to: Village): Promise<RoadDistance> => {
+  return getMatrixDistance(from.id, to.id) || getRoadDistance(from.center.lat, from.center.lng, to.center.lat, to.center.lng);
+};
+
+export const getPointToVillageDistance = async (point: LatLng, to: Village, toPin?: LatLng | null): Promise<RoadDistance> => {
+  if (toPin) return getRoadDistance(point.lat, point.lng, toPin.lat, toPin.lng);
+  const from = findVillageAtPoint(point.lat, point.lng);
+  const cached = from ? getMatrixDistance(from.id, to.id) : null;
+  return cached || getRoadDistance(point.lat, point.lng, to.center.lat, to.center.lng);
+};
+
+// المرحلة التي بها موقع دقيق تحسب من خدمة الطرق بين النقطتين، وبين مركزي قريتين من المصفوفة
+const getLegDistance = (from: RoutePoint, to: RoutePoint): Promise<RoadDistance> => {
+  if (!from.pin && !to.pin) return getVillageDistance(from.village, to.village);
+  const a = from.pin || from.village.center;
+  const b = to.pin || to.village.center;
+  return getRoadDistance(a.lat, a.lng, b.lat, b.lng);
+};
+
+/**
+ * مسافة مسار متعدد المحطات بالترتيب
+ */
+export const getRouteDistance = async (points: RoutePoint[]): Promise<RoadDistance> => {
+  const legs = await Promise.all(points.slice(1).map((p, i) => getLegDistance(points[i], p)));
+  return {
+    distance: parseFloat(legs.reduce((sum, leg) => sum + leg.distance, 0).toFixed(1)),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0)
+  };
+};
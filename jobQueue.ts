@@ -0,0 +1,39 @@
+import type { Order, VehicleType } from './types';
+import { OrderStatus } from './types';
+import { STACKED_DELIVERY_CONFIG } from './config/constants';
+
+// ترتيب الطابور: الاستلام الجاري ثم باقي الاستلامات ثم التوصيل الجاري ثم الطلبات المحمولة
+const QUEUE_STAGE: Partial<Record<OrderStatus, number>> = {
+  [OrderStatus.ARRIVED_AT_PICKUP]: 0,
+  [OrderStatus.ACCEPTED]: 1,
+  [OrderStatus.ON_THE_WAY]: 2,
+  [OrderStatus.PICKED_UP]: 3
+};
+
+export const getJobCapacity = (vehicleType?: VehicleType): number => {
+  return STACKED_DELIVERY_CONFIG.capacity[vehicleType || 'MOTORCYCLE'] || 1;
+};
+
+export const isStackable = (order: Pick<Order, 'category'>): boolean => {
+  return STACKED_DELIVERY_CONFIG.categories.includes(order.category);
+};
+
+export const hasRoomForMoreJobs = (heldOrders: Pick<Order, 'category'>[], vehicleType?: VehicleType): boolean => {
+  return heldOrders.every(isStackable) && heldOrders.length < getJobCapacity(vehicleType);
+};
+
+/**
+ * سبب منع الكابتن من أخذ طلب إضافي، أو null إذا كان مسموحاً
+ */
+export const getStackingBlocker = (order: Pick<Order, 'category'>, heldOrders: Pick<Order, 'category'>[], vehicleType?: VehicleType): string | null => {
+  if (heldOrders.length === 0) return null;
+  if (!isStackable(order) || heldOrders.some(held => !isStackable(held))) return 'الكابتن مشغول حالياً بمشوار آخر';
+  if (heldOrders.length >= getJobCapacity(vehicleType)) return 'الكابتن وصل للحد الأقصى من الطلبات المتزامنة';
+  return null;
+};
+
+export const sortJobQueue = (orders: Order[]): Order[] => {
+  return [...orders].sort((a, b) =>
+    (QUEUE_STAGE[a.status] ?? 9) - (QUEUE_STAGE[b.status] ?? 9) || (a.acceptedAt || a.createdAt) - (b.acceptedAt || b.createdAt)
+  );
+};
@@ -0,0 +1,70 @@
+import type { District, Village, LatLng } from './types';
+import { MENOFIA_DATA, LOCATION_PIN_CONFIG } from './config/constants';
+import { calculateDistance, stripFirestore } from './utils';
+import { db } from './services/firebase';
+import { collection, onSnapshot } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+export interface VillageMatch {
+  district: District;
+  village: Village;
+  distanceKm: number;
+}
+
+export class LocationPinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocationPinError';
+  }
+}
+
+// مراكز geo_config تغلب الثابتة بنفس المعرف، فتدخل القرى التي أضافتها الإدارة والإحداثيات المصححة
+export const mergeGeoDistricts = (geo: District[]): District[] => {
+  const byId = new Map<string, District>(MENOFIA_DATA.map(d => [d.id, d]));
+  geo.forEach(d => byId.set(d.id, d));
+  return [...byId.values()];
+};
+
+export const subscribeToGeoDistricts = (onChange: (districts: District[]) => void) => {
+  return onSnapshot(collection(db, "geo_config"), (snap) => {
+    onChange(mergeGeoDistricts(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as District[]));
+  });
+};
+
+/**
+ * أقرب قرية لنقطة على الخريطة، أو null إذا كانت أبعد من maxKm عن مركزها
+ */
+export const findNearestVillage = (point: LatLng, maxKm: number = LOCATION_PIN_CONFIG.maxVillageDistanceKm, districts: District[] = MENOFIA_DATA): VillageMatch | null => {
+  let best: VillageMatch | null = null;
+  for (const district of districts) {
+    for (const village of district.villages) {
+      const distanceKm = calculateDistance(point.lat, point.lng, village.center.lat, village.center.lng);
+      if (!best || distanceKm < best.distanceKm) best = { district, village, distanceKm };
+    }
+  }
+  return best && best.distanceKm <= maxKm ? best : null;
+};
+
+export const getCurrentPosition = (): Promise<LatLng> => new Promise((resolve, reject) => {
+  if (!("geolocation" in navigator)) return reject(new LocationPinError('جهازك لا يدعم تحديد الموقع'));
+  navigator.geolocation.getCurrentPosition(
+    (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+    (err) => reject(new LocationPinError(err.code === err.PERMISSION_DENIED ? 'يرجى السماح للتطبيق بالوصول لموقعك' : 'تعذر تحديد موقعك، حدده يدوياً على الخريطة')),
+    { enableHighAccuracy: true, timeout: 15000, maximumAge: 30000 }
+  );
+});
+
+/**
+ * موقع الطلب: النقطة المحددة على الخريطة إن وجدت وإلا مركز القرية، واسم القرية يبقى للتسعير والعرض
+ */
+export const toOrderLocation = (village: Village, pin?: LatLng | null, address?: string) => ({
+  address: address || village.name,
+  lat: pin?.lat ?? village.center.lat,
+  lng: pin?.lng ?? village.center.lng,
+  villageName: village.name,
+  ...(pin ? { pinned: true } : {})
+});
+
+export const getLocationPin = (location?: { lat: number, lng: number, pinned?: boolean } | null): LatLng | null =>
+  location?.pinned ? { lat: location.lat, lng: location.lng } : null;
+
+export const getNavigationUrl = (point: LatLng) => `https://www.google.com/maps/dir/?api=1&destination=${point.lat},${point.lng}`;
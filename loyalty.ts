@@ -0,0 +1,228 @@
+import type { Order, User, OrderCategory, LoyaltyRules, LoyaltyCampaign, LoyaltyEntry, LoyaltyEntryType, AppliedPoints } from './types';
+import { OrderStatus } from './types';
+import { DEFAULT_LOYALTY_RULES } from './config/constants';
+import { stripFirestore } from './utils';
+import { db } from './services/firebase';
+import {
+  collection, doc, query, where, orderBy, getDoc, getDocs, onSnapshot, setDoc, runTransaction, increment
+} from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import type { LedgerWriter } from './walletLedger';
+
+const RULES_REF = () => doc(db, "loyalty_rules", "default");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LOYALTY_ENTRY_LABELS: Record<LoyaltyEntryType, string> = {
+  EARN: 'نقاط مكتسبة',
+  REDEEM: 'استبدال',
+  REFUND: 'نقاط مستردة',
+  EXPIRE: 'نقاط منتهية'
+};
+
+export class LoyaltyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoyaltyError';
+  }
+}
+
+export const resolveLoyaltyRules = (data?: Partial<LoyaltyRules> | null): LoyaltyRules => ({
+  ...DEFAULT_LOYALTY_RULES,
+  ...data,
+  earnRates: { ...DEFAULT_LOYALTY_RULES.earnRates, ...data?.earnRates },
+  campaigns: data?.campaigns || []
+});
+
+export const subscribeToLoyaltyRules = (onChange: (rules: LoyaltyRules) => void) => {
+  return onSnapshot(RULES_REF(), (snap) => onChange(resolveLoyaltyRules(snap.exists() ? stripFirestore(snap.data()) : null)));
+};
+
+export const fetchLoyaltyRules = async (): Promise<LoyaltyRules> => {
+  const snap = await getDoc(RULES_REF());
+  return resolveLoyaltyRules(snap.exists() ? stripFirestore(snap.data()) : null);
+};
+
+export const validateLoyaltyRules = (rules: LoyaltyRules): string | null => {
+  const rates = Object.values(rules.earnRates) as number[];
+  if (rates.some(r => !Number.isFinite(r) || r < 0)) return 'معدلات الاكتساب يجب أن تكون أرقاماً موجبة';
+  if (!Number.isFinite(rules.pointValue) || rules.pointValue <= 0) return 'قيمة النقطة يجب أن تكون أكبر من صفر';
+  if (!Number.isInteger(rules.minRedeemPoints) || rules.minRedeemPoints < 0) return 'أقل عدد للاستبدال رقم صحيح موجب';
+  if (!(rules.maxRedeemRatio > 0 && rules.maxRedeemRatio <= 1)) return 'نسبة الاستبدال بين 1% و 100% من الأجرة';
+  if (!Number.isInteger(rules.expiryDays) || rules.expiryDays < 1) return 'مدة صلاحية النقاط يوم واحد على الأقل';
+  for (const c of rules.campaigns) {
+    if (!c.name.trim()) return 'اسم الحملة مطلوب';
+    if (!Number.isFinite(c.multiplier) || c.multiplier < 1 || c.multiplier > 10) return `مضاعف حملة "${c.name}" بين 1 و 10`;
+    if (!c.startsAt || !c.endsAt || c.startsAt > c.endsAt) return `حدد فترة صحيحة لحملة "${c.name}"`;
+  }
+  return null;
+};
+
+export const saveLoyaltyRules = async (rules: LoyaltyRules, actor: Pick<User, 'id' | 'name'>) => {
+  const error = validateLoyaltyRules(rules);
+  if (error) throw new LoyaltyError(error);
+  await setDoc(RULES_REF(), stripFirestore({ ...rules, updatedAt: Date.now(), updatedBy: actor.id, updatedByName: actor.name }));
+};
+
+export const isCampaignActive = (campaign: LoyaltyCampaign, category: OrderCategory, now: number = Date.now()) =>
+  campaign.isActive && now >= campaign.startsAt && now <= campaign.endsAt && (!campaign.categories?.length || campaign.categories.includes(category));
+
+// عند تداخل الحملات يطبق الأعلى مضاعفاً فقط
+export const getActiveCampaign = (rules: LoyaltyRules, category: OrderCategory, now: number = Date.now()): LoyaltyCampaign | null => {
+  return rules.campaigns.filter(c => isCampaignActive(c, category, now)).sort((a, b) => b.multiplier - a.multiplier)[0] || null;
+};
+
+/**
+ * النقاط على الأجرة المدفوعة فعلاً، وقيمة الوجبات لا تكسب نقاطاً لأنها تخص المطعم
+ */
+export const calculateEarnedPoints = (order: Order, price: number, rules: LoyaltyRules, now: number = Date.now()) => {
+  if (!rules.isEnabled) return 0;
+  const fare = Math.max(0, price - (order.priceBreakdown?.itemsTotal || 0));
+  const multiplier = getActiveCampaign(rules, order.category, now)?.multiplier || 1;
+  return Math.floor(fare * (rules.earnRates[order.category] || 0) * multiplier);
+};
+
+export const isLoyaltyEarnDue = (order: Order, updates: Record<string, any>) =>
+  updates.status === OrderStatus.DELIVERED && order.loyaltyPointsEarned == null && !!order.customerId;
+
+export const isPointsRefundDue = (order: Order, updates: Record<string, any>) =>
+  updates.status === OrderStatus.CANCELLED && !!order.appliedPoints && !order.appliedPoints.refundedAt;
+
+/**
+ * أقصى ما يمكن استبداله في الطلب: حسب الرصيد ونسبة الأجرة المسموحة، بالجنيه الصحيح
+ */
+export const getRedeemablePoints = (balance: number, fare: number, rules: LoyaltyRules): AppliedPoints | null => {
+  if (!rules.isEnabled || balance < rules.minRedeemPoints) return null;
+  const discount = Math.floor(Math.min(balance * rules.pointValue, fare * rules.maxRedeemRatio));
+  if (discount <= 0) return null;
+  return { points: Math.min(balance, Math.ceil(discount / rules.pointValue - 1e-9)), discount };
+};
+
+/**
+ * قيد نقاط مع تحديث رصيد العميل في نفس الكتابة، والدفعات الجديدة تحمل تاريخ انتهائها
+ */
+export const postLoyaltyEntry = (writer: LedgerWriter, entry: Omit<LoyaltyEntry, 'id' | 'createdAt' | 'remaining' | 'expiresAt'>, expiryDays?: number) => {
+  const now = Date.now();
+  const signed = entry.type === 'EARN' || entry.type === 'REFUND' ? entry.points : -entry.points;
+  writer.update(doc(db, "users", entry.userId), { loyaltyPoints: increment(signed) });
+  writer.set(doc(collection(db, "loyalty_transactions")), stripFirestore({
+    ...entry,
+    ...(expiryDays ? { remaining: entry.points, expiresAt: now + expiryDays * DAY_MS } : {}),
+    createdAt: now
+  }));
+};
+
+export const postEarnedPoints = (writer: LedgerWriter, order: Order, points: number, rules: LoyaltyRules) => {
+  const campaign = getActiveCampaign(rules, order.category);
+  postLoyaltyEntry(writer, {
+    userId: order.customerId,
+    type: 'EARN',
+    points,
+    orderId: order.id,
+    description: `نقاط الطلب #${order.id.slice(-6)}${campaign ? ` (${campaign.name})` : ''}`
+  }, rules.expiryDays);
+};
+
+export const postRefundedPoints = (writer: LedgerWriter, order: Order, rules: LoyaltyRules) => {
+  postLoyaltyEntry(writer, {
+    userId: order.customerId,
+    type: 'REFUND',
+    points: order.appliedPoints!.points,
+    orderId: order.id,
+    description: `استرداد نقاط الطلب الملغي #${order.id.slice(-6)}`
+  }, rules.expiryDays);
+};
+
+// الدفعات التي ما زال بها نقاط، والانتهاء يراجع عند الاستخدام
+const getOpenLots = async (userId: string): Promise<LoyaltyEntry[]> => {
+  const snap = await getDocs(query(collection(db, "loyalty_transactions"), where("userId", "==", userId), where("type", "in", ['EARN', 'REFUND'])));
+  return (snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as LoyaltyEntry[])
+    .filter(lot => (lot.remaining || 0) > 0)
+    .sort((a, b) => (a.expiresAt || 0) - (b.expiresAt || 0));
+};
+
+/**
+ * إنشاء الطلب وخصم النقاط في معاملة واحدة، والاستهلاك من الدفعات الأقرب انتهاءً أولاً
+ */
+export const placeOrderWithPoints = async (
+  orderRef: ReturnType<typeof doc>,
+  orderData: Record<string, any>,
+  applied: AppliedPoints,
+  customer: Pick<User, 'id'>,
+  writeExtras?: (writer: LedgerWriter) => void
+) => {
+  const lots = await getOpenLots(customer.id);
+
+  await runTransaction(db, async (tx) => {
+    const now = Date.now();
+    const lotSnaps = await Promise.all(lots.map(lot => tx.get(doc(db, "loyalty_transactions", lot.id))));
+    const usage: { ref: ReturnType<typeof doc>, remaining: number }[] = [];
+    let left = applied.points;
+    for (const snap of lotSnaps) {
+      const data = snap.data();
+      if (left <= 0 || !data || !(data.remaining > 0) || data.expiresAt <= now) continue;
+      const used = Math.min(data.remaining, left);
+      usage.push({ ref: snap.ref, remaining: data.remaining - used });
+      left -= used;
+    }
+    if (left > 0) throw new LoyaltyError('رصيد النقاط لا يكفي، ربما انتهت صلاحية بعضها');
+
+    tx.set(orderRef, orderData);
+    writeExtras?.(tx);
+    usage.forEach(u => tx.update(u.ref, { remaining: u.remaining }));
+    postLoyaltyEntry(tx, { userId: customer.id, type: 'REDEEM', points: applied.points, orderId: orderRef.id, description: `خصم ${applied.discount} ج.م على الطلب #${orderRef.id.slice(-6)}` });
+  });
+};
+
+/**
+ * تصفير الدفعات المنتهية وخصمها من الرصيد، تستدعى عند فتح حساب العميل
+ */
+export const expireLoyaltyPoints = async (userId: string) => {
+  const now = Date.now();
+  const expired = (await getOpenLots(userId)).filter(lot => (lot.expiresAt || 0) <= now);
+  if (expired.length === 0) return;
+
+  await runTransaction(db, async (tx) => {
+    const snaps = await Promise.all(expired.map(lot => tx.get(doc(db, "loyalty_transactions", lot.id))));
+    const open = snaps.filter(s => (s.data()?.remaining || 0) > 0);
+    const points = open.reduce((sum, s) => sum + s.data()!.remaining, 0);
+    if (points === 0) return;
+    open.forEach(s => tx.update(s.ref, { remaining: 0 }));
+    postLoyaltyEntry(tx, { userId, type: 'EXPIRE', points, description: 'انتهاء صلاحية نقاط' });
+  });
+};
+
+// الترتيب في المتصفح حتى لا يحتاج الاستعلام فهرساً مركباً على userId و createdAt
+export const subscribeToLoyaltyHistory = (userId: string, onChange: (entries: LoyaltyEntry[]) => void) => {
+  return onSnapshot(query(collection(db, "loyalty_transactions"), where("userId", "==", userId)), (snap) => {
+    const entries = snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as LoyaltyEntry[];
+    onChange(entries.sort((a, b) => b.createdAt - a.createdAt));
+  });
+};
+
+export const subscribeToLoyaltyEntries = (onChange: (entries: LoyaltyEntry[]) => void) => {
+  return onSnapshot(query(collection(db, "loyalty_transactions"), orderBy("createdAt", "desc")), (snap) => {
+    onChange(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as LoyaltyEntry[]);
+  });
+};
+
+export const getExpiringPoints = (entries: LoyaltyEntry[], withinDays: number, now: number = Date.now()) =>
+  entries.filter(e => (e.remaining || 0) > 0 && e.expiresAt && e.expiresAt > now && e.expiresAt <= now + withinDays * DAY_MS)
+    .reduce((sum, e) => sum + (e.remaining || 0), 0);
+
+/**
+ * التزامات البرنامج: النقاط السارية غير المستبدلة وقيمتها بالجنيه حسب قيمة النقطة الحالية
+ */
+export const summarizeLoyalty = (entries: LoyaltyEntry[], rules: LoyaltyRules, now: number = Date.now()) => {
+  const totals: Record<LoyaltyEntryType, number> = { EARN: 0, REDEEM: 0, REFUND: 0, EXPIRE: 0 };
+  entries.forEach(e => { totals[e.type] += e.points; });
+  const openLots = entries.filter(e => (e.remaining || 0) > 0 && (e.expiresAt || 0) > now);
+  const outstanding = openLots.reduce((sum, e) => sum + (e.remaining || 0), 0);
+  return {
+    issued: totals.EARN,
+    redeemed: totals.REDEEM - totals.REFUND,
+    expired: totals.EXPIRE,
+    outstanding,
+    liability: Math.round(outstanding * rules.pointValue),
+    expiringSoon: getExpiringPoints(entries, 30, now),
+    holders: new Set(openLots.map(e => e.userId)).size
+  };
+};
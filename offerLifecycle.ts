@@ -0,0 +1,124 @@
+import type { Order, Offer, OfferStatus, User, FlaggedOffer } from './types';
+import { db } from './services/firebase';
+import { collection, doc, updateDoc, runTransaction, increment, deleteField } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { logOrderEvent } from './orderEvents';
+import { getOfferExpiry, isOfferExpired } from './orderEscalation';
+import type { OfferBounds } from './pricingZones';
+import type { LedgerWriter } from './walletLedger';
+
+type OfferActor = Pick<User, 'id' | 'role'>;
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  PENDING: 'بانتظار رد العميل',
+  ACCEPTED: 'تم قبول عرضك',
+  REJECTED: 'اختار العميل كابتن آخر',
+  WITHDRAWN: 'تم سحب العرض',
+  EXPIRED: 'انتهت صلاحية العرض'
+};
+
+/**
+ * الحالة الفعلية للعرض: العرض المعلق بعد انتهاء مهلته يعتبر منتهياً
+ */
+export const getOfferStatus = (offer: Offer, now: number = Date.now()): OfferStatus => {
+  const status = offer.status || 'PENDING';
+  if (status === 'PENDING' && isOfferExpired(offer, now)) return 'EXPIRED';
+  return status;
+};
+
+export const isOfferOpen = (offer: Offer, now: number = Date.now()) => getOfferStatus(offer, now) === 'PENDING';
+
+// يعاد حسابه مع كل تغيير في السعر، فقبول الكابتن لسعر العميل قد يرفع العلامة
+export const isOutlierOffer = (offer: Pick<Offer, 'price' | 'outlierAbove'>) => !!offer.outlierAbove && offer.price > offer.outlierAbove;
+
+type FlagSource = Pick<Offer, 'id' | 'driverId' | 'driverName' | 'estimate' | 'outlierAbove'>;
+
+/**
+ * علامة العرض المرتفع على الطلب تتبع آخر سعر للعرض: تسجل إذا ارتفع، وتزال إذا عاد للنطاق أو سحب (price = null)
+ */
+export const getOfferFlagUpdate = (flagged: FlaggedOffer | undefined, offer: FlagSource, price: number | null) => {
+  if (price !== null && isOutlierOffer({ price, outlierAbove: offer.outlierAbove })) {
+    return { flaggedOffer: { offerId: offer.id, driverId: offer.driverId, driverName: offer.driverName, price, estimate: offer.estimate || 0, flaggedAt: Date.now() } };
+  }
+  return flagged?.offerId === offer.id ? { flaggedOffer: deleteField() } : {};
+};
+
+// العرض وعلامة الطلب يحدثان معاً، والعلامة الحالية تقرأ من الطلب داخل المعاملة
+const updateOfferWithFlag = (offer: FlagSource & Pick<Offer, 'orderId'>, offerUpdates: Record<string, any>, price: number | null, orderUpdates: Record<string, any> = {}) => {
+  const orderRef = doc(db, "orders", offer.orderId);
+  return runTransaction(db, async (tx) => {
+    const orderSnap = await tx.get(orderRef);
+    tx.update(doc(db, "offers", offer.id), offerUpdates);
+    const changes = { ...orderUpdates, ...getOfferFlagUpdate(orderSnap.data()?.flaggedOffer, offer, price) };
+    if (orderSnap.exists() && Object.keys(changes).length > 0) tx.update(orderRef, changes);
+  });
+};
+
+// السحب ينقص عداد عروض الطلب فيعود تصعيده إن لم يبق عرض آخر
+export const withdrawOffer = async (offer: Offer, actor: OfferActor) => {
+  await updateOfferWithFlag(offer, { status: 'WITHDRAWN', updatedAt: Date.now() }, null, { offersCount: increment(-1) });
+  await logOrderEvent(offer.orderId, 'OFFER_WITHDRAWN', actor, { offerId: offer.id }, { price: offer.price });
+};
+
+/**
+ * تعديل سعر العرض يجدد مهلته ويلغي أي سعر مقترح سابق من العميل
+ */
+export const reviseOffer = async (offer: Offer, order: Pick<Order, 'category'>, price: number, actor: OfferActor, bounds?: Pick<OfferBounds, 'estimate' | 'outlierAbove'>) => {
+  await updateOfferWithFlag({ ...offer, ...bounds }, {
+    price,
+    ...(bounds ? { estimate: bounds.estimate, outlierAbove: bounds.outlierAbove } : {}),
+    status: 'PENDING',
+    counterPrice: null,
+    counterStatus: null,
+    expiresAt: getOfferExpiry(order),
+    updatedAt: Date.now()
+  }, price);
+  await logOrderEvent(offer.orderId, 'OFFER_REVISED', actor, { offerId: offer.id, price }, { price: offer.price });
+};
+
+export const counterOffer = async (offer: Offer, price: number, actor: OfferActor) => {
+  await updateDoc(doc(db, "offers", offer.id), { counterPrice: price, counterStatus: 'PENDING', updatedAt: Date.now() });
+  await logOrderEvent(offer.orderId, 'COUNTER_OFFERED', actor, { offerId: offer.id, counterPrice: price }, { price: offer.price });
+};
+
+/**
+ * رد الكابتن على السعر المقترح: الموافقة تعتمد السعر الجديد للعرض ويبقى القبول النهائي للعميل
+ */
+export const respondToCounter = async (offer: Offer, order: Pick<Order, 'category'>, accept: boolean, actor: OfferActor) => {
+  if (offer.counterStatus !== 'PENDING' || !offer.counterPrice) return;
+  const updates: Record<string, any> = accept
+    ? { price: offer.counterPrice, counterStatus: 'ACCEPTED', expiresAt: getOfferExpiry(order), updatedAt: Date.now() }
+    : { counterStatus: 'DECLINED', updatedAt: Date.now() };
+  if (accept) await updateOfferWithFlag(offer, updates, offer.counterPrice);
+  else await updateDoc(doc(db, "offers", offer.id), updates);
+  await logOrderEvent(offer.orderId, accept ? 'COUNTER_ACCEPTED' : 'COUNTER_DECLINED', actor, { offerId: offer.id, ...updates }, { price: offer.price });
+};
+
+/**
+ * تسوية عروض الطلب بعد إسناده: عرض الكابتن الفائز ACCEPTED وباقي العروض المعلقة REJECTED مع إبلاغ أصحابها،
+ * وتكتب في معاملة الإسناد نفسها
+ */
+export const postOfferSettlement = (writer: LedgerWriter, offers: Offer[], winnerDriverId: string) => {
+  const now = Date.now();
+
+  offers.forEach(offer => {
+    const ref = doc(db, "offers", offer.id);
+    if ((offer.status || 'PENDING') !== 'PENDING') return;
+    if (offer.driverId === winnerDriverId) {
+      writer.update(ref, { status: 'ACCEPTED', updatedAt: now });
+      return;
+    }
+    if (isOfferExpired(offer, now)) {
+      writer.update(ref, { status: 'EXPIRED', updatedAt: now });
+      return;
+    }
+    writer.update(ref, { status: 'REJECTED', updatedAt: now });
+    writer.set(doc(collection(db, "notifications")), {
+      userId: offer.driverId,
+      title: 'لم يتم اختيار عرضك',
+      body: 'اختار العميل كابتن آخر لهذا المشوار، بالتوفيق في المشوار القادم.',
+      type: 'INFO',
+      createdAt: now,
+      read: false
+    });
+  });
+};
@@ -0,0 +1,75 @@
+import type { Order, User, Offer } from './types';
+import { OrderStatus } from './types';
+import { db } from './services/firebase';
+import { collection, doc, query, where, getDocs, runTransaction } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { transitionOrder, OrderAssignmentError } from './orderLifecycle';
+import { orderEventsCollection, buildOrderEvent, pickPrevious } from './orderEvents';
+import { getStackingBlocker } from './jobQueue';
+import { isOfferOpen, postOfferSettlement } from './offerLifecycle';
+import { getCustomerPrice } from './orderSettlement';
+
+const FINISHED_STATUSES = [OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED];
+
+/**
+ * إسناد الطلب لكابتن داخل معاملة واحدة: يتحقق أن الطلب ما زال ينتظر العروض
+ * وأن الكابتن يتسع لطلب إضافي، ثم يحجز الكابتن ويسوي العروض ويسجل الحدث.
+ * عند قبول عرض يعاد قراءته في المعاملة ويؤخذ السعر منه لا من نسخة العميل
+ */
+export const assignOrderToDriver = async (
+  orderId: string,
+  driverId: string,
+  actor: Pick<User, 'id' | 'role'>,
+  extra: Record<string, any> = {},
+  offerId?: string
+) => {
+  const orderRef = doc(db, "orders", orderId);
+  const driverRef = doc(db, "users", driverId);
+  // المعاملة لا تقبل الاستعلامات، فتحدد العروض أولاً ويعاد قراءة كل عرض داخلها
+  const offerRefs = (await getDocs(query(collection(db, "offers"), where("orderId", "==", orderId)))).docs.map(d => d.ref);
+  if (offerId && !offerRefs.some(ref => ref.id === offerId)) offerRefs.push(doc(db, "offers", offerId));
+
+  await runTransaction(db, async (tx) => {
+    const orderSnap = await tx.get(orderRef);
+    if (!orderSnap.exists()) throw new OrderAssignmentError('الطلب غير موجود');
+    const order = { id: orderSnap.id, ...orderSnap.data() } as Order;
+    if (order.status !== OrderStatus.WAITING_FOR_OFFERS) {
+      throw new OrderAssignmentError('هذا الطلب لم يعد متاحاً، ربما تم قبوله أو إلغاؤه');
+    }
+
+    const driverSnap = await tx.get(driverRef);
+    if (!driverSnap.exists()) throw new OrderAssignmentError('حساب الكابتن غير موجود');
+    const heldIds = ((driverSnap.data().activeOrderIds || []) as string[]).filter(id => id !== orderId);
+    // تجاهل الحجوزات القديمة إذا كانت الطلبات المرتبطة بها قد انتهت
+    const heldOrders: Order[] = [];
+    for (const heldId of heldIds) {
+      const heldSnap = await tx.get(doc(db, "orders", heldId));
+      if (heldSnap.exists() && !FINISHED_STATUSES.includes(heldSnap.data().status)) {
+        heldOrders.push({ id: heldSnap.id, ...heldSnap.data() } as Order);
+      }
+    }
+    const blocker = getStackingBlocker(order, heldOrders, driverSnap.data().vehicleType);
+    if (blocker) throw new OrderAssignmentError(`${blocker}، يرجى اختيار عرض آخر`);
+
+    const offers: Offer[] = [];
+    for (const ref of offerRefs) {
+      const offerSnap = await tx.get(ref);
+      if (offerSnap.exists()) offers.push({ id: offerSnap.id, ...offerSnap.data() } as Offer);
+    }
+    const offer = offerId ? offers.find(o => o.id === offerId) : undefined;
+    if (offerId && (!offer || offer.driverId !== driverId || !isOfferOpen(offer))) {
+      throw new OrderAssignmentError('هذا العرض لم يعد متاحاً، يرجى اختيار عرض آخر');
+    }
+
+    const updates = transitionOrder(order, OrderStatus.ACCEPTED, actor.role, {
+      ...extra,
+      driverId,
+      ...(offer ? { price: getCustomerPrice(order, offer.price) } : {})
+    });
+    const previous = pickPrevious(order, updates);
+
+    tx.update(orderRef, updates);
+    tx.update(driverRef, { activeOrderIds: [...heldOrders.map(held => held.id), orderId] });
+    postOfferSettlement(tx, offers, driverId);
+    tx.set(doc(orderEventsCollection(orderId)), buildOrderEvent(orderId, actor.role === 'CUSTOMER' ? 'OFFER_ACCEPTED' : 'REASSIGNED', actor, previous, updates));
+  });
+};
@@ -0,0 +1,71 @@
+import type { Order, Offer } from './types';
+import { OrderStatus } from './types';
+import { OFFER_ESCALATION_CONFIG } from './config/constants';
+import { transitionOrder, OrderTransitionError } from './orderLifecycle';
+import { updateOrderWithEvent, SYSTEM_ACTOR } from './orderEvents';
+import { getCaptainReleaseTime, isVisibleToCaptains } from './orderScheduling';
+
+const MINUTE = 60 * 1000;
+
+export type EscalationLevel = 'NONE' | 'FLAGGED' | 'EXPIRED';
+
+export interface OrderEscalation {
+  level: EscalationLevel;
+  idleMinutes: number;
+  minutesToCancel: number;
+}
+
+export const getOfferExpiry = (order: Pick<Order, 'category'>, createdAt: number = Date.now()): number => {
+  return createdAt + OFFER_ESCALATION_CONFIG[order.category].offerTtlMinutes * MINUTE;
+};
+
+/**
+ * العروض القديمة بدون expiresAt تأخذ مهلة فئة TAXI كحد أدنى
+ */
+export const isOfferExpired = (offer: Offer, now: number = Date.now()): boolean => {
+  const expiresAt = offer.expiresAt ?? offer.createdAt + OFFER_ESCALATION_CONFIG.TAXI.offerTtlMinutes * MINUTE;
+  return now >= expiresAt;
+};
+
+export const getOfferMinutesLeft = (offer: Offer, now: number = Date.now()): number => {
+  const expiresAt = offer.expiresAt ?? offer.createdAt + OFFER_ESCALATION_CONFIG.TAXI.offerTtlMinutes * MINUTE;
+  return Math.max(0, Math.ceil((expiresAt - now) / MINUTE));
+};
+
+/**
+ * حساب مستوى التصعيد لطلب ينتظر العروض: المدة تُحسب من آخر عرض وصل أو من وقت ظهور الطلب للكباتن
+ */
+export const getOrderEscalation = (order: Order, now: number = Date.now()): OrderEscalation => {
+  const config = OFFER_ESCALATION_CONFIG[order.category] || OFFER_ESCALATION_CONFIG.PARCEL;
+  if (order.status !== OrderStatus.WAITING_FOR_OFFERS || !isVisibleToCaptains(order, now)) {
+    return { level: 'NONE', idleMinutes: 0, minutesToCancel: config.autoCancelAfterMinutes };
+  }
+
+  const idleMinutes = Math.floor((now - Math.max(getCaptainReleaseTime(order), order.lastOfferAt || 0)) / MINUTE);
+  const minutesToCancel = Math.max(0, config.autoCancelAfterMinutes - idleMinutes);
+
+  if (idleMinutes >= config.autoCancelAfterMinutes) return { level: 'EXPIRED', idleMinutes, minutesToCancel };
+  if (idleMinutes >= config.flagAfterMinutes) return { level: 'FLAGGED', idleMinutes, minutesToCancel };
+  return { level: 'NONE', idleMinutes, minutesToCancel };
+};
+
+/**
+ * إلغاء الطلب تلقائياً بعد انتهاء المهلة وإبلاغ العميل. قد تنفذه أكثر من شاشة مفتوحة في نفس الوقت،
+ * والمعاملة تعيد قراءة الحالة فلا ينفذ إلا مرة واحدة
+ */
+export const autoCancelStaleOrder = async (order: Order) => {
+  // الإلغاء التلقائي يتحقق بصلاحيات غرفة التحكم
+  const updates = transitionOrder(order, OrderStatus.CANCELLED, 'OPERATOR', {
+    cancellationReason: 'لم يتقدم أي كابتن بعرض خلال المهلة المحددة',
+    cancelledBy: SYSTEM_ACTOR.role,
+    cancelledById: SYSTEM_ACTOR.id,
+    cancellationFee: 0,
+    autoCancelled: true
+  });
+  try {
+    await updateOrderWithEvent(order, updates, SYSTEM_ACTOR);
+  } catch (e) {
+    // شاشة أخرى سبقت بالإلغاء أو وصل عرض وتم قبوله
+    if (!(e instanceof OrderTransitionError)) throw e;
+  }
+};
@@ -0,0 +1,154 @@
+import type { Order, OrderEventType, OrderActorRole } from './types';
+import { OrderStatus } from './types';
+import { stripFirestore } from './utils';
+import { db } from './services/firebase';
+import { collection, doc, addDoc, runTransaction, arrayRemove } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { OrderTransitionError } from './orderLifecycle';
+import { isSettlementDue, prepareSettlement, getSettlementFields, postSettlementEntries, isCancellationFeeDue, splitCancellationFee, postCancellationFee } from './orderSettlement';
+import { isCouponReleaseDue, releaseCoupon } from './coupons';
+import { isLoyaltyEarnDue, isPointsRefundDue, fetchLoyaltyRules, calculateEarnedPoints, postEarnedPoints, postRefundedPoints } from './loyalty';
+
+export type OrderActor = { id: string; role: OrderActorRole };
+
+// منفذ الإجراءات التلقائية، حتى لا ينسب الإلغاء لعميل أو مشغل كانت شاشته مفتوحة
+export const SYSTEM_ACTOR: OrderActor = { id: 'system', role: 'SYSTEM' };
+
+export const ORDER_EVENT_LABELS: Record<OrderEventType, string> = {
+  CREATED: 'تم إنشاء الطلب',
+  OFFER_RECEIVED: 'وصل عرض سعر',
+  OFFER_ACCEPTED: 'تم قبول العرض',
+  OFFER_WITHDRAWN: 'سحب الكابتن عرضه',
+  OFFER_REVISED: 'تعديل سعر العرض',
+  COUNTER_OFFERED: 'العميل اقترح سعراً',
+  COUNTER_ACCEPTED: 'الكابتن وافق على سعر العميل',
+  COUNTER_DECLINED: 'الكابتن رفض سعر العميل',
+  STOP_ARRIVED: 'وصل الكابتن إلى محطة',
+  STOP_COMPLETED: 'تم إنهاء محطة',
+  WAITING_STARTED: 'بدء عداد الانتظار',
+  WAITING_STOPPED: 'إيقاف عداد الانتظار',
+  REASSIGNED: 'توجيه كابتن من الإدارة',
+  RELEASED: 'اعتذار الكابتن',
+  ARRIVED_AT_PICKUP: 'وصل الكابتن لنقطة الاستلام',
+  PICKED_UP: 'تم الاستلام',
+  ON_THE_WAY: 'في الطريق للتسليم',
+  STATUS_CHANGED: 'تغيير الحالة',
+  DELIVERED: 'تم التوصيل',
+  RATED: 'تم التقييم',
+  DISPUTE_OPENED: 'فتح شكوى',
+  DISPUTE_RESOLVED: 'تم البت في الشكوى',
+  TIPPED: 'إكرامية للكابتن',
+  CANCELLED: 'تم الإلغاء'
+};
+
+const DRIVER_RELEASE_STATUSES = [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.DELIVERED, OrderStatus.CANCELLED];
+
+// إشعارات العميل عند كل خطوة يقوم بها الكابتن
+const CUSTOMER_STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, { title: string; body: string }>> = {
+  [OrderStatus.ARRIVED_AT_PICKUP]: { title: 'الكابتن وصل', body: 'الكابتن في انتظارك عند نقطة الاستلام' },
+  [OrderStatus.PICKED_UP]: { title: 'تم الاستلام', body: 'استلم الكابتن طلبك' },
+  [OrderStatus.ON_THE_WAY]: { title: 'في الطريق إليك', body: 'الكابتن في طريقه لنقطة التسليم' },
+  [OrderStatus.DELIVERED]: { title: 'تم التوصيل', body: 'تم توصيل طلبك، لا تنس تقييم الكابتن' }
+};
+
+const AUTO_CANCEL_NOTIFICATION = { title: 'تم إلغاء طلبك تلقائياً', body: 'لم يتقدم أي كابتن بعرض خلال المهلة المحددة، يمكنك إعادة الطلب في أي وقت.' };
+
+export const orderEventsCollection = (orderId: string) => collection(db, "orders", orderId, "events");
+
+const getEventTypeForUpdate = (order: Order, updates: Record<string, any>, actor: OrderActor): OrderEventType => {
+  switch (updates.status) {
+    case OrderStatus.ACCEPTED: return actor.role === 'CUSTOMER' ? 'OFFER_ACCEPTED' : 'REASSIGNED';
+    case OrderStatus.WAITING_FOR_OFFERS: return order.status === OrderStatus.ACCEPTED ? 'RELEASED' : 'STATUS_CHANGED';
+    case OrderStatus.ARRIVED_AT_PICKUP: return 'ARRIVED_AT_PICKUP';
+    case OrderStatus.PICKED_UP: return 'PICKED_UP';
+    case OrderStatus.ON_THE_WAY: return 'ON_THE_WAY';
+    case OrderStatus.DELIVERED: return 'DELIVERED';
+    case OrderStatus.DELIVERED_RATED: return 'RATED';
+    case OrderStatus.CANCELLED: return 'CANCELLED';
+    default: return 'STATUS_CHANGED';
+  }
+};
+
+export const buildOrderEvent = (orderId: string, type: OrderEventType, actor: OrderActor, previous: Record<string, any>, next: Record<string, any>) => {
+  return stripFirestore({
+    orderId,
+    type,
+    actorId: actor.id,
+    actorRole: actor.role,
+    createdAt: Date.now(),
+    previous,
+    next
+  });
+};
+
+// قيم الطلب قبل التحديث للحقول التي يغيرها فقط، لتسجيلها في الحدث
+export const pickPrevious = (order: Order, updates: Record<string, any>) => {
+  const previous: Record<string, unknown> = {};
+  Object.keys(updates).forEach(key => {
+    previous[key] = order[key as keyof Order] ?? null;
+  });
+  return previous;
+};
+
+/**
+ * إضافة حدث مستقل لسجل الطلب (إنشاء الطلب، وصول عرض...)
+ */
+export const logOrderEvent = async (orderId: string, type: OrderEventType, actor: OrderActor, next: Record<string, any> = {}, previous: Record<string, any> = {}) => {
+  return addDoc(orderEventsCollection(orderId), buildOrderEvent(orderId, type, actor, previous, next));
+};
+
+/**
+ * تحديث الطلب وتسجيل الحدث المقابل في نفس المعاملة حتى لا يحدث تعديل بدون أثر،
+ * وتغيير الحالة يرفض إذا غيرها عميل آخر منذ آخر تحديث للشاشة
+ */
+export const updateOrderWithEvent = async (order: Order, updates: Record<string, any>, actor: OrderActor, type?: OrderEventType) => {
+  // توزيع الأجرة على المحافظ يكتب مع حالة التوصيل في نفس المعاملة
+  const settlement = isSettlementDue(order, updates) ? await prepareSettlement(order, updates.price ?? order.price) : null;
+  if (settlement) updates = { ...updates, ...getSettlementFields(settlement) };
+  // نقاط الولاء تكتسب عند التوصيل وتعود للعميل إن ألغي طلب استبدلها فيه، وكذلك استخدام الكوبون
+  const earnDue = isLoyaltyEarnDue(order, updates);
+  const refundDue = isPointsRefundDue(order, updates);
+  const loyaltyRules = earnDue || refundDue ? await fetchLoyaltyRules() : null;
+  const earnedPoints = earnDue && loyaltyRules ? calculateEarnedPoints(order, updates.price ?? order.price, loyaltyRules) : 0;
+  if (earnDue && loyaltyRules?.isEnabled) updates = { ...updates, loyaltyPointsEarned: earnedPoints };
+  if (refundDue) updates = { ...updates, appliedPoints: { ...order.appliedPoints, refundedAt: Date.now() } };
+  const couponReleaseDue = isCouponReleaseDue(order, updates);
+  if (couponReleaseDue) updates = { ...updates, appliedCoupon: { ...order.appliedCoupon, releasedAt: Date.now() } };
+
+  const previous = pickPrevious(order, updates);
+
+  const orderRef = doc(db, "orders", order.id);
+  await runTransaction(db, async (tx) => {
+    const current = await tx.get(orderRef);
+    const currentStatus = current.data()?.status as OrderStatus;
+    if (updates.status && currentStatus !== order.status) throw new OrderTransitionError(currentStatus, updates.status, actor.role);
+    // الأجرة توزع مرة واحدة، فإن سبق توزيعها يرفض التحديث بالكامل بدلاً من قيد ثان في المحافظ
+    if (settlement && current.data()?.settledAt) throw new OrderTransitionError(currentStatus, updates.status, actor.role);
+    // رصيد العميل يقرأ في المعاملة قبل أي كتابة حتى لا تخصم الرسوم أكثر مما في المحفظة
+    const feeDue = isCancellationFeeDue(order, updates);
+    const customer = feeDue ? await tx.get(doc(db, "users", order.customerId)) : null;
+    const customerBalance = customer?.data()?.wallet?.balance || 0;
+    if (feeDue) {
+      const { owed } = splitCancellationFee(updates.cancellationFee, customerBalance);
+      if (owed > 0) updates = { ...updates, cancellationFeeOwed: owed };
+    }
+
+    tx.update(orderRef, updates);
+    // انتهاء المشوار أو اعتذار الكابتن يحرره لاستقبال طلبات جديدة
+    if (order.driverId && DRIVER_RELEASE_STATUSES.includes(updates.status)) {
+      tx.update(doc(db, "users", order.driverId), { activeOrderIds: arrayRemove(order.id) });
+    }
+    const notification = actor.role === 'DRIVER' ? CUSTOMER_STATUS_NOTIFICATIONS[updates.status as OrderStatus] : undefined;
+    if (notification) {
+      tx.set(doc(collection(db, "notifications")), { userId: order.customerId, ...notification, type: 'INFO', createdAt: Date.now(), read: false });
+    }
+    if (updates.autoCancelled) {
+      tx.set(doc(collection(db, "notifications")), { userId: order.customerId, ...AUTO_CANCEL_NOTIFICATION, type: 'WARNING', createdAt: Date.now(), read: false });
+    }
+    if (settlement) postSettlementEntries(tx, order, settlement);
+    if (feeDue) postCancellationFee(tx, order, updates.cancellationFee, customerBalance);
+    if (earnedPoints > 0) postEarnedPoints(tx, order, earnedPoints, loyaltyRules!);
+    if (refundDue) postRefundedPoints(tx, order, loyaltyRules!);
+    if (couponReleaseDue) releaseCoupon(tx, order);
+    tx.set(doc(orderEventsCollection(order.id)), buildOrderEvent(order.id, type || getEventTypeForUpdate(order, updates, actor), actor, previous, updates));
+  });
+};
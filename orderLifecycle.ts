@@ -0,0 +1,161 @@
+import type { Order, UserRole, OrderActorRole } from './types';
+import { OrderStatus } from './types';
+import { CANCELLATION_CONFIG } from './config/constants';
+
+/**
+ * الانتقالات المسموح بها لحالة الطلب لكل دور
+ */
+export const ORDER_TRANSITIONS: Record<UserRole, Partial<Record<OrderStatus, OrderStatus[]>>> = {
+  CUSTOMER: {
+    [OrderStatus.PENDING]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.WAITING_FOR_OFFERS]: [OrderStatus.ACCEPTED, OrderStatus.CANCELLED],
+    [OrderStatus.ACCEPTED]: [OrderStatus.CANCELLED],
+    [OrderStatus.ARRIVED_AT_PICKUP]: [OrderStatus.CANCELLED],
+    [OrderStatus.DELIVERED]: [OrderStatus.DELIVERED_RATED]
+  },
+  DRIVER: {
+    [OrderStatus.ACCEPTED]: [OrderStatus.ARRIVED_AT_PICKUP, OrderStatus.WAITING_FOR_OFFERS],
+    [OrderStatus.ARRIVED_AT_PICKUP]: [OrderStatus.PICKED_UP, OrderStatus.CANCELLED],
+    [OrderStatus.PICKED_UP]: [OrderStatus.ON_THE_WAY, OrderStatus.CANCELLED],
+    [OrderStatus.ON_THE_WAY]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED]
+  },
+  OPERATOR: {
+    [OrderStatus.PENDING]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.WAITING_FOR_OFFERS]: [OrderStatus.ACCEPTED, OrderStatus.CANCELLED],
+    [OrderStatus.ACCEPTED]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.ARRIVED_AT_PICKUP]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.PICKED_UP]: [OrderStatus.CANCELLED],
+    [OrderStatus.ON_THE_WAY]: [OrderStatus.CANCELLED]
+  },
+  ADMIN: {
+    [OrderStatus.PENDING]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.WAITING_FOR_OFFERS]: [OrderStatus.ACCEPTED, OrderStatus.CANCELLED],
+    [OrderStatus.ACCEPTED]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.ARRIVED_AT_PICKUP]: [OrderStatus.WAITING_FOR_OFFERS, OrderStatus.CANCELLED],
+    [OrderStatus.PICKED_UP]: [OrderStatus.CANCELLED],
+    [OrderStatus.ON_THE_WAY]: [OrderStatus.CANCELLED]
+  }
+};
+
+// الحقل الزمني الذي يُختم عند الوصول لكل حالة
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof Order>> = {
+  [OrderStatus.ACCEPTED]: 'acceptedAt',
+  [OrderStatus.ARRIVED_AT_PICKUP]: 'arrivedAtPickupAt',
+  [OrderStatus.PICKED_UP]: 'pickedUpAt',
+  [OrderStatus.ON_THE_WAY]: 'onTheWayAt',
+  [OrderStatus.DELIVERED]: 'deliveredAt',
+  [OrderStatus.CANCELLED]: 'cancelledAt',
+  [OrderStatus.DELIVERED_RATED]: 'ratedAt'
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'قيد المراجعة',
+  [OrderStatus.WAITING_FOR_OFFERS]: 'بانتظار العروض',
+  [OrderStatus.ACCEPTED]: 'تم القبول',
+  [OrderStatus.ARRIVED_AT_PICKUP]: 'وصل لنقطة الاستلام',
+  [OrderStatus.PICKED_UP]: 'تم الاستلام',
+  [OrderStatus.ON_THE_WAY]: 'في الطريق',
+  [OrderStatus.DELIVERED]: 'تم التوصيل',
+  [OrderStatus.DELIVERED_RATED]: 'تم التقييم',
+  [OrderStatus.CANCELLED]: 'ملغي'
+};
+
+// خطوات الكابتن بالترتيب: التوجه للاستلام ← الوصول ← الاستلام ← في الطريق ← التسليم
+export const DRIVER_NEXT_STEP: Partial<Record<OrderStatus, { next: OrderStatus; label: string }>> = {
+  [OrderStatus.ACCEPTED]: { next: OrderStatus.ARRIVED_AT_PICKUP, label: 'وصلت لنقطة الاستلام' },
+  [OrderStatus.ARRIVED_AT_PICKUP]: { next: OrderStatus.PICKED_UP, label: 'تأكيد الاستلام' },
+  [OrderStatus.PICKED_UP]: { next: OrderStatus.ON_THE_WAY, label: 'بدء التوصيل' },
+  [OrderStatus.ON_THE_WAY]: { next: OrderStatus.DELIVERED, label: 'تأكيد التوصيل' }
+};
+
+export class OrderTransitionError extends Error {
+  from: OrderStatus;
+  to: OrderStatus;
+  role: OrderActorRole;
+
+  constructor(from: OrderStatus, to: OrderStatus, role: OrderActorRole) {
+    super(`لا يمكن تغيير حالة الطلب من "${ORDER_STATUS_LABELS[from] || from}" إلى "${ORDER_STATUS_LABELS[to] || to}"`);
+    this.name = 'OrderTransitionError';
+    this.from = from;
+    this.to = to;
+    this.role = role;
+  }
+}
+
+// فشل إسناد الطلب لكابتن (الطلب لم يعد متاحاً أو الكابتن مشغول)
+export class OrderAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderAssignmentError';
+  }
+}
+
+export const canTransition = (from: OrderStatus, to: OrderStatus, role: UserRole): boolean => {
+  return (ORDER_TRANSITIONS[role]?.[from] || []).includes(to);
+};
+
+/**
+ * التحقق من صحة الانتقال وتجهيز بيانات التحديث مع ختم الوقت المناسب
+ */
+export const transitionOrder = (order: Pick<Order, 'status'>, to: OrderStatus, role: UserRole, extra: Record<string, any> = {}): Record<string, any> => {
+  if (!canTransition(order.status, to, role)) {
+    throw new OrderTransitionError(order.status, to, role);
+  }
+
+  const updates: Record<string, any> = { status: to };
+  const stampField = STATUS_TIMESTAMPS[to];
+  if (stampField) updates[stampField] = Date.now();
+
+  // عودة الطلب لقائمة العروض تلغي بيانات القبول السابقة
+  if (to === OrderStatus.WAITING_FOR_OFFERS) {
+    updates.acceptedAt = null;
+    updates.arrivedAtPickupAt = null;
+  }
+
+  return { ...updates, ...extra };
+};
+
+export const getTransitionErrorMessage = (e: unknown, fallback: string): string => {
+  return e instanceof OrderTransitionError || e instanceof OrderAssignmentError ? e.message : fallback;
+};
+
+export interface CancellationPolicy {
+  allowed: boolean;
+  fee: number;
+  nextStatus: OrderStatus;
+}
+
+/**
+ * قواعد الإلغاء حسب حالة الطلب: الكابتن قبل الاستلام يعيد الطلب لقائمة العروض،
+ * والعميل يدفع رسوم إلغاء متأخر بعد قبول الكابتن
+ */
+export const getCancellationPolicy = (order: Pick<Order, 'status'>, role: UserRole): CancellationPolicy => {
+  if (role === 'DRIVER' && order.status === OrderStatus.ACCEPTED) {
+    return { allowed: true, fee: 0, nextStatus: OrderStatus.WAITING_FOR_OFFERS };
+  }
+  const lateStatuses = [OrderStatus.ACCEPTED, OrderStatus.ARRIVED_AT_PICKUP];
+  const fee = role === 'CUSTOMER' && lateStatuses.includes(order.status) ? CANCELLATION_CONFIG.lateCancellationFee : 0;
+  return { allowed: canTransition(order.status, OrderStatus.CANCELLED, role), fee, nextStatus: OrderStatus.CANCELLED };
+};
+
+export const cancelOrder = (order: Pick<Order, 'status'>, role: UserRole, actorId: string, reason: string): Record<string, any> => {
+  const policy = getCancellationPolicy(order, role);
+  if (!policy.allowed) throw new OrderTransitionError(order.status, policy.nextStatus, role);
+
+  if (policy.nextStatus === OrderStatus.WAITING_FOR_OFFERS) {
+    return transitionOrder(order, OrderStatus.WAITING_FOR_OFFERS, role, {
+      driverId: null,
+      driverName: null,
+      driverPhone: null,
+      releaseReason: reason,
+      releasedBy: actorId
+    });
+  }
+
+  return transitionOrder(order, OrderStatus.CANCELLED, role, {
+    cancellationReason: reason,
+    cancelledBy: role,
+    cancelledById: actorId,
+    cancellationFee: policy.fee
+  });
+};
@@ -0,0 +1,67 @@
+import type { Order } from './types';
+import { OrderStatus } from './types';
+import { SCHEDULING_CONFIG } from './config/constants';
+import { db } from './services/firebase';
+import { collection, doc, runTransaction } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+const MINUTE = 60 * 1000;
+
+/**
+ * وقت ظهور الطلب في قائمة الكباتن (الطلب الفوري يظهر من لحظة إنشائه)
+ */
+export const getCaptainReleaseTime = (order: Pick<Order, 'createdAt' | 'scheduledFor'>): number => {
+  if (!order.scheduledFor) return order.createdAt;
+  return Math.max(order.createdAt, order.scheduledFor - SCHEDULING_CONFIG.captainLeadMinutes * MINUTE);
+};
+
+export const isVisibleToCaptains = (order: Pick<Order, 'createdAt' | 'scheduledFor'>, now: number = Date.now()): boolean => {
+  return now >= getCaptainReleaseTime(order);
+};
+
+// طلب مجدول لم يحن وقت عرضه على الكباتن بعد
+export const isUpcomingScheduledOrder = (order: Order, now: number = Date.now()): boolean => {
+  return !!order.scheduledFor && order.status === OrderStatus.WAITING_FOR_OFFERS && !isVisibleToCaptains(order, now);
+};
+
+/**
+ * التحقق من موعد الحجز، يعيد رسالة الخطأ أو null
+ */
+export const validateScheduledTime = (scheduledFor: number, now: number = Date.now()): string | null => {
+  if (isNaN(scheduledFor)) return 'يرجى اختيار موعد صحيح';
+  if (scheduledFor < now + SCHEDULING_CONFIG.minAdvanceMinutes * MINUTE) {
+    return `يجب أن يكون الموعد بعد ${SCHEDULING_CONFIG.minAdvanceMinutes} دقيقة على الأقل`;
+  }
+  if (scheduledFor > now + SCHEDULING_CONFIG.maxAdvanceDays * 24 * 60 * MINUTE) {
+    return `لا يمكن الحجز لأكثر من ${SCHEDULING_CONFIG.maxAdvanceDays} أيام مقدماً`;
+  }
+  return null;
+};
+
+export const formatScheduledTime = (scheduledFor: number): string => {
+  return new Date(scheduledFor).toLocaleString('ar-EG', { weekday: 'long', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+export const isReminderDue = (order: Order, now: number = Date.now()): boolean => {
+  if (!order.scheduledFor || order.reminderSentAt || order.status !== OrderStatus.WAITING_FOR_OFFERS) return false;
+  return now >= order.scheduledFor - SCHEDULING_CONFIG.reminderMinutes * MINUTE;
+};
+
+/**
+ * إرسال تذكير الموعد للعميل مرة واحدة، المعاملة تعيد قراءة reminderSentAt لأن كل شاشة مفتوحة تحاول الإرسال
+ */
+export const sendScheduledReminder = async (order: Order) => {
+  const orderRef = doc(db, "orders", order.id);
+  await runTransaction(db, async (tx) => {
+    const current = await tx.get(orderRef);
+    if (!current.exists() || !isReminderDue({ ...order, ...current.data() } as Order)) return;
+    tx.update(orderRef, { reminderSentAt: Date.now() });
+    tx.set(doc(collection(db, "notifications")), {
+      userId: order.customerId,
+      title: 'تذكير بموعد طلبك',
+      body: `طلبك المجدول (${order.pickup?.villageName || 'موقعك'} ← ${order.dropoff?.villageName}) موعده ${formatScheduledTime(order.scheduledFor!)}`,
+      type: 'INFO',
+      createdAt: Date.now(),
+      read: false
+    });
+  });
+};
@@ -0,0 +1,105 @@
+import type { Order, User } from './types';
+import { OrderStatus } from './types';
+import { PLATFORM_COMMISSION_RATE, DEFAULT_OPERATOR_RATE } from './config/constants';
+import { db } from './services/firebase';
+import { doc, getDoc, increment } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { postLedgerEntry, LedgerWriter } from './walletLedger';
+
+export interface OrderSettlement {
+  fare: number; // أجرة المشوار قبل خصم الكوبون والنقاط وبدون قيمة الوجبات
+  cashCollected: number; // ما حصله الكابتن نقداً من الأجرة
+  commission: number;
+  operatorCut: number;
+  driverCut: number;
+  operatorId: string | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const getOrderDiscount = (order: Pick<Order, 'appliedCoupon' | 'appliedPoints'>) =>
+  (order.appliedCoupon?.discount || 0) + (order.appliedPoints?.discount || 0);
+
+// العميل يدفع سعر العرض بعد الخصم، والتوزيع يحسب من هذا السعر نفسه ويضيف الخصم على حساب المنصة
+export const getCustomerPrice = (order: Pick<Order, 'appliedCoupon' | 'appliedPoints'>, offerPrice: number) =>
+  Math.max(0, offerPrice - getOrderDiscount(order));
+
+export const isSettlementDue = (order: Order, updates: Record<string, any>) =>
+  updates.status === OrderStatus.DELIVERED && !order.settledAt && !!order.driverId;
+
+/**
+ * توزيع الأجرة: عمولة المنصة ونسبة المشغل من الأجرة كاملة والباقي للكابتن،
+ * وخصم الكوبون ونقاط الولاء تتحمله المنصة من عمولتها. قيمة الوجبات تخص المطعم ولا تدخل في التوزيع
+ */
+export const calculateSettlement = (order: Order, price: number, operator: Pick<User, 'id' | 'operatorRate'> | null): OrderSettlement => {
+  const itemsTotal = order.priceBreakdown?.itemsTotal || 0;
+  const discount = getOrderDiscount(order);
+  const cashCollected = Math.max(0, price - itemsTotal);
+  const fare = cashCollected + discount;
+  const grossCommission = roundMoney(fare * PLATFORM_COMMISSION_RATE);
+  const operatorCut = operator ? roundMoney(fare * (operator.operatorRate ?? DEFAULT_OPERATOR_RATE)) : 0;
+  return {
+    fare,
+    cashCollected,
+    commission: roundMoney(grossCommission - discount),
+    operatorCut,
+    driverCut: roundMoney(fare - grossCommission - operatorCut),
+    operatorId: operator?.id || null
+  };
+};
+
+// المشغل يحدد من حساب الكابتن، والطلب بدون مشغل تذهب حصته للكابتن
+export const prepareSettlement = async (order: Order, price: number): Promise<OrderSettlement> => {
+  const driverSnap = await getDoc(doc(db, "users", order.driverId!));
+  const operatorId = driverSnap.exists() ? driverSnap.data().operatorId : undefined;
+  const operatorSnap = operatorId ? await getDoc(doc(db, "users", operatorId)) : null;
+  const operator = operatorSnap?.exists() && operatorSnap.data().role === 'OPERATOR'
+    ? { id: operatorSnap.id, operatorRate: operatorSnap.data().operatorRate }
+    : null;
+  return calculateSettlement(order, price, operator);
+};
+
+export const getSettlementFields = (settlement: OrderSettlement) => ({
+  commission: settlement.commission,
+  operatorCut: settlement.operatorCut,
+  driverCut: settlement.driverCut,
+  ...(settlement.operatorId ? { operatorId: settlement.operatorId } : {}),
+  settledAt: Date.now()
+});
+
+// رسوم الإلغاء المتأخر تخصم من العميل وتعوض الكابتن الذي تحرك للمشوار
+export const isCancellationFeeDue = (order: Order, updates: Record<string, any>) =>
+  updates.status === OrderStatus.CANCELLED && (updates.cancellationFee || 0) > 0 && !order.cancellationFee;
+
+// المحفظة لا تنزل تحت الصفر: يخصم ما يغطيه الرصيد والباقي يسجل مستحقاً على العميل
+export const splitCancellationFee = (fee: number, balance: number) => {
+  const paid = roundMoney(Math.min(fee, Math.max(0, balance)));
+  return { paid, owed: roundMoney(fee - paid) };
+};
+
+export const postCancellationFee = (writer: LedgerWriter, order: Order, fee: number, balance: number) => {
+  const ref = `#${order.id.slice(-6)}`;
+  const { paid, owed } = splitCancellationFee(fee, balance);
+  if (paid > 0) {
+    postLedgerEntry(writer, { userId: order.customerId, type: 'DEBIT', amount: paid, description: `رسوم إلغاء متأخر للطلب ${ref}`, orderId: order.id });
+  }
+  if (owed > 0) writer.update(doc(db, "users", order.customerId), { 'wallet.owed': increment(owed) });
+  if (order.driverId) {
+    postLedgerEntry(writer, { userId: order.driverId, type: 'CREDIT', amount: fee, description: `تعويض إلغاء الطلب ${ref}`, orderId: order.id }, true);
+  }
+};
+
+/**
+ * قيود المحافظ: حصة الكابتن والمشغل أرباح، والأجرة النقدية التي حصلها الكابتن تخصم من رصيده
+ */
+export const postSettlementEntries = (writer: LedgerWriter, order: Order, settlement: OrderSettlement) => {
+  const ref = `#${order.id.slice(-6)}`;
+  if (settlement.driverCut > 0) {
+    postLedgerEntry(writer, { userId: order.driverId!, type: 'CREDIT', amount: settlement.driverCut, description: `أرباح الطلب ${ref}`, orderId: order.id }, true);
+  }
+  if (order.paymentMethod !== 'WALLET' && settlement.cashCollected > 0) {
+    postLedgerEntry(writer, { userId: order.driverId!, type: 'DEBIT', amount: settlement.cashCollected, description: `أجرة نقدية محصلة للطلب ${ref}`, orderId: order.id });
+  }
+  if (settlement.operatorId && settlement.operatorCut > 0) {
+    postLedgerEntry(writer, { userId: settlement.operatorId, type: 'CREDIT', amount: settlement.operatorCut, description: `نسبة المشغل من الطلب ${ref}`, orderId: order.id }, true);
+  }
+};
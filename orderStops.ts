@@ -0,0 +1,62 @@
+import type { Order, OrderStop, Village, LatLng } from './types';
+import { OrderStatus } from './types';
+import { transitionOrder } from './orderLifecycle';
+
+export const STOP_TYPE_LABELS: Record<OrderStop['type'], string> = {
+  PICKUP: 'نقطة الاستلام',
+  STOP: 'محطة',
+  DROPOFF: 'نقطة التسليم'
+};
+
+export const villageToStop = (village: Village, type: OrderStop['type'], notes?: string, pin?: LatLng | null): OrderStop => ({
+  type,
+  address: village.name,
+  lat: pin?.lat ?? village.center.lat,
+  lng: pin?.lng ?? village.center.lng,
+  villageName: village.name,
+  ...(pin ? { pinned: true } : {}),
+  notes: notes || ''
+});
+
+/**
+ * محطات الطلب بالترتيب، الطلبات القديمة تتحول لمحطتين من pickup و dropoff
+ */
+export const getOrderStops = (order: Order): OrderStop[] => {
+  if (order.stops && order.stops.length > 0) return order.stops;
+  return [
+    ...(order.pickup ? [{ ...order.pickup, type: 'PICKUP' as const, notes: order.pickupNotes }] : []),
+    { ...order.dropoff, type: 'DROPOFF' as const, notes: order.dropoffNotes }
+  ];
+};
+
+export const isMultiStopOrder = (order: Order): boolean => (order.stops?.length || 0) > 2;
+
+export const getCurrentStopIndex = (order: Order): number => {
+  if (order.currentStopIndex !== undefined) return order.currentStopIndex;
+  return [OrderStatus.ACCEPTED, OrderStatus.ARRIVED_AT_PICKUP].includes(order.status) ? 0 : getOrderStops(order).length - 1;
+};
+
+export const getCurrentStop = (order: Order): OrderStop | undefined => getOrderStops(order)[getCurrentStopIndex(order)];
+
+// الوصول لأول محطة هو الوصول لنقطة الاستلام ويبدأ مهلة الانتظار المجانية
+export const markStopArrived = (order: Order): Record<string, any> => {
+  const index = getCurrentStopIndex(order);
+  const stops = getOrderStops(order).map((stop, i) => i === index ? { ...stop, arrivedAt: stop.arrivedAt || Date.now() } : stop);
+  if (order.status === OrderStatus.ACCEPTED) return transitionOrder(order, OrderStatus.ARRIVED_AT_PICKUP, 'DRIVER', { stops });
+  return { stops };
+};
+
+/**
+ * إنهاء المحطة الحالية: أول محطة تعني استلام الطلب، وآخر محطة تعني التوصيل،
+ * وما بينهما يتقدم بالمؤشر فقط دون تغيير الحالة
+ */
+export const completeCurrentStop = (order: Order): Record<string, any> => {
+  const index = getCurrentStopIndex(order);
+  const now = Date.now();
+  const stops = getOrderStops(order).map((stop, i) => i === index ? { ...stop, arrivedAt: stop.arrivedAt || now, completedAt: now } : stop);
+  const extra = { stops, currentStopIndex: index + 1 };
+
+  if (order.status === OrderStatus.ARRIVED_AT_PICKUP) return transitionOrder(order, OrderStatus.PICKED_UP, 'DRIVER', extra);
+  if (index >= stops.length - 1) return transitionOrder(order, OrderStatus.DELIVERED, 'DRIVER', extra);
+  return extra;
+};
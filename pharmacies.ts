@@ -0,0 +1,68 @@
+import type { Pharmacy, Village } from './types';
+import { stripFirestore, calculateDistance, isTimeInWindow } from './utils';
+import { db } from './services/firebase';
+import { collection, doc, onSnapshot, setDoc, deleteDoc } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { findVillageByName } from './reorder';
+import { getMatrixDistance } from './distanceMatrix';
+
+export type PharmacyInput = Omit<Pharmacy, 'id' | 'createdAt'>;
+
+export class PharmacyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PharmacyError';
+  }
+}
+
+export const isPharmacyOpen = (pharmacy: Pharmacy, now: number = Date.now()) => {
+  if (!pharmacy.isActive) return false;
+  return !!pharmacy.is24Hours || isTimeInWindow(new Date(now), pharmacy.openTime, pharmacy.closeTime);
+};
+
+export const formatPharmacyHours = (pharmacy: Pick<Pharmacy, 'openTime' | 'closeTime' | 'is24Hours'>) =>
+  pharmacy.is24Hours ? '24 ساعة' : `من ${pharmacy.openTime} إلى ${pharmacy.closeTime}`;
+
+// ترتيب سريع بدون انتظار خدمة الطرق: المصفوفة إن وجدت ثم المسافة المباشرة
+const getApproxDistance = (pharmacy: Pharmacy, village: Village) => {
+  const pharmacyVillage = findVillageByName(pharmacy.villageName)?.village;
+  const cached = pharmacyVillage ? getMatrixDistance(pharmacyVillage.id, village.id) : null;
+  return cached?.distance ?? calculateDistance(pharmacy.lat, pharmacy.lng, village.center.lat, village.center.lng);
+};
+
+/**
+ * الصيدليات النشطة مرتبة من الأقرب لمكان التوصيل
+ */
+export const sortPharmaciesByDistance = (pharmacies: Pharmacy[], village: Village) => {
+  return pharmacies
+    .filter(p => p.isActive)
+    .map(p => ({ pharmacy: p, distance: getApproxDistance(p, village) }))
+    .sort((a, b) => a.distance - b.distance);
+};
+
+export const findNearestOpenPharmacy = (pharmacies: Pharmacy[], village: Village, now: number = Date.now()): Pharmacy | null => {
+  return sortPharmaciesByDistance(pharmacies, village).find(p => isPharmacyOpen(p.pharmacy, now))?.pharmacy || null;
+};
+
+export const subscribeToPharmacies = (onChange: (pharmacies: Pharmacy[]) => void) => {
+  return onSnapshot(collection(db, "pharmacies"), (snap) => {
+    const pharmacies = snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Pharmacy[];
+    onChange(pharmacies.sort((a, b) => a.name.localeCompare(b.name, 'ar')));
+  });
+};
+
+export const validatePharmacy = (input: PharmacyInput): string | null => {
+  if (!input.name.trim()) return 'اسم الصيدلية مطلوب';
+  if (!input.villageName || !Number.isFinite(input.lat) || !Number.isFinite(input.lng)) return 'حدد موقع الصيدلية';
+  if (!input.is24Hours && (!/^\d{2}:\d{2}$/.test(input.openTime) || !/^\d{2}:\d{2}$/.test(input.closeTime))) return 'حدد مواعيد العمل';
+  if (!input.is24Hours && input.openTime === input.closeTime) return 'موعد الفتح والإغلاق متطابقان';
+  return null;
+};
+
+export const savePharmacy = async (input: PharmacyInput, existing?: Pharmacy | null) => {
+  const error = validatePharmacy(input);
+  if (error) throw new PharmacyError(error);
+  const ref = existing ? doc(db, "pharmacies", existing.id) : doc(collection(db, "pharmacies"));
+  await setDoc(ref, stripFirestore({ ...input, name: input.name.trim(), createdAt: existing?.createdAt || Date.now() }));
+};
+
+export const deletePharmacy = (id: string) => deleteDoc(doc(db, "pharmacies", id));
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { calculateOrderPrice, PricingConfig, PricingInput } from './pricing';
+
+// إعدادات ثابتة للاختبار حتى لا تتغير النتائج مع تعديل أسعار الإنتاج
+const PRICING: PricingConfig = {
+  basePrice: 5,
+  pricePerKm: 4,
+  minPrice: 30,
+  maxPrice: 900,
+  sameVillagePrice: 25,
+  deliveryBasePrice: 30,
+  foodOutsidePricePerKm: 3,
+  waitingPricePerMinute: 1,
+  roundTripReturnRate: 0.8,
+  offerBands: { minRatio: 0.7, outlierRatio: 1.5, maxRatio: 2.5 },
+  multipliers: { MOTORCYCLE: 0.85, TOKTOK: 1.0, CAR: 2.2 }
+};
+
+const trip = (overrides: Partial<PricingInput>): PricingInput => ({
+  category: 'TAXI',
+  vehicleType: 'TOKTOK',
+  pickupVillageName: 'شبين الكوم',
+  dropoffVillageName: 'شنوان',
+  distanceKm: 10,
+  ...overrides
+});
+
+describe('calculateOrderPrice', () => {
+  describe('pricing rules', () => {
+    it.each([
+      ['TAXI in the same village', trip({ dropoffVillageName: 'شبين الكوم', distanceKm: 2 }), 'SAME_VILLAGE', 25],
+      ['FOOD in the same village', trip({ category: 'FOOD', dropoffVillageName: 'شبين الكوم', distanceKm: 2 }), 'SAME_VILLAGE', 25],
+      ['PHARMACY in the same village is still a delivery', trip({ category: 'PHARMACY', dropoffVillageName: 'شبين الكوم', distanceKm: 2 }), 'DELIVERY', 38],
+      ['PARCEL in the same village is a standard trip', trip({ category: 'PARCEL', dropoffVillageName: 'شبين الكوم', distanceKm: 2 }), 'STANDARD', 30],
+      ['FOOD outside the village', trip({ category: 'FOOD' }), 'FOOD_OUTSIDE', 30],
+      ['PHARMACY delivery', trip({ category: 'PHARMACY' }), 'DELIVERY', 70],
+      ['TAXI between villages', trip({}), 'STANDARD', 45],
+      ['TAXI without a pickup village', trip({ pickupVillageName: null }), 'STANDARD', 45]
+    ] as const)('%s', (_, input, rule, oneWay) => {
+      const price = calculateOrderPrice(input, PRICING);
+      expect(price.rule).toBe(rule);
+      expect(price.oneWay).toBe(oneWay);
+      expect(price.total).toBe(oneWay);
+    });
+  });
+
+  describe('same-village rule with waypoints', () => {
+    it.each([
+      ['with waypoints is priced as a standard trip', true, 'STANDARD', 30, true],
+      ['without waypoints keeps the flat price', false, 'SAME_VILLAGE', 25, false]
+    ] as const)('round trip back to the same village %s', (_, hasWaypoints, rule, oneWay, minApplied) => {
+      const price = calculateOrderPrice(trip({ dropoffVillageName: 'شبين الكوم', distanceKm: 6, hasWaypoints }), PRICING);
+      expect(price.rule).toBe(rule);
+      expect(price.oneWay).toBe(oneWay);
+      expect(price.minApplied).toBe(minApplied);
+    });
+  });
+
+  describe('vehicle multipliers', () => {
+    it.each([
+      ['MOTORCYCLE on a taxi trip', trip({ vehicleType: 'MOTORCYCLE' }), 0.85, 38],
+      ['TOKTOK on a taxi trip', trip({ vehicleType: 'TOKTOK' }), 1, 45],
+      ['CAR on a taxi trip', trip({ vehicleType: 'CAR' }), 2.2, 99],
+      ['CAR on a pharmacy delivery', trip({ vehicleType: 'CAR', category: 'PHARMACY' }), 2.2, 154],
+      // طعام خارج القرية بالكيلو فقط، وداخل القرية بسعر ثابت، بدون معامل المركبة
+      ['CAR on food outside the village', trip({ vehicleType: 'CAR', category: 'FOOD' }), 1, 30],
+      ['CAR in the same village', trip({ vehicleType: 'CAR', dropoffVillageName: 'شبين الكوم' }), 1, 25]
+    ] as const)('%s', (_, input, multiplier, oneWay) => {
+      const price = calculateOrderPrice(input, PRICING);
+      expect(price.multiplier).toBe(multiplier);
+      expect(price.oneWay).toBe(oneWay);
+    });
+  });
+
+  describe('min and max clamps', () => {
+    it.each([
+      ['raises a short trip to the minimum', trip({ distanceKm: 1 }), 9, 30, true, false],
+      ['keeps a trip at exactly the minimum', trip({ distanceKm: 6.25 }), 30, 30, false, false],
+      ['caps a long car trip at the maximum', trip({ vehicleType: 'CAR', distanceKm: 200 }), 1771, 900, false, true],
+      ['uses the delivery base price as the pharmacy minimum', trip({ category: 'PHARMACY', distanceKm: 0 }), 30, 30, false, false],
+      ['does not clamp the same-village price', trip({ dropoffVillageName: 'شبين الكوم', distanceKm: 0 }), 25, 25, false, false],
+      ['does not apply the minimum to food outside the village', trip({ category: 'FOOD', distanceKm: 2 }), 6, 6, false, false]
+    ] as const)('%s', (_, input, subtotal, oneWay, minApplied, maxApplied) => {
+      const price = calculateOrderPrice(input, PRICING);
+      expect(price.subtotal).toBe(subtotal);
+      expect(price.oneWay).toBe(oneWay);
+      expect(price.minApplied).toBe(minApplied);
+      expect(price.maxApplied).toBe(maxApplied);
+    });
+  });
+
+  describe('round trip', () => {
+    it.each([
+      ['TAXI adds the return leg', trip({ isRoundTrip: true }), 45, 36, 81],
+      ['TAXI return leg is rounded', trip({ isRoundTrip: true, distanceKm: 11 }), 49, 39, 88],
+      ['TAXI round trip in the same village', trip({ isRoundTrip: true, dropoffVillageName: 'شبين الكوم' }), 25, 20, 45],
+      ['is ignored for PARCEL', trip({ category: 'PARCEL', isRoundTrip: true }), 45, 0, 45],
+      ['is ignored for PHARMACY', trip({ category: 'PHARMACY', isRoundTrip: true }), 70, 0, 70]
+    ] as const)('%s', (_, input, oneWay, returnLeg, total) => {
+      const price = calculateOrderPrice(input, PRICING);
+      expect(price.oneWay).toBe(oneWay);
+      expect(price.returnLeg).toBe(returnLeg);
+      expect(price.total).toBe(total);
+    });
+  });
+
+  describe('zero and invalid distances', () => {
+    it.each([
+      ['zero', 0],
+      ['negative', -5],
+      ['NaN', NaN]
+    ])('treats a %s distance as 0 km', (_, distanceKm) => {
+      const price = calculateOrderPrice(trip({ distanceKm }), PRICING);
+      expect(price.distanceKm).toBe(0);
+      expect(price.distanceCharge).toBe(0);
+      expect(price.subtotal).toBe(5);
+      expect(price.oneWay).toBe(30);
+      expect(price.minApplied).toBe(true);
+    });
+
+    it('charges nothing for zero-distance food outside the village', () => {
+      const price = calculateOrderPrice(trip({ category: 'FOOD', distanceKm: -3, itemsTotal: 80 }), PRICING);
+      expect(price.oneWay).toBe(0);
+      expect(price.total).toBe(80);
+    });
+  });
+
+  describe('items and surge', () => {
+    it('adds restaurant items to the total but not to the fare', () => {
+      const price = calculateOrderPrice(trip({ category: 'FOOD', itemsTotal: 120 }), PRICING);
+      expect(price.itemsTotal).toBe(120);
+      expect(price.oneWay).toBe(30);
+      expect(price.total).toBe(150);
+    });
+
+    it.each([
+      ['applies surge after the clamps', trip({}), 1.5, 68, 23, 68],
+      ['applies surge on top of the minimum', trip({ distanceKm: 1 }), 1.2, 36, 6, 36],
+      ['bases the return leg on the surged price', trip({ isRoundTrip: true }), 1.5, 68, 23, 122]
+    ] as const)('%s', (_, input, multiplier, oneWay, surgeCharge, total) => {
+      const price = calculateOrderPrice({ ...input, surge: { multiplier, reasons: ['ذروة المساء'], capped: false } }, PRICING);
+      expect(price.surgeMultiplier).toBe(multiplier);
+      expect(price.oneWay).toBe(oneWay);
+      expect(price.surgeCharge).toBe(surgeCharge);
+      expect(price.surgeReasons).toEqual(['ذروة المساء']);
+      expect(price.total).toBe(total);
+    });
+
+    it('has no surge when none is given', () => {
+      const price = calculateOrderPrice(trip({}), PRICING);
+      expect(price.surgeMultiplier).toBe(1);
+      expect(price.surgeCharge).toBe(0);
+      expect(price.surgeReasons).toEqual([]);
+    });
+  });
+});
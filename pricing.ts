@@ -0,0 +1,88 @@
+import type { OrderCategory, VehicleType, PriceBreakdown, PricingRule, AppliedSurge } from './types';
+import { DEFAULT_PRICING } from './config/constants';
+
+export type PricingConfig = typeof DEFAULT_PRICING;
+
+export interface PricingInput {
+  category: OrderCategory;
+  vehicleType: VehicleType;
+  pickupVillageName?: string | null; // مكان المطعم أو نقطة الاستلام إن وجدت
+  dropoffVillageName: string;
+  distanceKm: number; // مسافة الطريق الفعلية بالكيلومتر (مجموع المراحل عند وجود محطات)
+  hasWaypoints?: boolean;
+  isRoundTrip?: boolean;
+  itemsTotal?: number;
+  surge?: AppliedSurge | null;
+}
+
+export const PRICING_RULE_LABELS: Record<PricingRule, string> = {
+  SAME_VILLAGE: 'داخل نفس القرية',
+  FOOD_OUTSIDE: 'توصيل طعام خارج القرية',
+  DELIVERY: 'توصيل صيدلية',
+  STANDARD: 'مشوار بين القرى'
+};
+
+const getPricingRule = (input: PricingInput): PricingRule => {
+  const sameVillage = !!input.pickupVillageName && input.pickupVillageName === input.dropoffVillageName && !input.hasWaypoints;
+  if (sameVillage && (input.category === 'TAXI' || input.category === 'FOOD')) return 'SAME_VILLAGE';
+  if (input.category === 'FOOD') return 'FOOD_OUTSIDE';
+  if (input.category === 'PHARMACY') return 'DELIVERY';
+  return 'STANDARD';
+};
+
+/**
+ * محرك التسعير الموحد (دالة نقية): يعيد تفصيل السعر بالكامل حسب القاعدة المطبقة.
+ * الطلب داخل نفس القرية بسعر ثابت، طعام خارج القرية بالكيلو فقط،
+ * والصيدلية والمشاوير بسعر أساسي + الكيلو × معامل المركبة مع الحد الأدنى والأقصى،
+ * ثم يضاف معامل الذروة على سعر الذهاب بعد الحدود
+ */
+export const calculateOrderPrice = (input: PricingInput, pricing: PricingConfig = DEFAULT_PRICING): PriceBreakdown => {
+  const rule = getPricingRule(input);
+  const distanceKm = Math.max(0, input.distanceKm || 0);
+  const multiplier = pricing.multipliers[input.vehicleType] || 1;
+  const itemsTotal = input.itemsTotal || 0;
+
+  let base = 0;
+  let pricePerKm = 0;
+  let appliedMultiplier = 1;
+  let min = 0;
+  let max = Infinity;
+
+  if (rule === 'SAME_VILLAGE') {
+    base = pricing.sameVillagePrice;
+  } else if (rule === 'FOOD_OUTSIDE') {
+    pricePerKm = pricing.foodOutsidePricePerKm;
+  } else {
+    base = rule === 'DELIVERY' ? pricing.deliveryBasePrice : pricing.basePrice;
+    pricePerKm = pricing.pricePerKm;
+    appliedMultiplier = multiplier;
+    min = rule === 'DELIVERY' ? pricing.deliveryBasePrice : pricing.minPrice;
+    max = pricing.maxPrice;
+  }
+
+  const distanceCharge = distanceKm * pricePerKm;
+  const subtotal = Math.round((base + distanceCharge) * appliedMultiplier);
+  const clamped = Math.min(max, Math.max(min, subtotal));
+  const surgeMultiplier = input.surge?.multiplier || 1;
+  const oneWay = Math.round(clamped * surgeMultiplier);
+  const returnLeg = input.category === 'TAXI' && input.isRoundTrip ? Math.round(oneWay * pricing.roundTripReturnRate) : 0;
+
+  return {
+    rule,
+    base,
+    distanceKm,
+    pricePerKm,
+    distanceCharge: Math.round(distanceCharge),
+    multiplier: appliedMultiplier,
+    subtotal,
+    minApplied: subtotal < min,
+    maxApplied: subtotal > max,
+    oneWay,
+    returnLeg,
+    itemsTotal,
+    surgeMultiplier,
+    surgeCharge: oneWay - clamped,
+    surgeReasons: input.surge?.reasons || [],
+    total: oneWay + returnLeg + itemsTotal
+  };
+};
@@ -0,0 +1,167 @@
+import type { Order, User, ZonePricing, PricingZone, VehicleType } from './types';
+import { DEFAULT_PRICING } from './config/constants';
+import { stripFirestore } from './utils';
+import { db } from './services/firebase';
+import { collection, doc, onSnapshot, writeBatch } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { findVillageByName } from './reorder';
+import { calculateOrderPrice, PricingConfig } from './pricing';
+import { isMultiStopOrder } from './orderStops';
+
+export const DEFAULT_ZONE_ID = 'default';
+
+export type PricingZones = Record<string, PricingZone>;
+
+export const VEHICLE_MULTIPLIER_LABELS: Record<VehicleType, string> = {
+  MOTORCYCLE: 'موتوسيكل',
+  TOKTOK: 'توكتوك',
+  CAR: 'سيارة'
+};
+
+export class PricingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingConfigError';
+  }
+}
+
+export const getDefaultZonePricing = (): ZonePricing => ({
+  basePrice: DEFAULT_PRICING.basePrice,
+  pricePerKm: DEFAULT_PRICING.pricePerKm,
+  minPrice: DEFAULT_PRICING.minPrice,
+  maxPrice: DEFAULT_PRICING.maxPrice,
+  sameVillagePrice: DEFAULT_PRICING.sameVillagePrice,
+  waitingPricePerMinute: DEFAULT_PRICING.waitingPricePerMinute,
+  roundTripReturnRate: DEFAULT_PRICING.roundTripReturnRate,
+  multipliers: { ...DEFAULT_PRICING.multipliers },
+  offerBands: { ...DEFAULT_PRICING.offerBands }
+});
+
+/**
+ * يعيد رسالة الخطأ الأولى في إعدادات التسعير أو null إن كانت سليمة
+ */
+export const validateZonePricing = (pricing: ZonePricing): string | null => {
+  const values = [pricing.basePrice, pricing.pricePerKm, pricing.minPrice, pricing.maxPrice, pricing.sameVillagePrice];
+  if (values.some(v => !Number.isFinite(v) || v < 0)) return 'كل الأسعار يجب أن تكون أرقاماً موجبة';
+  if (pricing.pricePerKm <= 0) return 'سعر الكيلومتر يجب أن يكون أكبر من صفر';
+  if (pricing.minPrice > pricing.maxPrice) return 'الحد الأدنى لا يمكن أن يتجاوز الحد الأقصى';
+  const waitingRate = pricing.waitingPricePerMinute ?? DEFAULT_PRICING.waitingPricePerMinute;
+  if (!Number.isFinite(waitingRate) || waitingRate < 0) return 'سعر دقيقة الانتظار يجب أن يكون رقماً موجباً';
+  const returnRate = pricing.roundTripReturnRate ?? DEFAULT_PRICING.roundTripReturnRate;
+  if (!Number.isFinite(returnRate) || returnRate < 0 || returnRate > 1) return 'نسبة رحلة العودة يجب أن تكون بين 0 و 1';
+  const multipliers = Object.values(pricing.multipliers) as number[];
+  if (multipliers.some(m => !Number.isFinite(m) || m <= 0 || m > 5)) return 'معامل المركبة يجب أن يكون بين 0 و 5';
+  const bands = pricing.offerBands;
+  if (bands) {
+    if ([bands.minRatio, bands.outlierRatio, bands.maxRatio].some(v => !Number.isFinite(v) || v <= 0)) return 'نسب حدود العروض يجب أن تكون أرقاماً موجبة';
+    if (bands.minRatio > 1 || bands.outlierRatio < 1 || bands.outlierRatio > bands.maxRatio) return 'حدود العروض: الأدنى ≤ 1 ≤ العرض المرتفع ≤ الأقصى';
+  }
+  return null;
+};
+
+export const subscribeToPricingZones = (onChange: (zones: PricingZones) => void) => {
+  return onSnapshot(collection(db, "pricing_zones"), (snap) => {
+    const zones: PricingZones = {};
+    snap.docs.forEach(d => { zones[d.id] = { id: d.id, ...stripFirestore(d.data()) } as PricingZone; });
+    onChange(zones);
+  });
+};
+
+/**
+ * التسعير المطبق على الطلب: تسعير مركز نقطة البداية ثم التسعير العام ثم الافتراضي في الكود
+ */
+export const resolvePricing = (zones: PricingZones, villageName?: string | null): PricingConfig => {
+  const districtId = findVillageByName(villageName || undefined)?.district.id;
+  const zone = (districtId && zones[districtId]) || zones[DEFAULT_ZONE_ID];
+  if (!zone) return DEFAULT_PRICING;
+  return {
+    ...DEFAULT_PRICING,
+    ...zone.pricing,
+    multipliers: { ...DEFAULT_PRICING.multipliers, ...zone.pricing.multipliers },
+    offerBands: { ...DEFAULT_PRICING.offerBands, ...zone.pricing.offerBands }
+  };
+};
+
+/**
+ * سعر الطلب حسب التعريفة الحالية بنفس المسافة المحفوظة وقت إنشائه، يسترشد به الكابتن عند تقديم العرض
+ */
+export const getCurrentTariff = (order: Order, zones: PricingZones): number | null => {
+  if (!order.priceBreakdown || !order.dropoff?.villageName) return null;
+  const pickupVillageName = order.pickup?.villageName;
+  return calculateOrderPrice({
+    category: order.category,
+    vehicleType: order.requestedVehicleType || 'TOKTOK',
+    pickupVillageName,
+    dropoffVillageName: order.dropoff.villageName,
+    distanceKm: order.priceBreakdown.distanceKm,
+    hasWaypoints: isMultiStopOrder(order),
+    isRoundTrip: !!order.isRoundTrip,
+    itemsTotal: order.priceBreakdown.itemsTotal,
+    // الذروة تبقى كما ظهرت للعميل وقت الطلب
+    surge: order.priceBreakdown.surgeMultiplier > 1 ? { multiplier: order.priceBreakdown.surgeMultiplier, reasons: order.priceBreakdown.surgeReasons || [], capped: false } : null
+  }, resolvePricing(zones, pickupVillageName || order.dropoff.villageName)).total;
+};
+
+export interface OfferBounds {
+  estimate: number;
+  min: number;
+  max: number;
+  outlierAbove: number;
+}
+
+/**
+ * حدود عرض الكابتن حول السعر التقديري، وتطبق النسب على الأجرة فقط دون قيمة الوجبات.
+ * حدا المنطقة الأدنى والأقصى يقيدان العرض إلا إذا تجاوزهما التقدير نفسه (ذروة أو ذهاب وعودة)
+ */
+export const getOfferBounds = (order: Order, zones: PricingZones): OfferBounds => {
+  const pricing = resolvePricing(zones, order.pickup?.villageName || order.dropoff?.villageName);
+  const bands = pricing.offerBands;
+  const itemsTotal = order.priceBreakdown?.itemsTotal || 0;
+  const estimate = getCurrentTariff(order, zones) ?? order.price;
+  const fare = Math.max(0, estimate - itemsTotal);
+  return {
+    estimate,
+    min: itemsTotal + Math.max(Math.round(fare * bands.minRatio), Math.min(pricing.minPrice, fare)),
+    max: itemsTotal + Math.min(Math.round(fare * bands.maxRatio), Math.max(pricing.maxPrice, fare)),
+    outlierAbove: itemsTotal + Math.round(fare * bands.outlierRatio)
+  };
+};
+
+export const getOfferPriceError = (price: number, bounds: OfferBounds): string | null => {
+  if (!Number.isFinite(price) || price <= 0) return 'أدخل سعراً صحيحاً';
+  if (price < bounds.min) return `أقل سعر مسموح لهذا المشوار ${bounds.min} ج.م`;
+  if (price > bounds.max) return `أعلى سعر مسموح لهذا المشوار ${bounds.max} ج.م`;
+  return null;
+};
+
+/**
+ * حفظ تسعير المنطقة مع تسجيل القيم السابقة والجديدة في سجل التغييرات
+ */
+export const saveZonePricing = async (
+  zone: { id: string, name: string },
+  pricing: ZonePricing,
+  previous: ZonePricing | null,
+  actor: Pick<User, 'id' | 'name'>
+) => {
+  const error = validateZonePricing(pricing);
+  if (error) throw new PricingConfigError(error);
+
+  const now = Date.now();
+  const batch = writeBatch(db);
+  batch.set(doc(db, "pricing_zones", zone.id), stripFirestore({
+    name: zone.name,
+    pricing,
+    updatedAt: now,
+    updatedBy: actor.id,
+    updatedByName: actor.name
+  }));
+  batch.set(doc(collection(db, "pricing_history")), stripFirestore({
+    zoneId: zone.id,
+    zoneName: zone.name,
+    before: previous,
+    after: pricing,
+    changedBy: actor.id,
+    changedByName: actor.name,
+    createdAt: now
+  }));
+  await batch.commit();
+};
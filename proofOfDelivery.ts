@@ -0,0 +1,69 @@
+import type { Order, OrderCategory, ProofOfDelivery, ProofOfDeliveryMethod } from './types';
+import { PROOF_OF_DELIVERY_CONFIG } from './config/constants';
+import { db } from './services/firebase';
+import type { LedgerWriter } from './walletLedger';
+import { doc, onSnapshot } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+export const PROOF_METHOD_LABELS: Record<ProofOfDeliveryMethod, string> = {
+  NONE: 'بدون إثبات',
+  PIN: 'كود التسليم',
+  PHOTO: 'صورة الاستلام',
+  SIGNATURE: 'توقيع المستلم'
+};
+
+export const generateDeliveryPin = (): string => {
+  return String(Math.floor(1000 + Math.random() * 9000));
+};
+
+// كود التسليم يولد فقط للفئات التي تتطلبه
+export const getDeliveryPinForCategory = (category: OrderCategory): string | null => {
+  return PROOF_OF_DELIVERY_CONFIG[category] === 'PIN' ? generateDeliveryPin() : null;
+};
+
+// الكود في orders/{orderId}/private/delivery ويقرؤه العميل فقط، ولا يظهر منه شيء في مستند الطلب الذي يراه الكباتن
+const deliveryCodeDoc = (orderId: string) => doc(db, "orders", orderId, "private", "delivery");
+
+// يكتب مع الطلب في نفس المعاملة حتى لا يبقى كود بدون طلب أو طلب بدون كود
+export const postDeliveryPin = (writer: LedgerWriter, orderId: string, customerId: string, pin: string) => {
+  writer.set(deliveryCodeDoc(orderId), { pin, customerId, createdAt: Date.now() });
+};
+
+export const subscribeToDeliveryPin = (orderId: string, onChange: (pin: string | null) => void) => {
+  return onSnapshot(deliveryCodeDoc(orderId), (snap) => onChange(snap.exists() ? snap.data().pin : null));
+};
+
+/**
+ * الإثبات المطلوب للطلب؛ الطلبات القديمة بدون كود تسليم تطلب صورة بدلاً منه
+ */
+export const getRequiredProof = (order: Order): ProofOfDeliveryMethod => {
+  const method = PROOF_OF_DELIVERY_CONFIG[order.category] || 'NONE';
+  if (method === 'PIN' && !order.requiresDeliveryPin) return 'PHOTO';
+  return method;
+};
+
+export const WRONG_PIN_MESSAGE = 'كود التسليم غير صحيح، اطلبه من العميل';
+
+/**
+ * التحقق من شكل الإثبات المقدم، يعيد رسالة الخطأ أو null. مطابقة كود التسليم تتم في قواعد Firestore عند الحفظ
+ */
+export const validateProof = (method: ProofOfDeliveryMethod, input: { pin?: string, photo?: string, signature?: string }): string | null => {
+  if (method === 'PIN' && !/^\d{4}$/.test(input.pin?.trim() || '')) return 'أدخل كود التسليم المكون من 4 أرقام';
+  if (method === 'PHOTO' && !input.photo) return 'يرجى التقاط صورة للطلب عند التسليم';
+  if (method === 'SIGNATURE' && !input.signature) return 'يرجى أخذ توقيع المستلم';
+  return null;
+};
+
+export const buildProofOfDelivery = (method: ProofOfDeliveryMethod, driverId: string, input: { pin?: string, photo?: string, signature?: string }): ProofOfDelivery => ({
+  method,
+  ...(method === 'PIN' && input.pin ? { pin: input.pin.trim() } : {}),
+  ...(input.photo ? { photo: input.photo } : {}),
+  ...(input.signature ? { signature: input.signature } : {}),
+  capturedAt: Date.now(),
+  capturedBy: driverId
+});
+
+// قواعد Firestore ترفض حفظ التسليم إذا لم يطابق الكود، فيظهر للكابتن كخطأ في الكود
+export const getDeliveryErrorMessage = (e: unknown, proof: ProofOfDelivery | undefined, fallback: string): string => {
+  const code = (e as { code?: string } | null)?.code;
+  return proof?.method === 'PIN' && code === 'permission-denied' ? WRONG_PIN_MESSAGE : fallback;
+};
@@ -0,0 +1,48 @@
+import type { Order, Restaurant, CartItem, District, Village } from './types';
+import { OrderStatus } from './types';
+import { MENOFIA_DATA } from './config/constants';
+
+export interface RebuiltCart {
+  cart: CartItem[];
+  removed: string[];
+  repriced: { name: string, oldPrice: number, newPrice: number }[];
+}
+
+// إعادة الطلب متاحة للطلبات المنتهية فقط من الفئات الظاهرة في التطبيق
+export const canReorder = (order: Order): boolean => {
+  const finished = [OrderStatus.DELIVERED, OrderStatus.DELIVERED_RATED, OrderStatus.CANCELLED].includes(order.status);
+  return finished && ['TAXI', 'FOOD', 'PHARMACY'].includes(order.category) && !!order.dropoff?.villageName;
+};
+
+export const findVillageByName = (name?: string): { district: District, village: Village } | null => {
+  if (!name) return null;
+  for (const district of MENOFIA_DATA) {
+    const village = district.villages.find(v => v.name === name);
+    if (village) return { district, village };
+  }
+  return null;
+};
+
+/**
+ * بناء السلة من قائمة المطعم الحالية: الأصناف المحذوفة تسقط والأسعار تؤخذ من القائمة الحالية
+ */
+export const rebuildCart = (items: CartItem[], restaurant: Restaurant): RebuiltCart => {
+  const result: RebuiltCart = { cart: [], removed: [], repriced: [] };
+  items.forEach(item => {
+    const current = (restaurant.menu || []).find(m => m.id === item.id);
+    if (!current) {
+      result.removed.push(item.name);
+      return;
+    }
+    if (current.price !== item.price) result.repriced.push({ name: current.name, oldPrice: item.price, newPrice: current.price });
+    result.cart.push({ id: current.id, name: current.name, price: current.price, quantity: item.quantity });
+  });
+  return result;
+};
+
+export const getReorderWarning = (result: RebuiltCart): string | null => {
+  const lines: string[] = [];
+  if (result.removed.length > 0) lines.push(`أصناف لم تعد متوفرة وتم حذفها: ${result.removed.join('، ')}`);
+  result.repriced.forEach(r => lines.push(`تغير سعر ${r.name} من ${r.oldPrice} إلى ${r.newPrice} ج.م`));
+  return lines.length > 0 ? lines.join('\n') : null;
+};
@@ -0,0 +1,157 @@
+import type { Order, User, SurgeRule, AppliedSurge } from './types';
+import { OrderStatus } from './types';
+import { MENOFIA_DATA, SURGE_CONFIG } from './config/constants';
+import { stripFirestore, calculateDistance, isTimeInWindow } from './utils';
+import { db } from './services/firebase';
+import { collection, doc, query, where, onSnapshot, setDoc, deleteDoc, writeBatch } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { findVillageByName } from './reorder';
+
+export const WEEK_DAYS = ['الأحد', 'الاثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+
+export interface SurgeContext {
+  now: number;
+  districtId?: string;
+  demandRatio: number;
+}
+
+export interface DemandSnapshot {
+  openOrders: Order[];
+  captains: User[];
+}
+
+export interface DistrictDemand {
+  openOrders: number;
+  captains: number;
+  ratio: number;
+  updatedAt: number;
+}
+
+export class SurgeRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SurgeRuleError';
+  }
+}
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getVillageDistrictId = (villageName?: string | null) => findVillageByName(villageName || undefined)?.district.id;
+
+// مركز الكابتن هو مركز أقرب قرية لآخر موقع له
+export const getNearestDistrictId = (lat: number, lng: number): string | undefined => {
+  let best: { id: string, dist: number } | null = null;
+  for (const district of MENOFIA_DATA) {
+    for (const village of district.villages) {
+      const dist = calculateDistance(lat, lng, village.center.lat, village.center.lng);
+      if (!best || dist < best.dist) best = { id: district.id, dist };
+    }
+  }
+  return best?.id;
+};
+
+/**
+ * نسبة الطلب في المركز: الطلبات المنتظرة لعروض مقسومة على الكباتن المتاحين (كابتن واحد على الأقل)
+ */
+export const getDistrictDemand = (districtId: string, demand: DemandSnapshot, now: number = Date.now()): DistrictDemand => {
+  const openOrders = demand.openOrders.filter(o => getVillageDistrictId(o.pickup?.villageName || o.dropoff?.villageName) === districtId).length;
+  const onlineSince = now - SURGE_CONFIG.onlineWindowMinutes * 60000;
+  const captains = demand.captains.filter(c =>
+    c.status === 'APPROVED' && c.location && c.location.updatedAt >= onlineSince &&
+    getNearestDistrictId(c.location.lat, c.location.lng) === districtId
+  ).length;
+  return { openOrders, captains, ratio: openOrders / Math.max(1, captains), updatedAt: now };
+};
+
+// النسبة المنشورة أقدم من نافذة التواجد لا يعتد بها حتى لا تبقى الذروة بعد إغلاق غرفة التحكم
+export const getDemandRatio = (districtId: string | undefined, demand: Record<string, DistrictDemand>, now: number = Date.now()): number => {
+  const district = districtId ? demand[districtId] : undefined;
+  if (!district || district.updatedAt < now - SURGE_CONFIG.onlineWindowMinutes * 60000) return 0;
+  return district.ratio;
+};
+
+export const isSurgeRuleActive = (rule: SurgeRule, ctx: SurgeContext): boolean => {
+  if (!rule.isActive) return false;
+  const date = new Date(ctx.now);
+
+  if (rule.daysOfWeek?.length && !rule.daysOfWeek.includes(date.getDay())) return false;
+
+  const today = toDateKey(date);
+  if (rule.startDate && today < rule.startDate) return false;
+  if (rule.endDate && today > rule.endDate) return false;
+
+  if (rule.startTime && rule.endTime && !isTimeInWindow(date, rule.startTime, rule.endTime)) return false;
+
+  if (rule.districtIds?.length && (!ctx.districtId || !rule.districtIds.includes(ctx.districtId))) return false;
+  if (rule.minDemandRatio && ctx.demandRatio < rule.minDemandRatio) return false;
+  return true;
+};
+
+/**
+ * معاملات القواعد المتحققة تتضاعف معاً ثم تقص عند الحد الأقصى المسموح
+ */
+export const getSurge = (rules: SurgeRule[], ctx: SurgeContext): AppliedSurge | null => {
+  const active = rules.filter(r => isSurgeRuleActive(r, ctx));
+  if (active.length === 0) return null;
+  const combined = active.reduce((acc, r) => acc * r.multiplier, 1);
+  const multiplier = Math.round(Math.min(combined, SURGE_CONFIG.maxMultiplier) * 100) / 100;
+  if (multiplier <= 1) return null;
+  return { multiplier, reasons: active.map(r => r.reason), capped: combined > SURGE_CONFIG.maxMultiplier };
+};
+
+export const needsDemandData = (rules: SurgeRule[]) => rules.some(r => r.isActive && !!r.minDemandRatio);
+
+export const validateSurgeRule = (rule: Omit<SurgeRule, 'id' | 'createdAt'>): string | null => {
+  if (!rule.name.trim() || !rule.reason.trim()) return 'اسم القاعدة والسبب الظاهر للعميل مطلوبان';
+  if (!Number.isFinite(rule.multiplier) || rule.multiplier <= 1 || rule.multiplier > SURGE_CONFIG.maxMultiplier) return `المعامل يجب أن يكون أكبر من 1 ولا يتجاوز ${SURGE_CONFIG.maxMultiplier}`;
+  if (!!rule.startTime !== !!rule.endTime) return 'حدد بداية ونهاية الفترة الزمنية معاً';
+  if (rule.startDate && rule.endDate && rule.startDate > rule.endDate) return 'تاريخ البداية بعد تاريخ النهاية';
+  if (rule.minDemandRatio !== undefined && (!Number.isFinite(rule.minDemandRatio) || rule.minDemandRatio < 0)) return 'نسبة الطلب يجب أن تكون رقماً موجباً';
+  return null;
+};
+
+export const subscribeToSurgeRules = (onChange: (rules: SurgeRule[]) => void) => {
+  return onSnapshot(collection(db, "surge_rules"), (snap) => {
+    onChange(snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as SurgeRule[]);
+  });
+};
+
+/**
+ * بيانات الطلب اللحظية (الطلبات المفتوحة والكباتن) لحساب نسبة الطلب في كل مركز، لغرفة التحكم فقط
+ */
+export const subscribeToDemand = (onChange: (demand: DemandSnapshot) => void) => {
+  const demand: DemandSnapshot = { openOrders: [], captains: [] };
+  const unsubOrders = onSnapshot(query(collection(db, "orders"), where("status", "==", OrderStatus.WAITING_FOR_OFFERS)), (snap) => {
+    demand.openOrders = snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as Order[];
+    onChange({ ...demand });
+  });
+  const unsubCaptains = onSnapshot(query(collection(db, "users"), where("role", "==", "DRIVER")), (snap) => {
+    demand.captains = snap.docs.map(d => ({ id: d.id, ...stripFirestore(d.data()) })) as User[];
+    onChange({ ...demand });
+  });
+  return () => { unsubOrders(); unsubCaptains(); };
+};
+
+/**
+ * غرفة التحكم تنشر أعداد كل مركز في demand/{districtId} ليقرأها العملاء دون بيانات الطلبات والكباتن
+ */
+export const publishDemand = async (demand: DemandSnapshot, now: number = Date.now()) => {
+  const batch = writeBatch(db);
+  MENOFIA_DATA.forEach(district => batch.set(doc(db, "demand", district.id), getDistrictDemand(district.id, demand, now)));
+  await batch.commit();
+};
+
+export const subscribeToDistrictDemand = (onChange: (demand: Record<string, DistrictDemand>) => void) => {
+  return onSnapshot(collection(db, "demand"), (snap) => {
+    onChange(Object.fromEntries(snap.docs.map(d => [d.id, d.data() as DistrictDemand])));
+  });
+};
+
+// التعديل يستبدل القاعدة بالكامل حتى تسقط الشروط التي أزالتها الإدارة
+export const saveSurgeRule = async (rule: Omit<SurgeRule, 'id' | 'createdAt'>, existing?: SurgeRule | null) => {
+  const error = validateSurgeRule(rule);
+  if (error) throw new SurgeRuleError(error);
+  const ref = existing ? doc(db, "surge_rules", existing.id) : doc(collection(db, "surge_rules"));
+  await setDoc(ref, stripFirestore({ ...rule, createdAt: existing?.createdAt || Date.now() }));
+};
+
+export const deleteSurgeRule = (id: string) => deleteDoc(doc(db, "surge_rules", id));
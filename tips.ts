@@ -0,0 +1,63 @@
+import type { Order, User, PaymentMethod } from './types';
+import { TIP_CONFIG } from './config/constants';
+import { db } from './services/firebase';
+import { collection, doc, runTransaction } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+import { orderEventsCollection, buildOrderEvent } from './orderEvents';
+import { postLedgerEntry } from './walletLedger';
+
+export class TipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TipError';
+  }
+}
+
+export const validateTipAmount = (amount: number): string | null => {
+  if (!Number.isFinite(amount) || amount <= 0) return 'أدخل مبلغ الإكرامية';
+  if (!Number.isInteger(amount)) return 'الإكرامية بالجنيه الصحيح';
+  if (amount > TIP_CONFIG.maxAmount) return `أقصى إكرامية ${TIP_CONFIG.maxAmount} ج.م`;
+  return null;
+};
+
+/**
+ * الإكرامية كاملة للكابتن بدون عمولة، مرة واحدة للطلب.
+ * النقدي يسلمه العميل يداً بيد فيقيد للأرباح ويقابله قيد استلام نقدي كما في التسوية
+ */
+export const payTip = async (order: Order, customer: User, amount: number, method: PaymentMethod) => {
+  const error = validateTipAmount(amount);
+  if (error) throw new TipError(error);
+  if (!order.driverId) throw new TipError('لا يوجد كابتن لهذا الطلب');
+
+  const orderRef = doc(db, "orders", order.id);
+  const customerRef = doc(db, "users", customer.id);
+  const shortId = order.id.slice(-6);
+
+  await runTransaction(db, async (tx) => {
+    const orderSnap = await tx.get(orderRef);
+    const customerSnap = await tx.get(customerRef);
+    if (!orderSnap.exists()) throw new TipError('الطلب غير موجود');
+    if (orderSnap.data().tip) throw new TipError('تم إرسال إكرامية لهذا الطلب بالفعل');
+    if (method === 'WALLET' && (customerSnap.data()?.wallet?.balance || 0) < amount) throw new TipError('رصيد المحفظة لا يكفي للإكرامية');
+
+    const tip = { amount, method, createdAt: Date.now() };
+    tx.update(orderRef, { tip });
+
+    if (method === 'WALLET') {
+      postLedgerEntry(tx, { userId: customer.id, type: 'DEBIT', amount, description: `إكرامية للكابتن - طلب #${shortId}`, orderId: order.id });
+    }
+    postLedgerEntry(tx, { userId: order.driverId!, type: 'CREDIT', amount, description: `إكرامية من العميل - طلب #${shortId}`, orderId: order.id }, true);
+    if (method === 'CASH') {
+      postLedgerEntry(tx, { userId: order.driverId!, type: 'DEBIT', amount, description: `إكرامية مستلمة نقداً - طلب #${shortId}`, orderId: order.id });
+    }
+
+    tx.set(doc(collection(db, "notifications")), {
+      userId: order.driverId,
+      title: 'وصلتك إكرامية 🎉',
+      body: `${customer.name} أرسل لك إكرامية ${amount} ج.م ${method === 'CASH' ? 'نقداً' : 'على محفظتك'}`,
+      type: 'SUCCESS',
+      createdAt: Date.now(),
+      read: false
+    });
+    tx.set(doc(orderEventsCollection(order.id)), buildOrderEvent(order.id, 'TIPPED', customer, {}, { tip }));
+  });
+};
@@ -0,0 +1,75 @@
+import type { Order } from './types';
+import { OrderStatus } from './types';
+import { DEFAULT_PRICING, PICKUP_WAITING_CONFIG } from './config/constants';
+
+export interface FareBreakdown {
+  baseFare: number;
+  waitingMinutes: number;
+  waitingRate: number;
+  waitingCharge: number;
+  total: number;
+}
+
+export const getWaitingSeconds = (order: Order, now: number = Date.now()): number => {
+  const running = order.waitingStartedAt ? Math.floor((now - order.waitingStartedAt) / 1000) : 0;
+  return (order.waitingSeconds || 0) + running;
+};
+
+// سعر الدقيقة المحفوظ على الطلب من تسعير المركز، والطلبات القديمة بالسعر الافتراضي
+export const getWaitingRate = (order: Pick<Order, 'waitingPricePerMinute'>): number => {
+  return order.waitingPricePerMinute ?? DEFAULT_PRICING.waitingPricePerMinute;
+};
+
+/**
+ * رسوم الانتظار تحتسب بالدقيقة الكاملة (أي جزء من الدقيقة يحتسب دقيقة)
+ */
+export const getWaitingCharge = (seconds: number, ratePerMinute: number): number => {
+  return Math.ceil(seconds / 60) * ratePerMinute;
+};
+
+export const startWaiting = (order: Order): Record<string, any> => {
+  if (order.waitingStartedAt) return {};
+  return { waitingStartedAt: Date.now() };
+};
+
+export const stopWaiting = (order: Order): Record<string, any> => {
+  const waitingSeconds = getWaitingSeconds(order);
+  return { waitingStartedAt: null, waitingSeconds, waitingCharge: getWaitingCharge(waitingSeconds, getWaitingRate(order)) };
+};
+
+export const getFareBreakdown = (order: Order, now: number = Date.now()): FareBreakdown => {
+  const seconds = getWaitingSeconds(order, now);
+  const baseFare = order.baseFare ?? order.price;
+  const waitingRate = getWaitingRate(order);
+  const waitingCharge = getWaitingCharge(seconds, waitingRate);
+  return { baseFare, waitingMinutes: Math.ceil(seconds / 60), waitingRate, waitingCharge, total: baseFare + waitingCharge };
+};
+
+/**
+ * تثبيت السعر النهائي عند التوصيل: إيقاف العداد وإضافة رسوم الانتظار لسعر المشوار
+ */
+export const finalizeFare = (order: Order): Record<string, any> => {
+  if (!order.waitingStartedAt && !order.waitingSeconds) return {};
+  const breakdown = getFareBreakdown(order);
+  return {
+    ...stopWaiting(order),
+    baseFare: breakdown.baseFare,
+    price: breakdown.total
+  };
+};
+
+export interface PickupWaitingStatus {
+  minutesWaited: number;
+  freeMinutesLeft: number;
+  exceeded: boolean;
+}
+
+/**
+ * مهلة الانتظار المجانية عند نقطة الاستلام، تبدأ من لحظة وصول الكابتن
+ */
+export const getPickupWaitingStatus = (order: Order, now: number = Date.now()): PickupWaitingStatus | null => {
+  if (order.status !== OrderStatus.ARRIVED_AT_PICKUP || !order.arrivedAtPickupAt) return null;
+  const freeMinutes = (PICKUP_WAITING_CONFIG[order.category] || PICKUP_WAITING_CONFIG.TAXI).freeWaitingMinutes;
+  const minutesWaited = Math.floor((now - order.arrivedAtPickupAt) / 60000);
+  return { minutesWaited, freeMinutesLeft: Math.max(0, freeMinutes - minutesWaited), exceeded: minutesWaited >= freeMinutes };
+};
@@ -1,7 +1,16 @@
 
 export type UserRole = 'ADMIN' | 'OPERATOR' | 'DRIVER' | 'CUSTOMER';
+// SYSTEM للإجراءات التلقائية التي لا يقوم بها مستخدم (الإلغاء بعد انتهاء المهلة)
+export type OrderActorRole = UserRole | 'SYSTEM';
 export type UserStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'SUSPENDED';
 export type PaymentMethod = 'CASH' | 'WALLET';
+
+// إكرامية العميل للكابتن بعد التوصيل
+export interface OrderTip {
+  amount: number;
+  method: PaymentMethod; // CASH يسلمها العميل للكابتن يداً بيد
+  createdAt: number;
+}
 export type VehicleType = 'TOKTOK' | 'MOTORCYCLE' | 'CAR';
 export type OrderCategory = 'TAXI' | 'FOOD' | 'PHARMACY' | 'GROCERY' | 'PARCEL';
 
@@ -9,6 +18,7 @@ export enum OrderStatus {
   PENDING = 'PENDING',
   WAITING_FOR_OFFERS = 'WAITING_FOR_OFFERS',
   ACCEPTED = 'ACCEPTED',
+  ARRIVED_AT_PICKUP = 'ARRIVED_AT_PICKUP',
   PICKED_UP = 'PICKED_UP',
   ON_THE_WAY = 'ON_THE_WAY',
   DELIVERED = 'DELIVERED',
@@ -58,6 +68,21 @@ export interface Restaurant {
   promoText?: string;   // نص العرض الخاص
 }
 
+// صيدلية شريكة تستلم منها طلبات الأدوية
+export interface Pharmacy {
+  id: string;
+  name: string;
+  phone?: string;
+  villageName: string;
+  lat: number;
+  lng: number;
+  openTime: string; // HH:MM
+  closeTime: string;
+  is24Hours?: boolean;
+  isActive: boolean;
+  createdAt: number;
+}
+
 export interface CartItem {
   id: string;
   name: string;
@@ -65,6 +90,8 @@ export interface CartItem {
   quantity: number;
 }
 
+export type OfferStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'WITHDRAWN' | 'EXPIRED';
+
 export interface Offer {
   id: string;
   orderId: string;
@@ -76,12 +103,44 @@ export interface Offer {
   vehicleType: VehicleType;
   price: number;
   createdAt: number;
+  expiresAt?: number; // لا يمكن قبول العرض بعد هذا الوقت
+  status?: OfferStatus; // العروض القديمة بدون حالة تعامل كـ PENDING
+  counterPrice?: number; // السعر المقترح من العميل
+  counterStatus?: 'PENDING' | 'ACCEPTED' | 'DECLINED';
+  estimate?: number; // السعر التقديري للطلب وقت تقديم العرض
+  outlierAbove?: number; // العرض الأعلى من هذا السعر يظهر كعرض مرتفع
+  updatedAt?: number;
+}
+
+// آخر عرض مرتفع عن التقدير على الطلب، يظهر لغرفة التحكم للمراجعة
+export interface FlaggedOffer {
+  offerId: string;
+  driverId: string;
+  driverName: string;
+  price: number;
+  estimate: number;
+  flaggedAt: number;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
 }
 
 export interface Village {
   id: string;
   name: string;
-  center: { lat: number, lng: number };
+  center: LatLng;
+}
+
+// مصفوفة المسافات المحسوبة مسبقاً بين القرى، الصف والعمود بترتيب villageIds
+export interface VillageDistanceMatrix {
+  version: string;
+  generatedAt: number;
+  backend: string;
+  villageIds: string[];
+  distances: (number | null)[][]; // كم، null عند فشل المسار وقت البناء
+  durations: (number | null)[][]; // دقائق
 }
 
 // Added District interface to fix exported member errors in constants.ts and dashboards
@@ -95,18 +154,75 @@ export interface Zone {
   id: string;
   name: string;
   operatorId: string;
-  pricing: {
-    basePrice: number;
-    pricePerKm: number;
-    minPrice: number;
-    maxPrice: number;
-    sameVillagePrice: number;
-    multipliers: Record<VehicleType, number>;
-  };
+  pricing: ZonePricing;
   center: { lat: number; lng: number };
   villages?: Village[];
 }
 
+export interface ZonePricing {
+  basePrice: number;
+  pricePerKm: number;
+  minPrice: number;
+  maxPrice: number;
+  sameVillagePrice: number;
+  waitingPricePerMinute?: number;
+  roundTripReturnRate?: number; // نسبة سعر رحلة العودة من سعر الذهاب
+  multipliers: Record<VehicleType, number>;
+  offerBands?: OfferBands;
+}
+
+// نطاقات عروض الكباتن كنسب من أجرة السعر التقديري
+export interface OfferBands {
+  minRatio: number; // أقل عرض مسموح
+  outlierRatio: number; // ما فوقه يظهر للعميل والمشغل كعرض مرتفع
+  maxRatio: number; // أعلى عرض مسموح
+}
+
+// تسعير منطقة (مركز) محفوظ في pricing_zones، المستند default يطبق على باقي المراكز
+export interface PricingZone {
+  id: string;
+  name: string;
+  pricing: ZonePricing;
+  updatedAt: number;
+  updatedBy: string;
+  updatedByName: string;
+}
+
+export interface PricingChange {
+  id: string;
+  zoneId: string;
+  zoneName: string;
+  before: ZonePricing | null;
+  after: ZonePricing;
+  changedBy: string;
+  changedByName: string;
+  createdAt: number;
+}
+
+export type ProofOfDeliveryMethod = 'NONE' | 'PIN' | 'PHOTO' | 'SIGNATURE';
+
+export interface ProofOfDelivery {
+  method: ProofOfDeliveryMethod;
+  photo?: string;
+  signature?: string;
+  pin?: string; // الكود الذي أدخله الكابتن، وقواعد Firestore تطابقه مع الكود المحفوظ قبل قبول التسليم
+  capturedAt: number;
+  capturedBy: string;
+}
+
+// محطة ضمن مسار الطلب، المحطات مرتبة من الاستلام حتى التسليم النهائي
+export interface OrderStop {
+  type: 'PICKUP' | 'STOP' | 'DROPOFF';
+  address: string;
+  lat: number;
+  lng: number;
+  villageName?: string;
+  pinned?: boolean; // موقع حدده العميل على الخريطة وليس مركز القرية
+  notes?: string;
+  arrivedAt?: number;
+  completedAt?: number;
+}
+
 export interface Order {
   id: string;
   customerId: string;
@@ -120,16 +236,22 @@ export interface Order {
   operatorId: string;
   zoneId: string;
   category: OrderCategory;
-  pickup: { address: string; lat: number; lng: number; villageName?: string };
-  dropoff: { address: string; lat: number; lng: number; villageName?: string };
+  pickup: { address: string; lat: number; lng: number; villageName?: string; pinned?: boolean };
+  dropoff: { address: string; lat: number; lng: number; villageName?: string; pinned?: boolean };
   status: OrderStatus;
   price: number;
   distance: number;
   commission: number;
   operatorCut: number;
   driverCut: number;
+  settledAt?: number; // وقت توزيع الأجرة على المحافظ عند التوصيل
+  flaggedOffer?: FlaggedOffer;
+  tip?: OrderTip;
   createdAt: number;
   acceptedAt?: number;
+  arrivedAtPickupAt?: number; // بداية مهلة الانتظار المجانية
+  pickedUpAt?: number;
+  onTheWayAt?: number;
   deliveredAt?: number;
   cancelledAt?: number;
   ratedAt?: number;
@@ -138,14 +260,242 @@ export interface Order {
   dropoffNotes?: string;
   passengerCount?: number;
   prescriptionImage?: string;
+  pharmacyId?: string;
+  pharmacyName?: string;
   paymentMethod: PaymentMethod;
   requestedVehicleType: VehicleType;
   transactionId?: string;
   rating?: number;
   feedback?: string;
+  cancellationReason?: string;
+  cancelledBy?: OrderActorRole;
+  cancelledById?: string;
+  cancellationFee?: number;
+  cancellationFeeOwed?: number; // ما لم يغطه رصيد المحفظة من رسوم الإلغاء
+  releaseReason?: string; // سبب اعتذار آخر كابتن قبل الاستلام
+  releasedBy?: string;
+  offersCount?: number;
+  lastOfferAt?: number;
+  autoCancelled?: boolean; // ألغي تلقائياً لعدم وصول عروض
+  isRoundTrip?: boolean;
+  waitingStartedAt?: number | null; // بداية عداد الانتظار الجاري
+  waitingSeconds?: number; // إجمالي الانتظار المكتمل
+  waitingCharge?: number;
+  waitingPricePerMinute?: number; // سعر دقيقة الانتظار من تسعير المركز وقت إنشاء الطلب
+  baseFare?: number; // سعر المشوار قبل إضافة الانتظار
+  requiresDeliveryPin?: boolean; // الكود نفسه في orders/{id}/private/delivery للعميل فقط
+  proofOfDelivery?: ProofOfDelivery;
+  stops?: OrderStop[]; // الطلبات متعددة المحطات فقط، pickup و dropoff يمثلان أول وآخر محطة
+  currentStopIndex?: number;
+  scheduledFor?: number; // موعد الاستلام للطلبات المجدولة
+  reminderSentAt?: number;
   foodItems?: CartItem[];
   restaurantId?: string;
   restaurantName?: string;
+  disputeId?: string;
+  disputeStatus?: DisputeStatus;
+  refundedAmount?: number;
+  priceBreakdown?: PriceBreakdown;
+  appliedCoupon?: AppliedCoupon;
+  appliedPoints?: AppliedPoints;
+  loyaltyPointsEarned?: number;
+}
+
+export type CouponDiscountType = 'PERCENTAGE' | 'FIXED';
+
+// كوبون خصم، القيود غير المحددة لا تقيد استخدامه
+export interface Coupon {
+  id: string;
+  code: string; // يحفظ بحروف كبيرة
+  description?: string;
+  discountType: CouponDiscountType;
+  value: number;
+  maxDiscount?: number; // سقف خصم النسبة المئوية
+  minOrderValue?: number;
+  startsAt?: number;
+  expiresAt?: number;
+  usageLimit?: number; // إجمالي مرات الاستخدام
+  perUserLimit?: number;
+  categories?: OrderCategory[];
+  restaurantIds?: string[];
+  districtIds?: string[];
+  isActive: boolean;
+  usedCount: number;
+  totalDiscount: number;
+  createdAt: number;
+}
+
+export interface AppliedCoupon {
+  couponId: string;
+  code: string;
+  discount: number;
+  releasedAt?: number; // أعيد الاستخدام للكوبون بعد إلغاء الطلب
+}
+
+// حملة مضاعفة نقاط لفترة محددة، بدون فئات تشمل كل الخدمات
+export interface LoyaltyCampaign {
+  id: string;
+  name: string;
+  multiplier: number;
+  startsAt: number;
+  endsAt: number;
+  categories?: OrderCategory[];
+  isActive: boolean;
+}
+
+export interface LoyaltyRules {
+  isEnabled: boolean;
+  earnRates: Record<OrderCategory, number>; // نقاط لكل جنيه من الأجرة المدفوعة
+  pointValue: number; // قيمة النقطة بالجنيه عند الاستبدال
+  minRedeemPoints: number;
+  maxRedeemRatio: number; // أقصى نسبة من الأجرة تدفع بالنقاط
+  expiryDays: number;
+  campaigns: LoyaltyCampaign[];
+  updatedAt?: number;
+  updatedBy?: string;
+  updatedByName?: string;
+}
+
+export type LoyaltyEntryType = 'EARN' | 'REDEEM' | 'REFUND' | 'EXPIRE';
+
+// حركة نقاط، وقيود EARN و REFUND دفعات لها تاريخ انتهاء وتستهلك بالأقدم انتهاءً
+export interface LoyaltyEntry {
+  id: string;
+  userId: string;
+  type: LoyaltyEntryType;
+  points: number;
+  remaining?: number;
+  expiresAt?: number;
+  orderId?: string;
+  description: string;
+  createdAt: number;
+}
+
+export interface AppliedPoints {
+  points: number;
+  discount: number;
+  refundedAt?: number; // أعيدت النقاط عند إلغاء الطلب
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  code: string;
+  userId: string;
+  userName: string;
+  orderId: string;
+  discount: number;
+  createdAt: number;
+}
+
+export type PricingRule = 'SAME_VILLAGE' | 'FOOD_OUTSIDE' | 'DELIVERY' | 'STANDARD';
+
+// تفصيل حساب السعر كما قدّره محرك التسعير وقت إنشاء الطلب
+export interface PriceBreakdown {
+  rule: PricingRule;
+  base: number;
+  distanceKm: number;
+  pricePerKm: number;
+  distanceCharge: number;
+  multiplier: number;
+  subtotal: number; // قبل تطبيق الحد الأدنى والأقصى
+  minApplied: boolean;
+  maxApplied: boolean;
+  oneWay: number;
+  returnLeg: number;
+  itemsTotal: number; // قيمة الوجبات في طلبات المطاعم
+  surgeMultiplier: number;
+  surgeCharge: number; // الزيادة المضافة لسعر الذهاب بسبب أسعار الذروة
+  surgeReasons: string[];
+  total: number;
+}
+
+// قاعدة تسعير ذروة: تطبق معاملها عند تحقق كل شروطها المحددة، والشرط غير المحدد لا يقيدها
+export interface SurgeRule {
+  id: string;
+  name: string;
+  reason: string; // السبب كما يظهر للعميل قبل تأكيد الطلب
+  multiplier: number;
+  isActive: boolean;
+  daysOfWeek?: number[]; // 0 = الأحد
+  startTime?: string; // HH:MM، النافذة قد تعبر منتصف الليل
+  endTime?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string;
+  districtIds?: string[];
+  minDemandRatio?: number; // الطلبات المفتوحة ÷ الكباتن المتاحين في المركز
+  createdAt: number;
+}
+
+export interface AppliedSurge {
+  multiplier: number;
+  reasons: string[];
+  capped: boolean;
+}
+
+export type OrderEventType =
+  | 'CREATED'
+  | 'OFFER_RECEIVED'
+  | 'OFFER_ACCEPTED'
+  | 'OFFER_WITHDRAWN'
+  | 'OFFER_REVISED'
+  | 'COUNTER_OFFERED'
+  | 'COUNTER_ACCEPTED'
+  | 'COUNTER_DECLINED'
+  | 'STOP_ARRIVED'
+  | 'STOP_COMPLETED'
+  | 'WAITING_STARTED'
+  | 'WAITING_STOPPED'
+  | 'REASSIGNED'
+  | 'RELEASED'
+  | 'ARRIVED_AT_PICKUP'
+  | 'PICKED_UP'
+  | 'ON_THE_WAY'
+  | 'STATUS_CHANGED'
+  | 'DELIVERED'
+  | 'RATED'
+  | 'DISPUTE_OPENED'
+  | 'DISPUTE_RESOLVED'
+  | 'TIPPED'
+  | 'CANCELLED';
+
+// سجل أحداث الطلب (orders/{orderId}/events) - إضافة فقط بدون تعديل
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  type: OrderEventType;
+  actorId: string;
+  actorRole: OrderActorRole;
+  createdAt: number;
+  previous: Record<string, any>;
+  next: Record<string, any>;
+}
+
+export type DisputeCategory = 'MISSING_ITEM' | 'OVERCHARGE' | 'DAMAGED' | 'DRIVER_BEHAVIOR' | 'OTHER';
+
+export type DisputeStatus = 'OPEN' | 'REJECTED' | 'PARTIAL_REFUND' | 'FULL_REFUND';
+
+// شكوى العميل على طلب مكتمل وقرار الإدارة فيها
+export interface Dispute {
+  id: string;
+  orderId: string;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  driverId?: string | null;
+  driverName?: string | null;
+  category: DisputeCategory;
+  description: string;
+  photos: string[];
+  orderPrice: number;
+  orderItemsTotal?: number; // قيمة الوجبات ضمن السعر، تخص المطعم وليس الكابتن
+  status: DisputeStatus;
+  refundAmount?: number;
+  driverCharge?: number; // الجزء المخصوم من أرباح الكابتن
+  resolutionNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  createdAt: number;
 }
 
 export interface User {
@@ -160,11 +510,15 @@ export interface User {
   vehicleType?: VehicleType;
   plateNumber?: string; // رقم لوحة المركبة
   operatorId?: string;
+  operatorRate?: number; // نسبة المشغل من أجرة طلبات كباتنه
   zoneId?: string;
+  activeOrderIds?: string[]; // الطلبات الجارية للكابتن (أكثر من طلب فقط في التوصيلات المجمعة)
+  loyaltyPoints?: number; // رصيد نقاط العميل
   wallet: {
     balance: number;
     totalEarnings: number;
     withdrawn: number;
+    owed?: number; // رسوم إلغاء مستحقة على العميل لم يغطها رصيده
   };
   location?: {
     lat: number;
@@ -76,6 +76,20 @@ export const getRoadDistance = async (lat1: number, lon1: number, lat2: number,
   }
 };
 
+/**
+ * هل الوقت داخل نافذة يومية بصيغة HH:MM، والنافذة مثل 23:00 - 05:00 تعبر منتصف الليل
+ */
+export const isTimeInWindow = (date: Date, startTime: string, endTime: string): boolean => {
+  const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + (m || 0);
+  };
+  const current = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+};
+
 export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
   if (!lat1 || !lon1 || !lat2 || !lon2) return 0;
   const R = 6371; 
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { VILLAGE_DISTANCE_MATRIX } from './villageDistances';
+import { MENOFIA_DATA } from './config/constants';
+
+// المصفوفة المرفقة يجب أن تغطي كل قرى المحافظة وإلا ذهب التسعير لخدمة الطرق
+describe('VILLAGE_DISTANCE_MATRIX', () => {
+  const villageIds = MENOFIA_DATA.flatMap(d => d.villages.map(v => v.id));
+  const n = VILLAGE_DISTANCE_MATRIX.villageIds.length;
+
+  it('is generated and versioned', () => {
+    expect(VILLAGE_DISTANCE_MATRIX.version).not.toBe('');
+    expect(VILLAGE_DISTANCE_MATRIX.generatedAt).toBeGreaterThan(0);
+  });
+
+  it('covers every MENOFIA_DATA village', () => {
+    const missing = villageIds.filter(id => !VILLAGE_DISTANCE_MATRIX.villageIds.includes(id));
+    expect(missing).toEqual([]);
+  });
+
+  it('has a square distance and duration table', () => {
+    expect(VILLAGE_DISTANCE_MATRIX.distances).toHaveLength(n);
+    expect(VILLAGE_DISTANCE_MATRIX.durations).toHaveLength(n);
+    VILLAGE_DISTANCE_MATRIX.distances.forEach(row => expect(row).toHaveLength(n));
+    VILLAGE_DISTANCE_MATRIX.durations.forEach(row => expect(row).toHaveLength(n));
+  });
+});
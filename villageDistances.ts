@@ -0,0 +1,11 @@
+// ملف مولد بواسطة buildDistanceMatrix.ts - لا تعدله يدوياً
+import type { VillageDistanceMatrix } from './types';
+
+export const VILLAGE_DISTANCE_MATRIX: VillageDistanceMatrix = {
+  version: '',
+  generatedAt: 0,
+  backend: '',
+  villageIds: [],
+  distances: [],
+  durations: []
+};
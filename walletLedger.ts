@@ -0,0 +1,36 @@
+import { db } from './services/firebase';
+import { collection, doc, increment } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-firestore.js";
+
+// يقبل دفعة writeBatch أو معاملة runTransaction
+export type LedgerWriter = {
+  set: (ref: any, data: any) => any;
+  update: (ref: any, data: any) => any;
+};
+
+export interface LedgerEntry {
+  userId: string;
+  type: 'CREDIT' | 'DEBIT';
+  amount: number;
+  description: string;
+  orderId?: string;
+}
+
+/**
+ * قيد في محفظة المستخدم مع سجل مطابق في transactions ضمن نفس الكتابة،
+ * affectsEarnings لقيود الكباتن التي تغير إجمالي الأرباح أيضاً
+ */
+export const postLedgerEntry = (writer: LedgerWriter, entry: LedgerEntry, affectsEarnings: boolean = false) => {
+  const signed = entry.type === 'CREDIT' ? entry.amount : -entry.amount;
+  writer.update(doc(db, "users", entry.userId), {
+    'wallet.balance': increment(signed),
+    ...(affectsEarnings ? { 'wallet.totalEarnings': increment(signed) } : {})
+  });
+  writer.set(doc(collection(db, "transactions")), {
+    userId: entry.userId,
+    type: entry.type,
+    amount: entry.amount,
+    description: entry.description,
+    ...(entry.orderId ? { orderId: entry.orderId } : {}),
+    createdAt: Date.now()
+  });
+};